@@ -0,0 +1,37 @@
+/**
+ * @file route.ts
+ * @description Serves the template files in the project's templates folder
+ *
+ * Returns the raw contents of every .json, .yaml and .yml file in templates/, read on
+ * each request so edited templates show up without a rebuild. The browser parses and
+ * validates them (see template-registry.ts).
+ */
+
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { NextResponse } from "next/server";
+
+const TEMPLATES_DIR = path.join(process.cwd(), "templates");
+const TEMPLATE_FILE_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+export async function GET() {
+  let fileNames: string[];
+  try {
+    fileNames = await readdir(TEMPLATES_DIR);
+  } catch {
+    // No templates folder: only built-in and saved templates are available
+    return NextResponse.json({ files: [] });
+  }
+
+  const files = await Promise.all(
+    fileNames
+      .filter(fileName => TEMPLATE_FILE_EXTENSIONS.includes(path.extname(fileName).toLowerCase()))
+      .sort()
+      .map(async fileName => ({
+        name: fileName,
+        content: await readFile(path.join(TEMPLATES_DIR, fileName), "utf8")
+      }))
+  );
+
+  return NextResponse.json({ files });
+}
@@ -1,5 +1,6 @@
 "use client";
 
+import { GenerationSettingsPanel } from "@/components/generation-settings-panel";
 import { MessageThreadFull } from "@/components/tambo/message-thread-full";
 import { useMcpServers } from "@/components/tambo/mcp-config-modal";
 import { components, tools } from "@/lib/tambo";
@@ -19,8 +20,13 @@ export default function Home() {
         tamboUrl={process.env.NEXT_PUBLIC_TAMBO_URL}
       >
         <TamboMcpProvider mcpServers={mcpServers}>
-          <div className="w-full max-w-4xl mx-auto">
-            <MessageThreadFull contextKey="tambo-template" />
+          <div className="w-full max-w-6xl mx-auto flex gap-4">
+            <div className="flex-1 min-w-0">
+              <MessageThreadFull contextKey="tambo-template" />
+            </div>
+            <div className="hidden lg:block w-64 shrink-0 py-4">
+              <GenerationSettingsPanel />
+            </div>
           </div>
         </TamboMcpProvider>
       </TamboProvider>
@@ -0,0 +1,121 @@
+"use client";
+
+import { InteractablePresentation } from "@/components/interactable-presentation";
+import {
+  MessageInput,
+  MessageInputAttachButton,
+  MessageInputError,
+  MessageInputSubmitButton,
+  MessageInputTextarea,
+  MessageInputToolbar,
+} from "@/components/tambo/message-input";
+import { ScrollableMessageContainer } from "@/components/tambo/scrollable-message-container";
+import {
+  ThreadContent,
+  ThreadContentMessages,
+} from "@/components/tambo/thread-content";
+import { getDeckLibrary, type SavedDeck } from "@/lib/deck-library";
+import { components, tools } from "@/lib/tambo";
+import { TamboProvider } from "@tambo-ai/react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useEffect, useState } from "react";
+
+export default function DeckPage() {
+  const { id } = useParams<{ id: string }>();
+  const [deck, setDeck] = useState<SavedDeck | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isChatOpen, setIsChatOpen] = useState(true);
+
+  useEffect(() => {
+    getDeckLibrary()
+      .get(id)
+      .then(setDeck)
+      .catch(error => console.error("Error loading deck:", error))
+      .finally(() => setIsLoading(false));
+  }, [id]);
+
+  return (
+    <TamboProvider
+      apiKey={process.env.NEXT_PUBLIC_TAMBO_API_KEY!}
+      components={components}
+      tools={tools}
+      tamboUrl={process.env.NEXT_PUBLIC_TAMBO_URL}
+    >
+      <div className="flex h-screen bg-gray-50">
+        {/* Chat Sidebar */}
+        <div
+          className={`${
+            isChatOpen ? "w-80" : "w-0"
+          } border-r border-gray-200 bg-white transition-all duration-300 flex flex-col relative`}
+        >
+          {isChatOpen && (
+            <>
+              <div className="p-4 border-b border-gray-200">
+                <h2 className="text-lg font-semibold text-gray-900">
+                  Edit with chat
+                </h2>
+                <p className="text-sm text-gray-600 mt-1">
+                  Try: &quot;Shorten slide 3&quot; or &quot;Swap slides 2 and
+                  4&quot;
+                </p>
+              </div>
+
+              <ScrollableMessageContainer className="flex-1 p-4">
+                <ThreadContent variant="default">
+                  <ThreadContentMessages />
+                </ThreadContent>
+              </ScrollableMessageContainer>
+
+              <div className="p-4 border-t border-gray-200">
+                <MessageInput contextKey={`deck-${id}`} variant="bordered">
+                  <MessageInputTextarea placeholder="Edit the deck..." />
+                  <MessageInputToolbar>
+                    <MessageInputAttachButton />
+                    <MessageInputSubmitButton />
+                  </MessageInputToolbar>
+                  <MessageInputError />
+                </MessageInput>
+              </div>
+            </>
+          )}
+
+          {/* Toggle Button */}
+          <button
+            onClick={() => setIsChatOpen(!isChatOpen)}
+            className="absolute -right-10 top-1/2 -translate-y-1/2 bg-white border border-gray-200 rounded-r-lg p-2 hover:bg-gray-50"
+          >
+            {isChatOpen ? (
+              <ChevronLeft className="w-4 h-4" />
+            ) : (
+              <ChevronRight className="w-4 h-4" />
+            )}
+          </button>
+        </div>
+
+        {/* Main Content */}
+        <div className="flex-1 overflow-auto p-8">
+          <Link href="/decks" className="inline-block mb-4 text-sm text-gray-600 hover:text-gray-900">
+            ← Back to library
+          </Link>
+          {isLoading ? (
+            <p className="text-gray-500">Loading deck&hellip;</p>
+          ) : deck ? (
+            <InteractablePresentation
+              key={deck.id}
+              title={deck.document.title}
+              theme={deck.document.theme}
+              slides={deck.document.slides}
+              domain={deck.document.metadata.domain}
+              initialDocument={deck.document}
+              savedDeckId={deck.id}
+            />
+          ) : (
+            <p className="text-gray-600">This deck could not be found. It may have been deleted.</p>
+          )}
+        </div>
+      </div>
+    </TamboProvider>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import DeckThumbnail from "@/components/deck-thumbnail";
+import {
+  duplicateDeck,
+  getDeckLibrary,
+  renameDeck,
+  type SavedDeck
+} from "@/lib/deck-library";
+import { Copy, Pencil, Trash2 } from "lucide-react";
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+
+export default function DecksPage() {
+  const [decks, setDecks] = useState<SavedDeck[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [newTitle, setNewTitle] = useState("");
+
+  const refresh = useCallback(async () => {
+    try {
+      setDecks(await getDeckLibrary().list());
+      setError("");
+    } catch (loadError) {
+      console.error("Error loading decks:", loadError);
+      setError("Could not load saved decks from browser storage.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Runs a library change; on failure the list is reloaded, since the deck may have been
+  // changed or deleted in another tab, and the error is shown above it
+  const runAction = async (action: () => Promise<unknown>, message: string) => {
+    try {
+      await action();
+      await refresh();
+    } catch (actionError) {
+      console.error(`${message}:`, actionError);
+      await refresh();
+      setError(`${message}. It may have been changed in another tab, or browser storage is full.`);
+    }
+  };
+
+  const handleDuplicate = (id: string) =>
+    runAction(() => duplicateDeck(getDeckLibrary(), id), "Could not duplicate the deck");
+
+  const handleDelete = async (deck: SavedDeck) => {
+    if (!confirm(`Delete "${deck.document.title}"? This cannot be undone.`)) return;
+    await runAction(() => getDeckLibrary().delete(deck.id), "Could not delete the deck");
+  };
+
+  const startRename = (deck: SavedDeck) => {
+    setRenamingId(deck.id);
+    setNewTitle(deck.document.title);
+  };
+
+  const handleRename = async (id: string) => {
+    const title = newTitle.trim();
+    setRenamingId(null);
+    if (!title) return;
+    await runAction(() => renameDeck(getDeckLibrary(), id, title), "Could not rename the deck");
+  };
+
+  return (
+    <div className="min-h-screen p-8 bg-gray-50">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900">Deck Library</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Decks saved from the chat are stored in this browser.
+            </p>
+          </div>
+          <Link
+            href="/chat"
+            className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 text-white text-sm"
+          >
+            Generate a new deck
+          </Link>
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+        {isLoading ? (
+          <p className="text-gray-500">Loading decks&hellip;</p>
+        ) : decks.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-600">
+            No saved decks yet. Use the save button in a presentation&apos;s header to keep it here.
+          </div>
+        ) : (
+          <ul className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+            {decks.map(deck => (
+              <li key={deck.id} className="bg-white rounded-lg shadow-md p-3 flex flex-col gap-3">
+                <Link href={`/decks/${deck.id}`} className="block self-center">
+                  <DeckThumbnail slide={deck.document.slides[0]} theme={deck.document.theme} />
+                </Link>
+
+                {renamingId === deck.id ? (
+                  <input
+                    autoFocus
+                    value={newTitle}
+                    onChange={event => setNewTitle(event.target.value)}
+                    onBlur={() => handleRename(deck.id)}
+                    onKeyDown={event => {
+                      if (event.key === "Enter") handleRename(deck.id);
+                      if (event.key === "Escape") setRenamingId(null);
+                    }}
+                    className="font-medium text-gray-900 border border-gray-300 rounded px-2 py-1"
+                  />
+                ) : (
+                  <Link href={`/decks/${deck.id}`} className="font-medium text-gray-900 hover:underline">
+                    {deck.document.title}
+                  </Link>
+                )}
+
+                <div className="flex items-center justify-between text-xs text-gray-500">
+                  <span className="capitalize">{deck.document.metadata.domain ?? "General"}</span>
+                  <span>Updated {new Date(deck.document.metadata.updatedAt).toLocaleDateString()}</span>
+                </div>
+
+                <div className="flex items-center gap-2 border-t border-gray-100 pt-2">
+                  <Link
+                    href={`/decks/${deck.id}`}
+                    className="text-sm text-blue-600 hover:text-blue-800 mr-auto"
+                  >
+                    Open
+                  </Link>
+                  <button
+                    onClick={() => handleDuplicate(deck.id)}
+                    className="p-1.5 rounded hover:bg-gray-100 text-gray-600"
+                    title="Duplicate"
+                  >
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => startRename(deck)}
+                    className="p-1.5 rounded hover:bg-gray-100 text-gray-600"
+                    title="Rename"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(deck)}
+                    className="p-1.5 rounded hover:bg-gray-100 text-red-600"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { ApiKeyCheck } from "@/components/ApiKeyCheck";
 import Image from "next/image";
+import Link from "next/link";
 
 const KeyFilesSection = () => (
   <div className="bg-white px-8 py-4">
@@ -125,6 +126,12 @@ export default function Home() {
                 >
                   Interactables Demo →
                 </a>
+                <Link
+                  href="/decks"
+                  className="px-6 py-3 rounded-md font-medium shadow-sm transition-colors text-lg mt-4 bg-[#BFD7FF] hover:bg-[#a9c8fb] text-gray-800"
+                >
+                  Deck Library →
+                </Link>
               </div>
             </ApiKeyCheck>
           </div>
@@ -0,0 +1,28 @@
+"use client";
+
+import PresenterView from "@/components/presenter-view";
+import { useSearchParams } from "next/navigation";
+import { Suspense } from "react";
+
+function PresenterPageContent() {
+  const searchParams = useSearchParams();
+  const deckId = searchParams.get("deck");
+
+  if (!deckId) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900 text-gray-300">
+        <p>Open the presenter view from a presentation using the presenter button.</p>
+      </div>
+    );
+  }
+
+  return <PresenterView deckId={deckId} />;
+}
+
+export default function PresenterPage() {
+  return (
+    <Suspense>
+      <PresenterPageContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import SlidesGenerator from "@/components/slide-generator";
+import { parseDeckDocument, type DeckDocument } from "@/lib/deck-document";
+import { useState } from "react";
+
+export default function ViewDeckPage() {
+  const [input, setInput] = useState("");
+  const [deck, setDeck] = useState<DeckDocument | null>(null);
+  const [error, setError] = useState("");
+
+  const openDeck = () => {
+    try {
+      setDeck(parseDeckDocument(input));
+      setError("");
+    } catch (parseError) {
+      setError(parseError instanceof Error ? parseError.message : "Could not open this deck.");
+    }
+  };
+
+  if (deck) {
+    return (
+      <div className="min-h-screen p-8 bg-gray-50">
+        <button
+          onClick={() => setDeck(null)}
+          className="mb-4 text-sm text-gray-600 hover:text-gray-900"
+        >
+          ← Open another deck
+        </button>
+        <SlidesGenerator title={deck.title} initialDocument={deck} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-8 flex flex-col items-center justify-center bg-gray-50">
+      <div className="max-w-2xl w-full bg-white rounded-lg shadow-md p-6">
+        <h1 className="text-2xl font-semibold text-gray-900 mb-2">Open a shared deck</h1>
+        <p className="text-sm text-gray-600 mb-4">
+          Paste the deck JSON copied from a presentation&apos;s Share menu, or the contents of a
+          .deck.json file.
+        </p>
+        <textarea
+          value={input}
+          onChange={event => setInput(event.target.value)}
+          rows={12}
+          className="w-full font-mono text-xs border border-gray-300 rounded-md p-3 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder='{ "title": "...", "slides": [...] }'
+        />
+        {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+        <button
+          onClick={openDeck}
+          disabled={!input.trim()}
+          className="mt-4 px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+        >
+          Open deck
+        </button>
+      </div>
+    </div>
+  );
+}
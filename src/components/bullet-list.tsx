@@ -0,0 +1,165 @@
+"use client";
+
+import { Plus } from "lucide-react";
+import { useEffect, useRef } from "react";
+import type { ThemeClasses } from "@/lib/slide-themes";
+import { MAX_BULLET_LEVEL, type Bullet } from "@/lib/slides";
+
+interface BulletListProps {
+  bullets: Bullet[];
+  themeClasses: ThemeClasses;
+  className?: string;
+  /** Number of bullets revealed so far during a build; all are shown when undefined */
+  visibleCount?: number;
+  editing?: boolean;
+  onChange?: (bullets: Bullet[]) => void;
+  /** Renders a bullet's text, e.g. with its figures highlighted */
+  renderText?: (text: string) => React.ReactNode;
+}
+
+interface BulletNode {
+  bullet: Bullet;
+  index: number;
+  children: BulletNode[];
+}
+
+/**
+ * Turns the flat bullet array into a tree. A bullet can be at most one level deeper than
+ * the bullet before it, so skipped levels are pulled up.
+ */
+function nestBullets(bullets: Bullet[]): BulletNode[] {
+  const roots: BulletNode[] = [];
+  const path: BulletNode[] = [];
+
+  bullets.forEach((bullet, index) => {
+    const level = Math.min(bullet.level ?? 0, path.length);
+    const node: BulletNode = { bullet, index, children: [] };
+    path.length = level;
+    (level === 0 ? roots : path[level - 1].children).push(node);
+    path.push(node);
+  });
+
+  return roots;
+}
+
+const MARKERS = ["•", "–", "·"];
+
+/**
+ * Slide bullets as real nested lists. Markers are rendered as text rather than
+ * list-style so they survive the PDF capture and its vector text layer.
+ */
+export default function BulletList({
+  bullets,
+  themeClasses,
+  className = "",
+  visibleCount,
+  editing = false,
+  onChange,
+  renderText = text => text
+}: BulletListProps) {
+  const isEditable = editing && !!onChange;
+  const listRef = useRef<HTMLDivElement>(null);
+  // Latest bullets, so a blur firing after another edit doesn't work on a stale list
+  const bulletsRef = useRef(bullets);
+  const pendingFocusRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    bulletsRef.current = bullets;
+    if (pendingFocusRef.current === null) return;
+    const element = listRef.current?.querySelector<HTMLElement>(`[data-bullet-index="${pendingFocusRef.current}"]`);
+    pendingFocusRef.current = null;
+    element?.focus();
+  }, [bullets]);
+
+  const update = (next: Bullet[], focusIndex?: number) => {
+    bulletsRef.current = next;
+    pendingFocusRef.current = focusIndex ?? null;
+    onChange?.(next);
+  };
+
+  // Blur keeps the text; an emptied bullet is removed
+  const commitText = (index: number, text: string) => {
+    // Focus is moving to another bullet after a keyboard edit that already saved the text
+    if (pendingFocusRef.current !== null) return;
+    const current = bulletsRef.current;
+    if (!current[index]) return;
+    if (!text.trim()) {
+      update(current.filter((_, i) => i !== index));
+    } else if (current[index].text !== text) {
+      update(current.map((bullet, i) => (i === index ? { ...bullet, text } : bullet)));
+    }
+  };
+
+  const handleKeyDown = (index: number, event: React.KeyboardEvent<HTMLElement>) => {
+    const current = bulletsRef.current;
+    const bullet = current[index];
+    const text = event.currentTarget.textContent ?? "";
+
+    if (event.key === "Enter") {
+      event.preventDefault();
+      const next = current.map((item, i) => (i === index ? { ...item, text } : item));
+      next.splice(index + 1, 0, { text: "", level: bullet.level });
+      update(next, index + 1);
+    } else if (event.key === "Tab") {
+      event.preventDefault();
+      const previousLevel = current[index - 1]?.level ?? 0;
+      const level = event.shiftKey
+        ? Math.max(0, (bullet.level ?? 0) - 1)
+        : Math.min(MAX_BULLET_LEVEL, (bullet.level ?? 0) + 1, index > 0 ? previousLevel + 1 : 0);
+      update(current.map((item, i) => (i === index ? { ...item, text, level } : item)), index);
+    } else if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "b") {
+      event.preventDefault();
+      update(current.map((item, i) => (i === index ? { ...item, text, emphasis: !item.emphasis } : item)), index);
+    }
+  };
+
+  const renderNodes = (nodes: BulletNode[], depth: number) => (
+    <ul className={depth === 0 ? "space-y-2" : "mt-2 ml-6 space-y-2"}>
+      {nodes.map(({ bullet, index, children }) => (
+        <li
+          key={index}
+          className={`transition-opacity duration-300 ${
+            visibleCount !== undefined && index >= visibleCount ? "invisible opacity-0" : "opacity-100"
+          }`}
+        >
+          <div className="flex gap-3">
+            <span className={`select-none ${themeClasses.accent}`}>{MARKERS[depth] ?? MARKERS[MARKERS.length - 1]}</span>
+            <span
+              // Remount after each edit so React never reconciles DOM the browser changed
+              key={isEditable ? `${index}:${bullet.text}:${bullet.level ?? 0}` : undefined}
+              data-bullet-index={index}
+              className={`flex-1 ${bullet.emphasis ? `font-semibold ${themeClasses.accent}` : ""} ${
+                isEditable ? "outline-dashed outline-1 outline-offset-2 outline-current/30 focus:outline-2 rounded-sm cursor-text" : ""
+              }`}
+              contentEditable={isEditable}
+              suppressContentEditableWarning
+              onBlur={isEditable ? event => commitText(index, event.currentTarget.textContent ?? "") : undefined}
+              onKeyDown={isEditable ? event => handleKeyDown(index, event) : undefined}
+            >
+              {isEditable ? bullet.text : renderText(bullet.text)}
+            </span>
+          </div>
+          {children.length > 0 && renderNodes(children, depth + 1)}
+        </li>
+      ))}
+    </ul>
+  );
+
+  if (!isEditable && bullets.length === 0) return null;
+
+  return (
+    <div ref={listRef} className={className} style={{ fontFamily: '"Inter", Times, serif' }}>
+      {bullets.length > 0 && renderNodes(nestBullets(bullets), 0)}
+      {isEditable && (
+        <button
+          onClick={() => update([...bulletsRef.current, { text: "" }], bulletsRef.current.length)}
+          className={`mt-3 flex items-center gap-1 text-sm ${themeClasses.accent} hover:underline`}
+          title="Enter adds a bullet, Tab / Shift+Tab change its level, Ctrl+B highlights it"
+        >
+          <Plus className="w-4 h-4" />
+          Add bullet
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import SlideView from "@/components/slide-view";
+import { getThemeClasses } from "@/lib/slide-themes";
+import type { SlideContent, SlideTheme } from "@/lib/slides";
+
+interface DeckThumbnailProps {
+  slide?: SlideContent;
+  theme?: SlideTheme;
+}
+
+// The slide is laid out at full size and scaled down, so thumbnails match the viewer
+const FRAME_WIDTH = 1024;
+const FRAME_HEIGHT = 576;
+const SCALE = 0.3;
+
+export default function DeckThumbnail({ slide, theme = "blue" }: DeckThumbnailProps) {
+  const themeClasses = getThemeClasses(theme);
+
+  return (
+    <div
+      className={`relative overflow-hidden rounded-md ${themeClasses.container}`}
+      style={{ width: FRAME_WIDTH * SCALE, height: FRAME_HEIGHT * SCALE }}
+      aria-hidden
+    >
+      {slide && (
+        <div
+          className="absolute top-0 left-0 p-4 flex pointer-events-none"
+          style={{ width: FRAME_WIDTH, height: FRAME_HEIGHT, transform: `scale(${SCALE})`, transformOrigin: "top left" }}
+        >
+          <div className={`${themeClasses.slide} border rounded-lg flex-1 flex flex-col justify-center overflow-hidden`}>
+            <SlideView slide={slide} themeClasses={themeClasses} staticRender />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { SlidersHorizontal } from "lucide-react";
+import { useTamboContextHelpers } from "@tambo-ai/react";
+import { useEffect, useState } from "react";
+import {
+  AUDIENCE_PROFILES,
+  AUDIENCES,
+  DEFAULT_GENERATION_SETTINGS,
+  loadGenerationSettings,
+  MAX_WORDS_PER_SLIDE,
+  MIN_WORDS_PER_SLIDE,
+  saveGenerationSettings,
+  TONE_PROFILES,
+  TONES,
+  type GenerationSettings
+} from "@/lib/generation-settings";
+
+const SUGGESTED_LANGUAGES = ["English", "Spanish", "French", "German", "Portuguese", "Italian", "Japanese", "Chinese"];
+
+/**
+ * Audience, tone, length and language for generated decks. The choices are saved in the
+ * browser, used as defaults by the generation tools and sent with every message so the
+ * assistant writes its own slides the same way.
+ */
+export function GenerationSettingsPanel() {
+  const { addContextHelper, removeContextHelper } = useTamboContextHelpers();
+  const [settings, setSettings] = useState<GenerationSettings>(DEFAULT_GENERATION_SETTINGS);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setSettings(loadGenerationSettings());
+  }, []);
+
+  useEffect(() => {
+    addContextHelper("generationSettings", () => settings);
+    return () => removeContextHelper("generationSettings");
+  }, [settings, addContextHelper, removeContextHelper]);
+
+  const update = (change: Partial<GenerationSettings>) => {
+    const next = { ...settings, ...change };
+    setSettings(next);
+    saveGenerationSettings(next);
+  };
+
+  return (
+    <aside className="w-full space-y-5 rounded-xl border border-gray-200 bg-white p-4 text-sm text-gray-900">
+      <div className="flex items-center gap-2 font-semibold">
+        <SlidersHorizontal className="w-4 h-4 text-gray-500" />
+        Generation settings
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-xs font-medium text-gray-500">Audience</span>
+        <select
+          value={settings.audience}
+          onChange={event => update({ audience: event.target.value as GenerationSettings["audience"] })}
+          className="w-full rounded-lg border border-gray-200 bg-white px-2 py-1.5"
+        >
+          {AUDIENCES.map(audience => (
+            <option key={audience} value={audience}>{AUDIENCE_PROFILES[audience].label}</option>
+          ))}
+        </select>
+        <span className="block text-xs text-gray-500">Focus: {AUDIENCE_PROFILES[settings.audience].focus}</span>
+      </label>
+
+      <fieldset className="space-y-1">
+        <legend className="text-xs font-medium text-gray-500">Tone</legend>
+        <div className="grid grid-cols-2 gap-1">
+          {TONES.map(tone => (
+            <button
+              key={tone}
+              onClick={() => update({ tone })}
+              aria-pressed={settings.tone === tone}
+              className={`rounded-lg border px-2 py-1.5 ${
+                settings.tone === tone
+                  ? "border-black/80 bg-black/80 text-white"
+                  : "border-gray-200 text-gray-700 hover:bg-gray-50"
+              }`}
+            >
+              {TONE_PROFILES[tone].label}
+            </button>
+          ))}
+        </div>
+      </fieldset>
+
+      <label className="block space-y-1">
+        <span className="flex justify-between text-xs font-medium text-gray-500">
+          Words per slide
+          <span className="tabular-nums text-gray-900">{settings.wordsPerSlide}</span>
+        </span>
+        <input
+          type="range"
+          min={MIN_WORDS_PER_SLIDE}
+          max={MAX_WORDS_PER_SLIDE}
+          step={5}
+          value={settings.wordsPerSlide}
+          onChange={event => update({ wordsPerSlide: Number(event.target.value) })}
+          className="w-full"
+        />
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-xs font-medium text-gray-500">Language</span>
+        <input
+          value={settings.language}
+          onChange={event => update({ language: event.target.value })}
+          onBlur={() => update({ language: settings.language.trim() || DEFAULT_GENERATION_SETTINGS.language })}
+          list="generation-languages"
+          className="w-full rounded-lg border border-gray-200 px-2 py-1.5"
+        />
+        <datalist id="generation-languages">
+          {SUGGESTED_LANGUAGES.map(language => <option key={language} value={language} />)}
+        </datalist>
+      </label>
+    </aside>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import SlidesGenerator from "@/components/slide-generator";
+import type { DeckDocument } from "@/lib/deck-document";
+import { presentationPropsSchema, type Deck, type PresentationProps } from "@/lib/slides";
+import { useTamboInteractable, withInteractable } from "@tambo-ai/react";
+import { createContext, useCallback, useContext, useMemo, useState } from "react";
+
+interface PresentationContextValue {
+  interactableId: string | null;
+  initialDocument?: DeckDocument;
+  savedDeckId?: string;
+}
+
+// Keeps the deck document and library id out of the props the assistant sees and edits
+const PresentationContext = createContext<PresentationContextValue>({ interactableId: null });
+
+function PresentationBase(props: PresentationProps) {
+  const { interactableId, initialDocument, savedDeckId } = useContext(PresentationContext);
+  const { updateInteractableComponentProps } = useTamboInteractable();
+
+  // Report local edits (imports, tool changes) back so the assistant sees the current deck.
+  // Raw datasets stay out: the assistant works with bindings, not thousands of rows.
+  const handleDeckChange = useCallback((deck: Deck) => {
+    if (interactableId) {
+      updateInteractableComponentProps(interactableId, {
+        title: deck.title,
+        theme: deck.theme,
+        slides: deck.slides
+      });
+    }
+  }, [interactableId, updateInteractableComponentProps]);
+
+  return (
+    <SlidesGenerator
+      {...props}
+      initialDocument={initialDocument}
+      savedDeckId={savedDeckId}
+      onDeckChange={handleDeckChange}
+    />
+  );
+}
+
+const InteractablePresentationBase = withInteractable(PresentationBase, {
+  componentName: "Presentation",
+  description:
+    "The slide deck on screen. Update its title, theme or slides to edit it in place; " +
+    "slides replaces the whole array, so send every slide including unchanged ones",
+  propsSchema: presentationPropsSchema,
+});
+
+interface InteractablePresentationProps extends PresentationProps {
+  /** A saved or imported deck to open, as for SlidesGenerator */
+  initialDocument?: DeckDocument;
+  savedDeckId?: string;
+}
+
+/**
+ * SlidesGenerator registered as a Tambo interactable, so chat requests such as
+ * "make slide 3 shorter" edit the deck that is already on screen.
+ */
+export function InteractablePresentation({
+  initialDocument,
+  savedDeckId,
+  ...props
+}: InteractablePresentationProps) {
+  const [interactableId, setInteractableId] = useState<string | null>(null);
+  const context = useMemo(
+    () => ({ interactableId, initialDocument, savedDeckId }),
+    [interactableId, initialDocument, savedDeckId]
+  );
+
+  return (
+    <PresentationContext.Provider value={context}>
+      <InteractablePresentationBase {...props} onInteractableReady={setInteractableId} />
+    </PresentationContext.Provider>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import { ArrowDown, ArrowUp, Check, ListTree, Loader2, Plus, Trash2 } from "lucide-react";
+import { useTamboInteractable, useTamboThread, withInteractable } from "@tambo-ai/react";
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import {
+  deckOutlineSchema,
+  OUTLINE_LAYOUT_LABELS,
+  OUTLINE_LAYOUTS,
+  type DeckOutline,
+  type OutlineItem,
+  type OutlineLayout
+} from "@/lib/deck-outline";
+
+// Keeps the interactable id out of the props the assistant sees and edits
+const OutlineContext = createContext<string | null>(null);
+
+/**
+ * An outline waiting for approval. Items can be renamed, re-laid-out, reordered and
+ * deleted; every change is reported back so the assistant expands the outline as shown.
+ */
+function OutlineBase(props: DeckOutline) {
+  const interactableId = useContext(OutlineContext);
+  const { updateInteractableComponentProps } = useTamboInteractable();
+  const { sendThreadMessage } = useTamboThread();
+  const [outline, setOutline] = useState<DeckOutline>(props);
+  const [status, setStatus] = useState<"editing" | "approving" | "approved">("editing");
+
+  // Follow edits the assistant makes to the outline
+  useEffect(() => {
+    setOutline({
+      title: props.title,
+      topic: props.topic,
+      domain: props.domain,
+      plannedSlideCount: props.plannedSlideCount,
+      templateId: props.templateId,
+      category: props.category,
+      variables: props.variables,
+      items: props.items ?? []
+    });
+  }, [
+    props.title,
+    props.topic,
+    props.domain,
+    props.plannedSlideCount,
+    props.templateId,
+    props.category,
+    props.variables,
+    props.items
+  ]);
+
+  const update = useCallback((next: DeckOutline) => {
+    setOutline(next);
+    if (interactableId) {
+      updateInteractableComponentProps(interactableId, next);
+    }
+  }, [interactableId, updateInteractableComponentProps]);
+
+  const updateItem = (index: number, change: Partial<OutlineItem>) => {
+    update({ ...outline, items: outline.items.map((item, i) => (i === index ? { ...item, ...change } : item)) });
+  };
+
+  // Once items move, expandOutline picks intro and outro from the new order again
+  const clearTypes = (items: OutlineItem[]) => items.map(item => ({ ...item, type: undefined }));
+
+  const moveItem = (index: number, offset: number) => {
+    const items = [...outline.items];
+    const [item] = items.splice(index, 1);
+    items.splice(index + offset, 0, item);
+    update({ ...outline, items: clearTypes(items) });
+  };
+
+  const deleteItem = (index: number) => {
+    update({ ...outline, items: clearTypes(outline.items.filter((_, i) => i !== index)) });
+  };
+
+  const addItem = () => {
+    // New slides go before the closing slide
+    const items = [...outline.items];
+    items.splice(Math.max(1, items.length - 1), 0, { heading: "New slide", layout: "standard", intent: "" });
+    update({ ...outline, items });
+  };
+
+  const approve = async () => {
+    setStatus("approving");
+    try {
+      await sendThreadMessage(`Generate the slides from the approved outline "${outline.title}".`, {
+        streamResponse: true,
+        forceToolChoice: "expand-outline",
+        additionalContext: { approvedOutline: outline }
+      });
+      setStatus("approved");
+    } catch (error) {
+      console.error("Error approving outline:", error);
+      alert("Failed to send the approved outline. Please try again.");
+      setStatus("editing");
+    }
+  };
+
+  const editable = status === "editing";
+
+  return (
+    <div className="w-full rounded-xl border border-gray-200 bg-white text-gray-900 shadow-sm">
+      <div className="flex items-center gap-2 border-b border-gray-200 px-4 py-3">
+        <ListTree className="w-5 h-5 text-gray-500" />
+        <input
+          value={outline.title}
+          onChange={event => update({ ...outline, title: event.target.value })}
+          disabled={!editable}
+          className="flex-1 bg-transparent text-lg font-semibold focus:outline-none"
+          aria-label="Presentation title"
+        />
+        <span className="text-xs text-gray-500">{outline.items.length} slides</span>
+      </div>
+
+      <ol className="divide-y divide-gray-100">
+        {outline.items.map((item, index) => (
+          <li key={index} className="flex items-start gap-3 px-4 py-3">
+            <span className="mt-1.5 w-6 text-right text-sm tabular-nums text-gray-400">{index + 1}</span>
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <input
+                  value={item.heading}
+                  onChange={event => updateItem(index, { heading: event.target.value })}
+                  disabled={!editable}
+                  className="flex-1 min-w-0 rounded px-1 py-0.5 font-medium hover:bg-gray-50 focus:bg-gray-50 focus:outline-none"
+                  aria-label={`Title of slide ${index + 1}`}
+                />
+                <select
+                  value={item.layout}
+                  onChange={event => updateItem(index, { layout: event.target.value as OutlineLayout })}
+                  disabled={!editable}
+                  className="rounded border border-gray-200 bg-white px-2 py-1 text-xs text-gray-600"
+                  aria-label={`Layout of slide ${index + 1}`}
+                >
+                  {OUTLINE_LAYOUTS.map(layout => (
+                    <option key={layout} value={layout}>{OUTLINE_LAYOUT_LABELS[layout]}</option>
+                  ))}
+                </select>
+              </div>
+              <input
+                value={item.intent}
+                onChange={event => updateItem(index, { intent: event.target.value })}
+                disabled={!editable}
+                placeholder="What should this slide get across?"
+                className="w-full rounded px-1 py-0.5 text-sm text-gray-600 hover:bg-gray-50 focus:bg-gray-50 focus:outline-none"
+                aria-label={`Intent of slide ${index + 1}`}
+              />
+            </div>
+            {editable && (
+              <div className="flex items-center gap-1 text-gray-500">
+                <button
+                  onClick={() => moveItem(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => moveItem(index, 1)}
+                  disabled={index === outline.items.length - 1}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => deleteItem(index)}
+                  disabled={outline.items.length <= 1}
+                  className="p-1 rounded hover:bg-gray-100 hover:text-red-600 disabled:opacity-30"
+                  title="Delete slide"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex items-center justify-between gap-2 border-t border-gray-200 px-4 py-3">
+        {editable ? (
+          <button
+            onClick={addItem}
+            className="inline-flex items-center gap-1 rounded-lg px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100"
+          >
+            <Plus className="w-4 h-4" />
+            Add slide
+          </button>
+        ) : <span />}
+        <button
+          onClick={approve}
+          disabled={!editable || outline.items.length === 0}
+          className="inline-flex items-center gap-2 rounded-lg bg-black/80 px-4 py-1.5 text-sm text-white hover:bg-black/70 disabled:opacity-60"
+        >
+          {status === "approving" ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+          {status === "approved" ? "Approved" : "Approve and generate slides"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const InteractableOutlineBase = withInteractable(OutlineBase, {
+  componentName: "PresentationOutline",
+  description:
+    "The deck outline waiting for the user's approval. Update its title or items to change the plan; " +
+    "items replaces the whole array, so send every item including unchanged ones",
+  propsSchema: deckOutlineSchema,
+});
+
+/**
+ * The outline registered as a Tambo interactable, so both the user and the assistant
+ * can edit it before it is expanded into slides.
+ */
+export function InteractablePresentationOutline(props: DeckOutline) {
+  const [interactableId, setInteractableId] = useState<string | null>(null);
+
+  return (
+    <OutlineContext.Provider value={interactableId}>
+      <InteractableOutlineBase {...props} onInteractableReady={setInteractableId} />
+    </OutlineContext.Provider>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import { ChevronLeft, ChevronRight, Pause, Play, TimerReset } from "lucide-react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import SlideView from "@/components/slide-view";
+import {
+  openPresenterChannel,
+  type PresenterMessage,
+  type PresenterState
+} from "@/lib/presenter-channel";
+import { getThemeClasses } from "@/lib/slide-themes";
+
+interface PresenterViewProps {
+  deckId: string;
+}
+
+const formatElapsed = (totalSeconds: number) => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds)}`
+    : `${pad(minutes)}:${pad(seconds)}`;
+};
+
+/**
+ * Presenter-only companion window: current slide, next slide, speaker notes and an
+ * elapsed timer. Navigation here is mirrored to the audience window and vice versa.
+ */
+export default function PresenterView({ deckId }: PresenterViewProps) {
+  const [state, setState] = useState<PresenterState | null>(null);
+  const [audienceClosed, setAudienceClosed] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [timerRunning, setTimerRunning] = useState(true);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+
+  useEffect(() => {
+    const channel = openPresenterChannel(deckId);
+    channelRef.current = channel;
+
+    channel.onmessage = (event: MessageEvent<PresenterMessage>) => {
+      const message = event.data;
+      if (message.type === "state") {
+        setState(message.state);
+        setAudienceClosed(false);
+      } else if (message.type === "closed") {
+        setAudienceClosed(true);
+      }
+    };
+
+    // Ask the audience window for the current deck in case we opened after it
+    channel.postMessage({ type: "request-state" } satisfies PresenterMessage);
+
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [deckId]);
+
+  // Elapsed timer
+  useEffect(() => {
+    if (!timerRunning) return;
+
+    const interval = setInterval(() => {
+      setElapsed(prev => prev + 1);
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [timerRunning]);
+
+  // With bullet builds, a step reveals or hides a bullet before changing slides
+  const canStepBack = !!state && (state.currentSlide > 0 || (state.revealedBullets ?? 0) > 0);
+  const canStepForward = !!state && (
+    state.currentSlide < state.slides.length - 1 ||
+    (state.revealedBullets !== undefined &&
+      state.revealedBullets < (state.slides[state.currentSlide]?.bullets?.length ?? 0))
+  );
+
+  const step = useCallback((direction: 1 | -1) => {
+    if (direction > 0 ? !canStepForward : !canStepBack) return;
+    channelRef.current?.postMessage({ type: "step", direction } satisfies PresenterMessage);
+  }, [canStepForward, canStepBack]);
+
+  useEffect(() => {
+    const handleKeyPress = (event: KeyboardEvent) => {
+      if (event.key === "ArrowLeft") {
+        step(-1);
+      } else if (event.key === "ArrowRight" || event.key === " ") {
+        step(1);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyPress);
+    return () => window.removeEventListener("keydown", handleKeyPress);
+  }, [step]);
+
+  if (!state) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900 text-gray-300">
+        <p>Waiting for the presentation window&hellip;</p>
+      </div>
+    );
+  }
+
+  const themeClasses = getThemeClasses(state.theme);
+  const current = state.slides[state.currentSlide];
+  const next = state.slides[state.currentSlide + 1];
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white p-6 flex flex-col gap-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-lg font-semibold">{state.title}</h1>
+          <p className="text-sm text-gray-400">
+            Slide {state.currentSlide + 1} of {state.slides.length}
+            {state.revealedBullets !== undefined && !!current?.bullets?.length &&
+              ` · bullet ${state.revealedBullets} of ${current.bullets.length}`}
+            {audienceClosed && " · presentation window closed"}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="font-mono text-3xl tabular-nums mr-2">{formatElapsed(elapsed)}</span>
+          <button
+            onClick={() => setTimerRunning(!timerRunning)}
+            className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+            title={timerRunning ? "Pause timer" : "Resume timer"}
+          >
+            {timerRunning ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </button>
+          <button
+            onClick={() => setElapsed(0)}
+            className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+            title="Reset timer"
+          >
+            <TimerReset className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 flex-1">
+        {/* Current slide */}
+        <div className="col-span-2 flex flex-col gap-2">
+          <span className="text-xs uppercase tracking-wide text-gray-400">Current</span>
+          <div className={`${themeClasses.container} rounded-lg p-2`}>
+            {current && (
+              <div className={`${themeClasses.slide} border rounded-lg min-h-[400px] flex flex-col justify-center`}>
+                <SlideView slide={current} themeClasses={themeClasses} visibleBullets={state.revealedBullets} />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-4">
+          {/* Next slide */}
+          <div className="flex flex-col gap-2">
+            <span className="text-xs uppercase tracking-wide text-gray-400">Next</span>
+            {next ? (
+              <div className={`${themeClasses.container} rounded-lg p-2 opacity-80`}>
+                <div className={`${themeClasses.slide} border rounded-lg text-sm`}>
+                  <SlideView slide={next} themeClasses={themeClasses} />
+                </div>
+              </div>
+            ) : (
+              <div className="rounded-lg border border-gray-700 p-6 text-center text-gray-500">
+                End of presentation
+              </div>
+            )}
+          </div>
+
+          {/* Speaker notes */}
+          <div className="flex flex-col gap-2 flex-1">
+            <span className="text-xs uppercase tracking-wide text-gray-400">Notes</span>
+            <div className="flex-1 rounded-lg bg-gray-800 p-4 text-lg leading-relaxed overflow-auto whitespace-pre-wrap">
+              {current?.speakerNotes || <span className="text-gray-500">No notes for this slide.</span>}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Navigation */}
+      <div className="flex justify-center gap-4">
+        <button
+          onClick={() => step(-1)}
+          disabled={!canStepBack}
+          className="p-3 rounded-full bg-gray-700 hover:bg-gray-600 disabled:opacity-40 transition-colors"
+          title="Previous step"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <button
+          onClick={() => step(1)}
+          disabled={!canStepForward}
+          className="p-3 rounded-full bg-gray-700 hover:bg-gray-600 disabled:opacity-40 transition-colors"
+          title="Next step"
+        >
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+}
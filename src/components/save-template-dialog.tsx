@@ -0,0 +1,186 @@
+"use client";
+
+import { LayoutTemplate, Plus, X } from "lucide-react";
+import { useState } from "react";
+import { createPortal } from "react-dom";
+import { PRESENTATION_DOMAINS } from "@/lib/builtin-templates";
+import { createTemplateFromDeck, detectTemplateFacts, type TemplateFactKind } from "@/lib/deck-templates";
+import type { Deck } from "@/lib/slides";
+import { saveUserTemplate, type RegisteredTemplate } from "@/lib/template-registry";
+
+interface PlaceholderRow {
+  text: string;
+  variable: string;
+  kind: TemplateFactKind | "custom";
+  occurrences?: number;
+  enabled: boolean;
+}
+
+interface SaveTemplateDialogProps {
+  deck: Deck;
+  domain?: string;
+  onClose: () => void;
+  onSaved?: (template: RegisteredTemplate) => void;
+}
+
+const KIND_LABELS: Record<PlaceholderRow["kind"], string> = {
+  number: "Figure",
+  date: "Date",
+  name: "Name",
+  custom: "Custom"
+};
+
+/**
+ * Saves the deck as a user template. Detected figures, dates and names are listed as
+ * placeholders; the user picks which to keep, renames their variables and can add their
+ * own, e.g. the company name.
+ */
+export function SaveTemplateDialog({ deck, domain, onClose, onSaved }: SaveTemplateDialogProps) {
+  const [title, setTitle] = useState(deck.title);
+  const [topic, setTopic] = useState(deck.title.toLowerCase());
+  const [templateDomain, setTemplateDomain] = useState(domain ?? "business");
+  const [description, setDescription] = useState("");
+  const [rows, setRows] = useState<PlaceholderRow[]>(() =>
+    detectTemplateFacts(deck).map(fact => ({ ...fact, enabled: true }))
+  );
+
+  const updateRow = (index: number, change: Partial<PlaceholderRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...change } : row)));
+  };
+
+  const save = () => {
+    try {
+      const template = createTemplateFromDeck(deck, {
+        domain: templateDomain.trim().toLowerCase(),
+        topic: topic.trim(),
+        title,
+        description: description.trim() || undefined,
+        placeholders: rows.filter(row => row.enabled)
+      });
+      const saved = saveUserTemplate(template);
+      onSaved?.(saved);
+      onClose();
+    } catch (error) {
+      console.error("Error saving template:", error);
+      alert(error instanceof Error ? error.message : "Failed to save the template.");
+    }
+  };
+
+  const inputClasses = "w-full rounded-lg border border-gray-200 px-2 py-1.5 text-sm";
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+      onClick={event => event.target === event.currentTarget && onClose()}
+    >
+      <div className="mx-4 flex max-h-[90vh] w-full max-w-2xl flex-col rounded-xl bg-white text-gray-900 shadow-xl">
+        <div className="flex items-center justify-between border-b border-gray-200 px-4 py-3">
+          <h2 className="flex items-center gap-2 text-lg font-semibold">
+            <LayoutTemplate className="w-5 h-5 text-gray-500" />
+            Save as template
+          </h2>
+          <button onClick={onClose} className="p-1 rounded hover:bg-gray-100" aria-label="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="space-y-4 overflow-y-auto p-4">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="col-span-2 space-y-1">
+              <span className="text-xs font-medium text-gray-500">Template title</span>
+              <input value={title} onChange={event => setTitle(event.target.value)} className={inputClasses} />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-medium text-gray-500">Topic (used to match requests)</span>
+              <input value={topic} onChange={event => setTopic(event.target.value)} className={inputClasses} />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-medium text-gray-500">Domain</span>
+              <input
+                value={templateDomain}
+                onChange={event => setTemplateDomain(event.target.value)}
+                list="template-domains"
+                className={inputClasses}
+              />
+              <datalist id="template-domains">
+                {PRESENTATION_DOMAINS.map(option => <option key={option} value={option} />)}
+              </datalist>
+            </label>
+            <label className="col-span-2 space-y-1">
+              <span className="text-xs font-medium text-gray-500">Description (optional)</span>
+              <input value={description} onChange={event => setDescription(event.target.value)} className={inputClasses} />
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <div>
+              <h3 className="text-sm font-semibold">Placeholders</h3>
+              <p className="text-xs text-gray-500">
+                Checked text is replaced with {"{{variable}}"} everywhere in the deck, so new decks ask for a fresh value.
+                Chart values are kept as they are.
+              </p>
+            </div>
+            {rows.length === 0 && (
+              <p className="text-sm text-gray-500">No figures, dates or names were found. Add placeholders below.</p>
+            )}
+            {rows.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={row.enabled}
+                  onChange={event => updateRow(index, { enabled: event.target.checked })}
+                  aria-label={`Replace ${row.text || "placeholder"}`}
+                />
+                <span className="w-14 shrink-0 text-xs text-gray-500">{KIND_LABELS[row.kind]}</span>
+                <input
+                  value={row.text}
+                  onChange={event => updateRow(index, { text: event.target.value })}
+                  readOnly={row.kind !== "custom"}
+                  placeholder="Text in the deck"
+                  className={`${inputClasses} flex-1 ${row.kind !== "custom" ? "bg-gray-50" : ""}`}
+                />
+                <span className="text-gray-400">→</span>
+                <input
+                  value={row.variable}
+                  onChange={event => updateRow(index, { variable: event.target.value.replace(/[^\w]/g, "") })}
+                  placeholder="variable"
+                  className={`${inputClasses} w-36 font-mono`}
+                  aria-label="Variable name"
+                />
+                <span className="w-8 shrink-0 text-right text-xs tabular-nums text-gray-400">
+                  {row.occurrences !== undefined ? `×${row.occurrences}` : ""}
+                </span>
+              </div>
+            ))}
+            <button
+              onClick={() => setRows(prev => [...prev, {
+                text: "",
+                variable: prev.some(row => row.variable === "company") ? "" : "company",
+                kind: "custom",
+                enabled: true
+              }])}
+              className="inline-flex items-center gap-1 rounded-lg px-2 py-1 text-sm text-gray-600 hover:bg-gray-100"
+            >
+              <Plus className="w-4 h-4" />
+              Add placeholder
+            </button>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-gray-200 px-4 py-3">
+          <button onClick={onClose} className="rounded-lg px-4 py-1.5 text-sm text-gray-600 hover:bg-gray-100">
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={!title.trim() || !topic.trim() || !templateDomain.trim()}
+            className="rounded-lg bg-black/80 px-4 py-1.5 text-sm text-white hover:bg-black/70 disabled:opacity-60"
+          >
+            Save template
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { Graph } from "@/components/tambo/graph";
+import type { GraphDataType } from "@/lib/graph-data";
+
+interface SlideChartProps {
+  chart: GraphDataType;
+  /** Skip the entry animation so captures (PDF, HTML) get the finished chart */
+  staticRender?: boolean;
+}
+
+/**
+ * A slide's chart, drawn by the same Graph component the chat uses. Axis labels take the
+ * slide's text color so the chart reads on every theme.
+ */
+export default function SlideChart({ chart, staticRender = false }: SlideChartProps) {
+  return (
+    <div data-slide-chart className="w-full">
+      <Graph
+        data={chart}
+        showLegend={chart.type === "pie" || chart.datasets.length > 1}
+        animate={!staticRender}
+        className="bg-transparent [&_.recharts-text]:fill-current"
+      />
+    </div>
+  );
+}
+
+/**
+ * Charts are measured and drawn after mount, so captures wait until every chart inside
+ * `element` has its SVG (or the timeout passes).
+ */
+export async function waitForCharts(element: HTMLElement, timeoutMs = 2000) {
+  const charts = Array.from(element.querySelectorAll("[data-slide-chart]"));
+  const deadline = Date.now() + timeoutMs;
+
+  while (
+    charts.some(chart => !chart.querySelector(".recharts-surface")) &&
+    Date.now() < deadline
+  ) {
+    await new Promise(resolve => requestAnimationFrame(resolve));
+  }
+}
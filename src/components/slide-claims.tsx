@@ -0,0 +1,123 @@
+"use client";
+
+import { AlertTriangle, ChevronDown, ChevronUp, ShieldCheck } from "lucide-react";
+import { useState } from "react";
+import {
+  CLAIM_STATUSES,
+  CLAIM_STATUS_LABELS,
+  activeClaims,
+  splitByClaims,
+  type SlideClaim
+} from "@/lib/slide-claims";
+import type { SlideContent } from "@/lib/slides";
+
+const CLAIM_HINTS: Record<SlideClaim["status"], string> = {
+  verified: "Verified",
+  placeholder: "Placeholder figure: replace it with a real one or mark it verified",
+  "needs-source": "Needs a source before it is presented"
+};
+
+/**
+ * Text with its unverified figures highlighted. Only the live viewer highlights; exports
+ * and the presenter view render plain text.
+ */
+export function ClaimText({ text, claims }: { text: string; claims: SlideClaim[] }) {
+  return (
+    <>
+      {splitByClaims(text, claims).map((part, index) => part.claim ? (
+        <mark
+          key={index}
+          className="rounded-sm bg-amber-200/80 px-0.5 text-inherit outline-dashed outline-1 outline-amber-500"
+          title={CLAIM_HINTS[part.claim.status]}
+        >
+          {part.text}
+        </mark>
+      ) : part.text)}
+    </>
+  );
+}
+
+interface SlideClaimsPanelProps {
+  slide: SlideContent;
+  onChange: (slide: SlideContent) => void;
+}
+
+/**
+ * The figures on the current slide with their fact-check status, shown under the slide.
+ * Collapsed to a one-line summary until opened.
+ */
+export function SlideClaimsPanel({ slide, onChange }: SlideClaimsPanelProps) {
+  const [open, setOpen] = useState(false);
+  const claims = activeClaims(slide);
+  if (claims.length === 0) return null;
+
+  const unresolved = claims.filter(claim => claim.status !== "verified").length;
+
+  const updateClaim = (claim: SlideClaim, change: Partial<SlideClaim>) => {
+    onChange({
+      ...slide,
+      claims: (slide.claims ?? []).map(item => (item === claim ? { ...item, ...change } : item))
+    });
+  };
+
+  return (
+    <div className="mx-4 mb-2 rounded-lg border border-amber-200 bg-amber-50 text-sm text-gray-800">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="flex w-full items-center gap-2 px-3 py-2 text-left"
+        aria-expanded={open}
+      >
+        {unresolved > 0 ? (
+          <AlertTriangle className="w-4 h-4 text-amber-600" />
+        ) : (
+          <ShieldCheck className="w-4 h-4 text-green-600" />
+        )}
+        <span className="flex-1">
+          {unresolved > 0
+            ? `${unresolved} ${unresolved === 1 ? "figure" : "figures"} on this slide ${unresolved === 1 ? "is" : "are"} not verified`
+            : "All figures on this slide are verified"}
+        </span>
+        {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {open && (
+        <div className="space-y-2 border-t border-amber-200 px-3 py-2">
+          {claims.map(claim => (
+            <div key={`${claim.target ?? "text"}:${claim.text}`} className="flex items-center gap-2">
+              <span className="w-40 shrink-0 truncate font-medium" title={claim.text}>
+                {claim.target === "chart" ? "Chart: " : claim.target === "table" ? "Table: " : ""}
+                {claim.text}
+              </span>
+              <select
+                value={claim.status}
+                onChange={event => updateClaim(claim, { status: event.target.value as SlideClaim["status"] })}
+                className="rounded border border-gray-300 bg-white px-1 py-1"
+                aria-label={`Status of ${claim.text}`}
+              >
+                {CLAIM_STATUSES.map(status => (
+                  <option key={status} value={status}>{CLAIM_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+              <input
+                key={claim.source ?? ""}
+                defaultValue={claim.source ?? ""}
+                placeholder="Source"
+                onBlur={event => {
+                  const source = event.target.value.trim() || undefined;
+                  if (source !== claim.source) updateClaim(claim, { source });
+                }}
+                onKeyDown={event => {
+                  if (event.key === "Enter") event.currentTarget.blur();
+                }}
+                className="min-w-0 flex-1 rounded border border-gray-300 bg-white px-2 py-1"
+              />
+            </div>
+          ))}
+          <p className="text-xs text-gray-500">
+            Editing a figure on the slide clears its marker. Exports ask before including figures that are not verified.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import SlideView from "@/components/slide-view";
+import { getThemeClasses } from "@/lib/slide-themes";
+import type { SlideContent, SlideTheme } from "@/lib/slides";
+
+interface SlideExportStageProps {
+  slide: SlideContent;
+  theme: SlideTheme;
+  width: number;
+  height: number;
+}
+
+/**
+ * A single themed slide rendered at a fixed page size for capture. The stage is kept in
+ * the viewport (so layout and image loading behave normally) but hidden from the user;
+ * the exporter makes it visible in html2canvas' cloned document only.
+ */
+export default function SlideExportStage({ slide, theme, width, height }: SlideExportStageProps) {
+  const themeClasses = getThemeClasses(theme);
+
+  return (
+    <div
+      data-export-stage
+      style={{ position: "fixed", top: 0, left: 0, zIndex: -1, visibility: "hidden", pointerEvents: "none" }}
+    >
+      <div
+        data-export-slide
+        className={`${themeClasses.container} p-4 flex`}
+        style={{ width, height }}
+      >
+        <div className={`${themeClasses.slide} border rounded-lg flex-1 flex flex-col justify-center overflow-hidden`}>
+          <SlideView slide={slide} themeClasses={themeClasses} staticRender />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -8,43 +8,149 @@ import {
   RotateCcw,
   Maximize2,
   Minimize2,
-  Image as ImageIcon,
-  ExternalLink,
   Download,
-  Share
+  Share,
+  Presentation,
+  FileText,
+  Check,
+  Loader2,
+  FileCode,
+  Copy,
+  FileJson,
+  Upload,
+  Save,
+  Undo2,
+  Redo2,
+  History,
+  Pencil,
+  ListChecks,
+  LayoutTemplate
 } from "lucide-react";
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import jsPDF from "jspdf";
-import html2canvas from "html2canvas";
-
-interface Slide {
-  id: number;
-  type: "intro" | "content" | "outro";
-  heading: string;
-  description: string;
-  imageUrl?: string;
-  imageAlt?: string;
-  photographer?: string;
-  unsplashUrl?: string;
-  imageQuery?: string;
-}
+import * as DropdownMenu from "@radix-ui/react-dropdown-menu";
+import { SaveTemplateDialog } from "@/components/save-template-dialog";
+import { SlideClaimsPanel } from "@/components/slide-claims";
+import SlideView from "@/components/slide-view";
+import {
+  getPresenterUrl,
+  openPresenterChannel,
+  type PresenterMessage,
+  type PresenterState
+} from "@/lib/presenter-channel";
+import {
+  createDeckDocument,
+  DECK_FILE_EXTENSION,
+  parseDeckDocument,
+  serializeDeckDocument,
+  toDeck,
+  type DeckDocument
+} from "@/lib/deck-document";
+import { activateDeck, isActiveDeck, registerActiveDeck, type ActiveDeckHandle } from "@/lib/active-deck";
+import { getDeckLibrary } from "@/lib/deck-library";
+import { useDeckHistory } from "@/lib/deck-history";
+import { addSessionDataset, syncDatasetSlides } from "@/lib/datasets";
+import { exportPresentationToHtml } from "@/lib/html-export";
+import { exportPresentationToPdf, PDF_PAGE_SIZES, type PdfPageSize } from "@/lib/pdf-export";
+import { exportPresentationToPptx } from "@/lib/pptx-export";
+import { findUnresolvedClaims, isUnfilledVariable } from "@/lib/slide-claims";
+import { getThemeClasses } from "@/lib/slide-themes";
+import type { Deck, Slide, SlideContent, SlideTheme } from "@/lib/slides";
+import { downloadBlob, getExportFileName } from "@/lib/utils";
 
 interface SlidesGeneratorProps {
   title: string;
-  slides?: Omit<Slide, "id">[];
-  theme?: "light" | "dark" | "blue" | "purple" | "gradient";
+  slides?: SlideContent[];
+  theme?: SlideTheme;
+  domain?: string;
   autoPlay?: boolean;
   showProgress?: boolean;
+  /** A saved or imported deck to open instead of the title/slides props */
+  initialDocument?: DeckDocument;
+  /** Library id when the deck was opened from the deck library */
+  savedDeckId?: string;
+  /** Called whenever the deck content changes, e.g. to keep an interactable in sync */
+  onDeckChange?: (deck: Deck) => void;
 }
 
+// Stable fallback so effects depending on the slides array don't re-run every render
+const EMPTY_SLIDES: SlideContent[] = [];
+
 export default function SlidesGenerator({ 
-  title, 
-  slides = [], 
-  theme = "blue",
+  title: titleProp, 
+  slides: slidesProp = EMPTY_SLIDES, 
+  theme: themeProp = "blue",
+  domain,
   autoPlay = false,
-  showProgress = true
+  showProgress = true,
+  initialDocument,
+  savedDeckId,
+  onDeckChange
 }: SlidesGeneratorProps) {
+  const [deckDocument, setDeckDocument] = useState<DeckDocument>(() =>
+    initialDocument ?? createDeckDocument(
+      syncDatasetSlides({ title: titleProp, theme: themeProp, slides: slidesProp }),
+      { source: "assistant", domain }
+    )
+  );
+  const { title, slides } = deckDocument;
+  const theme = deckDocument.theme ?? "blue";
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [libraryId, setLibraryId] = useState(savedDeckId);
+  const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "saved">("idle");
+  const [showTemplateDialog, setShowTemplateDialog] = useState(false);
+  const [templateSaved, setTemplateSaved] = useState(false);
+
+  const {
+    entries: historyEntries,
+    index: historyIndex,
+    canUndo,
+    canRedo,
+    record: recordHistory,
+    undo,
+    redo,
+    revertTo
+  } = useDeckHistory(toDeck(deckDocument), deckDocument.generator.tool ?? deckDocument.generator.source);
+  const deckDocumentRef = useRef(deckDocument);
+  const lastPropsRef = useRef({ titleProp, themeProp, slidesProp, domain });
+  const [lastChangeSource, setLastChangeSource] = useState<string | null>(null);
+
+  // Follow prop updates from Tambo (streaming or interactable edits) while keeping the
+  // document metadata. The initial props are already in state, so only changes apply.
+  useEffect(() => {
+    const last = lastPropsRef.current;
+    if (
+      last.titleProp === titleProp &&
+      last.themeProp === themeProp &&
+      last.slidesProp === slidesProp &&
+      last.domain === domain
+    ) return;
+    lastPropsRef.current = { titleProp, themeProp, slidesProp, domain };
+    // Props never carry datasets, so bound slides are re-rendered from the deck's own
+    const deck = syncDatasetSlides({
+      title: titleProp,
+      theme: themeProp,
+      slides: slidesProp,
+      datasets: deckDocumentRef.current.datasets
+    });
+    recordHistory(deck, "assistant", { coalesce: true });
+    setDeckDocument(prev => ({
+      ...prev,
+      ...deck,
+      metadata: { ...prev.metadata, domain: domain ?? prev.metadata.domain }
+    }));
+  }, [titleProp, themeProp, slidesProp, domain, recordHistory]);
+
+  useEffect(() => {
+    deckDocumentRef.current = deckDocument;
+    onDeckChange?.(toDeck(deckDocument));
+  }, [deckDocument, onDeckChange]);
+
+  // Datasets of a saved or imported deck can be used for new slides, like attached ones
+  useEffect(() => {
+    deckDocument.datasets?.forEach(addSessionDataset);
+  }, [deckDocument.datasets]);
+
   const [currentSlide, setCurrentSlide] = useState(0);
   const [isPlaying, setIsPlaying] = useState(autoPlay);
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -53,6 +159,55 @@ export default function SlidesGenerator({
   const [imageError, setImageError] = useState<Record<number, boolean>>({});
   const [imageLoaded, setImageLoaded] = useState<Record<number, boolean>>({});
   const [isTransitioning, setIsTransitioning] = useState(false);
+  const [deckId] = useState(() => crypto.randomUUID());
+  const [isExporting, setIsExporting] = useState(false);
+  const [pdfPageSize, setPdfPageSize] = useState<PdfPageSize>("a4");
+  const [pdfSelectableText, setPdfSelectableText] = useState(false);
+  const [deckJsonCopied, setDeckJsonCopied] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [buildBullets, setBuildBullets] = useState(false);
+  const [revealedBullets, setRevealedBullets] = useState(0);
+  const buildStepsRef = useRef({ stepForward: () => {}, stepBack: () => {}, hasHiddenBullets: false });
+  const presenterChannelRef = useRef<BroadcastChannel | null>(null);
+  const presenterStateRef = useRef<PresenterState | null>(null);
+
+  // Let tools edit this deck while it is on screen
+  // Applies a content change and records it in the history under `source`
+  const applyDeckUpdate = useCallback((update: (deck: Deck) => Deck, source: string): Deck => {
+    const current = deckDocumentRef.current;
+    const next = { ...current, ...syncDatasetSlides(update(toDeck(current))) };
+    deckDocumentRef.current = next;
+    setDeckDocument(next);
+    recordHistory(toDeck(next), source);
+    return toDeck(next);
+  }, [recordHistory]);
+
+  const activeDeckHandle = useRef<ActiveDeckHandle>({
+    getDeck: () => toDeck(deckDocumentRef.current),
+    updateDeck: (update, change) => {
+      const deck = applyDeckUpdate(update, change.source);
+      setLastChangeSource(change.source);
+      if (change.focusSlide !== undefined) {
+        setCurrentSlide(Math.max(0, Math.min(change.focusSlide, deck.slides.length - 1)));
+      }
+      return deck;
+    }
+  });
+
+  useEffect(() => registerActiveDeck(activeDeckHandle.current), []);
+
+  useEffect(() => {
+    if (!lastChangeSource) return;
+    const timeout = setTimeout(() => setLastChangeSource(null), 4000);
+    return () => clearTimeout(timeout);
+  }, [lastChangeSource]);
+
+  // Stay on a valid slide when slides are removed
+  useEffect(() => {
+    if (slides.length > 0 && currentSlide > slides.length - 1) {
+      setCurrentSlide(slides.length - 1);
+    }
+  }, [slides.length, currentSlide]);
 
   // Preload images for smooth transitions
   useEffect(() => {
@@ -81,6 +236,11 @@ export default function SlidesGenerator({
     if (!isPlaying) return;
     
     const interval = setInterval(() => {
+      if (buildStepsRef.current.hasHiddenBullets) {
+        setRevealedBullets(count => count + 1);
+        setProgress(0);
+        return;
+      }
       setCurrentSlide(prev => 
         prev >= (slides?.length || 0) - 1 ? 0 : prev + 1
       );
@@ -127,6 +287,35 @@ export default function SlidesGenerator({
     setTimeout(() => setIsTransitioning(false), 400);
   }, [slides, isTransitioning]);
 
+  // Build steps: with builds on, forward/back reveal or hide the current slide's bullets
+  // one at a time before moving to another slide
+  const currentBulletCount = slides[currentSlide]?.bullets?.length ?? 0;
+  const hasHiddenBullets = buildBullets && revealedBullets < currentBulletCount;
+
+  useEffect(() => {
+    setRevealedBullets(0);
+  }, [currentSlide]);
+
+  const stepForward = useCallback(() => {
+    if (hasHiddenBullets) {
+      setRevealedBullets(count => count + 1);
+    } else {
+      nextSlide();
+    }
+  }, [hasHiddenBullets, nextSlide]);
+
+  const stepBack = useCallback(() => {
+    if (buildBullets && revealedBullets > 0) {
+      setRevealedBullets(count => count - 1);
+    } else {
+      prevSlide();
+    }
+  }, [buildBullets, revealedBullets, prevSlide]);
+
+  useEffect(() => {
+    buildStepsRef.current = { stepForward, stepBack, hasHiddenBullets };
+  }, [stepForward, stepBack, hasHiddenBullets]);
+
   const goToSlide = (index: number) => {
     if (!slides || slides.length === 0 || isTransitioning) return;
     setIsTransitioning(true);
@@ -173,13 +362,82 @@ export default function SlidesGenerator({
     };
   }, []);
 
+  // Keep the presenter view in sync with the audience window
+  useEffect(() => {
+    const channel = openPresenterChannel(deckId);
+    presenterChannelRef.current = channel;
+
+    channel.onmessage = (event: MessageEvent<PresenterMessage>) => {
+      const message = event.data;
+      if (message.type === "request-state" && presenterStateRef.current) {
+        channel.postMessage({ type: "state", state: presenterStateRef.current } satisfies PresenterMessage);
+      } else if (message.type === "step") {
+        if (message.direction > 0) {
+          buildStepsRef.current.stepForward();
+        } else {
+          buildStepsRef.current.stepBack();
+        }
+      }
+    };
+
+    return () => {
+      channel.postMessage({ type: "closed" } satisfies PresenterMessage);
+      channel.close();
+      presenterChannelRef.current = null;
+    };
+  }, [deckId]);
+
+  useEffect(() => {
+    const state: PresenterState = {
+      title,
+      theme,
+      slides: slides ?? [],
+      currentSlide,
+      revealedBullets: buildBullets ? revealedBullets : undefined
+    };
+    presenterStateRef.current = state;
+    presenterChannelRef.current?.postMessage({ type: "state", state } satisfies PresenterMessage);
+  }, [title, theme, slides, currentSlide, buildBullets, revealedBullets]);
+
+  const openPresenterView = useCallback(() => {
+    window.open(getPresenterUrl(deckId), `presenter-${deckId}`, "width=1280,height=800");
+  }, [deckId]);
+
+  // Show a deck restored from the history without recording it as a new change
+  const showHistoryDeck = useCallback((deck: Deck | null) => {
+    if (!deck) return;
+    setDeckDocument(prev => ({ ...prev, ...deck }));
+  }, []);
+
+  const undoChange = useCallback(() => showHistoryDeck(undo()), [showHistoryDeck, undo]);
+  const redoChange = useCallback(() => showHistoryDeck(redo()), [showHistoryDeck, redo]);
+
   // Add keyboard navigation
   useEffect(() => {
     const handleKeyPress = (event: KeyboardEvent) => {
-      if (event.key === "ArrowLeft" && !isTransitioning) {
-        prevSlide();
+      // Leave typing in the chat input and other fields alone
+      const target = event.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select, [contenteditable='true']")) return;
+
+      const isUndo = (event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "z";
+      const isRedo = (event.ctrlKey || event.metaKey) && event.key === "y";
+      if (isUndo || isRedo) {
+        // Every mounted viewer listens; only the active deck undoes, so a chat showing
+        // several decks does not change the ones the user is not working on
+        if (!isActiveDeck(activeDeckHandle.current)) return;
+        event.preventDefault();
+        if (isRedo || event.shiftKey) {
+          redoChange();
+        } else {
+          undoChange();
+        }
+      } else if (isEditing) {
+        // Navigation shortcuts are suspended while editing
+        if (event.key === "Escape") setIsEditing(false);
+      } else if (event.key === "ArrowLeft" && !isTransitioning) {
+        stepBack();
       } else if (event.key === "ArrowRight" && !isTransitioning) {
-        nextSlide();
+        stepForward();
       } else if (event.key === " " || event.key === "k") {
         setIsPlaying(prev => !prev);
       } else if (event.key === "Escape" && isFullscreen) {
@@ -188,12 +446,14 @@ export default function SlidesGenerator({
         toggleFullscreen();
       } else if (event.key === "0") {
         resetPresentation();
+      } else if (event.key === "p") {
+        openPresenterView();
       }
     };
 
     window.addEventListener("keydown", handleKeyPress);
     return () => window.removeEventListener("keydown", handleKeyPress);
-  }, [isFullscreen, prevSlide, nextSlide, isTransitioning]);
+  }, [isFullscreen, stepBack, stepForward, isTransitioning, openPresenterView, undoChange, redoChange, isEditing]);
 
   // Auto-hide controls in fullscreen mode
   useEffect(() => {
@@ -218,70 +478,10 @@ export default function SlidesGenerator({
     };
   }, [isFullscreen, currentSlide]);
 
-  const getThemeClasses = () => {
-    switch (theme) {
-      case "dark":
-        return {
-          container: "bg-gray-900 text-white",
-          slide: "bg-gray-800 border-gray-700",
-          accent: "text-gray-300",
-          button: "bg-gray-700 hover:bg-gray-600 text-white",
-          progress: "bg-gray-300",
-          progressBar: "bg-white",
-          imageGlowBg: "bg-white/10",
-          imageGlowRing: "ring-1 ring-white/20"
-        };
-      case "purple":
-        return {
-          container: "bg-purple-50 text-gray-900",
-          slide: "bg-white border-purple-200 shadow-lg",
-          accent: "text-purple-600",
-          button: "bg-purple-600 hover:bg-purple-700 text-white",
-          progress: "bg-purple-200",
-          progressBar: "bg-purple-600",
-          imageGlowBg: "bg-purple-500/20",
-          imageGlowRing: "ring-1 ring-purple-200/60"
-        };
-      case "light":
-        return {
-          container: "bg-gray-50 text-gray-900",
-          slide: "bg-white border-gray-200 shadow-lg",
-          accent: "text-gray-600",
-          button: "bg-gray-600 hover:bg-gray-700 text-white",
-          progress: "bg-gray-200",
-          progressBar: "bg-gray-600",
-          imageGlowBg: "bg-gray-400/20",
-          imageGlowRing: "ring-1 ring-gray-300/60"
-        };
-      case "gradient":
-        return {
-          container: "bg-gradient-to-br from-blue-50 to-purple-50 text-gray-900",
-          slide: "bg-white/90 backdrop-blur-sm border border-white/20 shadow-xl",
-          accent: "text-blue-600",
-          button: "bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white",
-          progress: "bg-white/30",
-          progressBar: "bg-gradient-to-r from-blue-500 to-purple-500",
-          imageGlowBg: "bg-gradient-to-r from-blue-500/20 to-purple-500/20",
-          imageGlowRing: "ring-1 ring-blue-200/60"
-        };
-      default: // blue
-        return {
-          container: "bg-blue-50 text-gray-900",
-          slide: "bg-white border-blue-200 shadow-lg",
-          accent: "text-blue-600",
-          button: "bg-blue-600 hover:bg-blue-700 text-white",
-          progress: "bg-blue-200",
-          progressBar: "bg-blue-600",
-          imageGlowBg: "bg-blue-500/20",
-          imageGlowRing: "ring-1 ring-blue-200/60"
-        };
-    }
-  };
-
   // Handle case when slides is undefined or empty
   if (!slides || slides.length === 0) {
     return (
-      <div className={`max-w-4xl mx-auto ${getThemeClasses().container} rounded-xl shadow-xl p-8 transition-all duration-300`}>
+      <div className={`max-w-4xl mx-auto ${getThemeClasses(theme).container} rounded-xl shadow-xl p-8 transition-all duration-300`}>
         <div className="text-center">
           <h1 className="text-2xl font-bold mb-4">{title}</h1>
           <p className="text-gray-600">No slides available. Please generate a presentation first.</p>
@@ -300,7 +500,7 @@ export default function SlidesGenerator({
   // Safety check for currentSlideData
   if (!currentSlideData) {
     return (
-      <div className={`max-w-4xl mx-auto ${getThemeClasses().container} rounded-xl shadow-xl p-8`}>
+      <div className={`max-w-4xl mx-auto ${getThemeClasses(theme).container} rounded-xl shadow-xl p-8`}>
         <div className="text-center">
           <h1 className="text-2xl font-bold mb-4">{title}</h1>
           <p className="text-gray-600">Error: Slide data not found. Please try again.</p>
@@ -309,131 +509,146 @@ export default function SlidesGenerator({
     );
   }
 
-  const getSlideTypeStyle = (type: string) => {
-    if (!type) return "text-left py-8";
-    
-    switch (type) {
-      case "intro":
-        return "text-center py-12";
-      case "outro":
-        return "text-center py-8";
-      default:
-        return "text-left py-8";
-    }
-  };
-
-  const themeClasses = getThemeClasses();
+  const themeClasses = getThemeClasses(theme);
   const containerClasses = isFullscreen 
     ? "fixed inset-0 z-50 p-4 bg-white" 
     : "max-w-4xl mx-auto";
 
+  const unresolvedClaims = findUnresolvedClaims(slidesWithIds);
+  const unresolvedClaimCount = unresolvedClaims.reduce((count, entry) => count + entry.claims.length, 0);
+
+  /**
+   * Asks before exporting figures that are not verified. Unfilled {{variables}} stop the
+   * export, since they would be printed as they are.
+   */
+  const confirmClaimsForExport = () => {
+    const unfilled = unresolvedClaims.filter(entry => entry.claims.some(isUnfilledVariable));
+    if (unfilled.length > 0) {
+      const slideNumbers = unfilled.map(entry => entry.slideIndex + 1).join(", ");
+      alert(`Some placeholders have no value yet (slides ${slideNumbers}). Replace the {{...}} text before exporting.`);
+      return false;
+    }
+    if (unresolvedClaimCount === 0) return true;
+
+    const summary = unresolvedClaims
+      .slice(0, 5)
+      .map(entry => `Slide ${entry.slideIndex + 1}: ${entry.claims.map(claim => claim.text).join(", ")}`)
+      .join("\n");
+    const more = unresolvedClaims.length > 5 ? `\n...and ${unresolvedClaims.length - 5} more slides` : "";
+    return confirm(
+      `${unresolvedClaimCount} ${unresolvedClaimCount === 1 ? "figure is" : "figures are"} not verified and may be placeholders:\n\n${summary}${more}\n\nExport anyway?`
+    );
+  };
+
   const exportPresentation = async () => {
+    if (!confirmClaimsForExport()) return;
+    setIsExporting(true);
     try {
-      const pdf = new jsPDF({
-        orientation: 'landscape',
-        unit: 'mm',
-        format: 'a4'
+      await exportPresentationToPdf({
+        title,
+        theme,
+        slides: slidesWithIds,
+        pageSize: pdfPageSize,
+        selectableText: pdfSelectableText
       });
+    } catch (error) {
+      console.error('Error generating PDF:', error);
+      alert('Failed to generate PDF. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
-      // Add title page with proper spacing
-      pdf.setFontSize(24);
-      pdf.text(title, 105, 60, { align: 'center' });
-      
-      // Add some space before metadata
-      pdf.setFontSize(12);
-      //pdf.text(`Generated on ${new Date().toLocaleDateString()}`, 105, 85, { align: 'center' });
-      //pdf.text(`Total slides: ${slidesWithIds.length}`, 105, 100, { align: 'center' });
-
-      // Generate slides
-      for (let i = 0; i < slidesWithIds.length; i++) {
-        if (i > 0) {
-          pdf.addPage();
-        }
+  const exportPowerPoint = async () => {
+    if (!confirmClaimsForExport()) return;
+    setIsExporting(true);
+    try {
+      await exportPresentationToPptx({ title, theme, slides: slidesWithIds });
+    } catch (error) {
+      console.error('Error generating PowerPoint:', error);
+      alert('Failed to generate PowerPoint. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
-        const slide = slidesWithIds[i];
-        
-        // Add slide number
-        pdf.setFontSize(10);
-        pdf.text(`Slide ${i + 1} of ${slidesWithIds.length}`, 20, 20);
-        
-        // Add slide type
-        pdf.setFontSize(8);
-        pdf.text(slide.type?.toUpperCase() || 'CONTENT', 20, 30);
-        
-        // Add heading
-        pdf.setFontSize(18);
-        const headingLines = pdf.splitTextToSize(slide.heading, 250);
-        pdf.text(headingLines, 20, 50);
-        
-        // Add description
-        pdf.setFontSize(12);
-        const descriptionLines = pdf.splitTextToSize(slide.description, 250);
-        let yPosition = 70;
-        
-        descriptionLines.forEach((line: string) => {
-          if (yPosition > 180) {
-            // If we run out of space, add a new page
-            pdf.addPage();
-            yPosition = 20;
-          }
-          pdf.text(line, 20, yPosition);
-          yPosition += 7;
-        });
-
-        // Add image if available
-        if (slide.imageUrl && !imageError[slide.id]) {
-          try {
-            // Use a more reliable approach to load images for PDF
-            const img = new Image();
-            img.crossOrigin = 'anonymous';
-            
-            await new Promise((resolve, reject) => {
-              img.onload = resolve;
-              img.onerror = reject;
-              img.src = slide.imageUrl as string;
-            });
-
-            // Calculate image dimensions to fit in the PDF
-            const maxWidth = 80;
-            const maxHeight = 60;
-            let imgWidth = maxWidth;
-            let imgHeight = maxHeight;
-
-            // Maintain aspect ratio
-            if (img.width > img.height) {
-              imgHeight = (img.height / img.width) * maxWidth;
-            } else {
-              imgWidth = (img.width / img.height) * maxHeight;
-            }
-
-            // Add image to PDF
-            pdf.addImage(img, 'JPEG', 20, yPosition + 10, imgWidth, imgHeight);
-            
-          } catch (error) {
-            console.error('Error adding image to PDF:', error);
-            pdf.setFontSize(10);
-            pdf.text('Image could not be loaded', 20, yPosition + 10);
-          }
-        }
+  const shareAsHtml = async () => {
+    if (!confirmClaimsForExport()) return;
+    setIsExporting(true);
+    try {
+      await exportPresentationToHtml(deckDocument);
+    } catch (error) {
+      console.error('Error generating HTML presentation:', error);
+      alert('Failed to generate the HTML presentation. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
-        // Add photographer credit if available
-        if (slide.photographer) {
-          pdf.setFontSize(8);
-          pdf.text(`Photo by ${slide.photographer}`, 20, 200);
-        }
-      }
+  const exportDeckFile = () => {
+    const updated = { ...deckDocument, metadata: { ...deckDocument.metadata, updatedAt: new Date().toISOString() } };
+    downloadBlob(
+      new Blob([serializeDeckDocument(updated)], { type: "application/json" }),
+      getExportFileName(title, DECK_FILE_EXTENSION)
+    );
+  };
+
+  const importDeckFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
 
-      // Save the PDF
-      pdf.save(`${title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_presentation.pdf`);
-      
+    try {
+      const imported = parseDeckDocument(await file.text());
+      setDeckDocument(imported);
+      recordHistory(toDeck(imported), "import");
+      setCurrentSlide(0);
+      setProgress(0);
     } catch (error) {
-      console.error('Error generating PDF:', error);
-      alert('Failed to generate PDF. Please try again.');
+      console.error('Error importing deck:', error);
+      alert(error instanceof Error ? error.message : 'Failed to import deck file.');
     }
   };
 
-  const sharePresentation = async () => {
-    exportPresentation();
+  const saveToLibrary = async () => {
+    setSaveStatus("saving");
+    try {
+      const saved = await getDeckLibrary().save({
+        id: libraryId ?? crypto.randomUUID(),
+        document: deckDocument
+      });
+      setLibraryId(saved.id);
+      setDeckDocument(saved.document);
+      setSaveStatus("saved");
+      setTimeout(() => setSaveStatus("idle"), 2000);
+    } catch (error) {
+      console.error('Error saving deck:', error);
+      alert('Failed to save the deck to the library.');
+      setSaveStatus("idle");
+    }
+  };
+
+  const copyDeckJson = async () => {
+    try {
+      await navigator.clipboard.writeText(serializeDeckDocument(deckDocument));
+      setDeckJsonCopied(true);
+      setTimeout(() => setDeckJsonCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying deck JSON:', error);
+      alert('Could not copy to the clipboard.');
+    }
+  };
+
+  const toggleEditing = () => {
+    setIsPlaying(false);
+    setIsEditing(prev => !prev);
+  };
+
+  const updateCurrentSlide = (slide: SlideContent) => {
+    applyDeckUpdate(deck => ({
+      ...deck,
+      slides: deck.slides.map((existing, index) => index === currentSlide ? slide : existing)
+    }), "user");
   };
 
   const retryImageLoad = (slideId: number) => {
@@ -442,7 +657,22 @@ export default function SlidesGenerator({
   };
 
   return (
-    <div className={`${containerClasses} ${themeClasses.container} rounded-xl shadow-xl transition-all duration-300 overflow-hidden`}>
+    <div
+      className={`${containerClasses} ${themeClasses.container} rounded-xl shadow-xl transition-all duration-300 overflow-hidden`}
+      onPointerDown={() => activateDeck(activeDeckHandle.current)}
+    >
+      {showTemplateDialog && (
+        <SaveTemplateDialog
+          deck={toDeck(deckDocument)}
+          domain={deckDocument.metadata.domain}
+          onClose={() => setShowTemplateDialog(false)}
+          onSaved={() => {
+            setTemplateSaved(true);
+            setTimeout(() => setTemplateSaved(false), 2000);
+          }}
+        />
+      )}
+
       {/* Progress bar for auto-play */}
       {isPlaying && showProgress && (
         <div className={`w-full h-1 ${themeClasses.progress}`}>
@@ -464,7 +694,12 @@ export default function SlidesGenerator({
             className="p-4 border-b border-gray-200/50"
           >
             <div className="flex items-center justify-between">
-              <h1 className="text-xl font-bold break-words max-w-xs">{title}</h1>
+              <div className="max-w-xs">
+                <h1 className="text-xl font-bold break-words">{title}</h1>
+                {lastChangeSource && (
+                  <p className="text-xs opacity-70">Updated by {lastChangeSource}</p>
+                )}
+              </div>
               <div className="flex items-center gap-2">
                 <button
                   onClick={() => setIsPlaying(!isPlaying)}
@@ -481,18 +716,232 @@ export default function SlidesGenerator({
                   <RotateCcw className="w-4 h-4" />
                 </button>
                 <button
-                  onClick={exportPresentation}
+                  onClick={() => setBuildBullets(prev => !prev)}
+                  className={`p-2 rounded-lg ${themeClasses.button} transition-colors hover:scale-105 ${buildBullets ? "ring-2 ring-current" : ""}`}
+                  title={buildBullets ? "Show all bullets at once" : "Reveal bullets one at a time"}
+                >
+                  <ListChecks className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={toggleEditing}
+                  className={`p-2 rounded-lg ${themeClasses.button} transition-colors hover:scale-105 ${isEditing ? "ring-2 ring-current" : ""}`}
+                  title={isEditing ? "Done editing (Esc)" : "Edit slides"}
+                >
+                  {isEditing ? <Check className="w-4 h-4" /> : <Pencil className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={undoChange}
+                  disabled={!canUndo}
+                  className={`p-2 rounded-lg ${themeClasses.button} transition-colors hover:scale-105 disabled:opacity-40`}
+                  title="Undo (Ctrl+Z)"
+                >
+                  <Undo2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={redoChange}
+                  disabled={!canRedo}
+                  className={`p-2 rounded-lg ${themeClasses.button} transition-colors hover:scale-105 disabled:opacity-40`}
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  <Redo2 className="w-4 h-4" />
+                </button>
+                <DropdownMenu.Root>
+                  <DropdownMenu.Trigger asChild>
+                    <button
+                      className={`p-2 rounded-lg ${themeClasses.button} transition-colors hover:scale-105`}
+                      title="Version history"
+                    >
+                      <History className="w-4 h-4" />
+                    </button>
+                  </DropdownMenu.Trigger>
+                  <DropdownMenu.Portal>
+                    <DropdownMenu.Content
+                      className="z-50 w-72 max-h-80 overflow-y-auto text-sm bg-white text-gray-900 rounded-md p-1 shadow-md border border-gray-200"
+                      sideOffset={5}
+                      align="end"
+                    >
+                      <DropdownMenu.Label className="px-2 py-1 text-xs font-medium text-gray-500">
+                        Versions &middot; select one to revert to it
+                      </DropdownMenu.Label>
+                      {historyEntries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+                        <DropdownMenu.Item
+                          key={entry.id}
+                          onSelect={() => showHistoryDeck(revertTo(entry.id))}
+                          disabled={index === historyIndex}
+                          className="flex items-start gap-2 px-2 py-1.5 rounded-sm cursor-pointer outline-none hover:bg-gray-100 focus:bg-gray-100 data-[disabled]:cursor-default data-[disabled]:hover:bg-transparent"
+                        >
+                          <span className="w-4 pt-0.5">
+                            {index === historyIndex && <Check className="w-4 h-4" />}
+                          </span>
+                          <span className="flex-1 min-w-0">
+                            <span className="block truncate">
+                              {index + 1}. {entry.label ?? entry.source}
+                            </span>
+                            <span className="block text-xs text-gray-500">
+                              {entry.label ? `${entry.source} · ` : ""}
+                              {new Date(entry.createdAt).toLocaleTimeString()} &middot; {entry.deck.slides.length} slides
+                            </span>
+                          </span>
+                        </DropdownMenu.Item>
+                      ))}
+                    </DropdownMenu.Content>
+                  </DropdownMenu.Portal>
+                </DropdownMenu.Root>
+                <button
+                  onClick={saveToLibrary}
+                  disabled={saveStatus === "saving"}
+                  className={`p-2 rounded-lg ${themeClasses.button} transition-colors hover:scale-105 disabled:opacity-60`}
+                  title={libraryId ? "Save changes to library" : "Save to library"}
+                >
+                  {saveStatus === "saving" ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : saveStatus === "saved" ? (
+                    <Check className="w-4 h-4" />
+                  ) : (
+                    <Save className="w-4 h-4" />
+                  )}
+                </button>
+                <button
+                  onClick={() => {
+                    setIsPlaying(false);
+                    setShowTemplateDialog(true);
+                  }}
                   className={`p-2 rounded-lg ${themeClasses.button} transition-colors hover:scale-105`}
-                  title="Export"
+                  title="Save as template"
                 >
-                  <Download className="w-4 h-4" />
+                  {templateSaved ? <Check className="w-4 h-4" /> : <LayoutTemplate className="w-4 h-4" />}
                 </button>
+                <DropdownMenu.Root>
+                  <DropdownMenu.Trigger asChild>
+                    <button
+                      disabled={isExporting}
+                      className={`p-2 rounded-lg ${themeClasses.button} transition-colors hover:scale-105 disabled:opacity-60`}
+                      title="Export"
+                    >
+                      {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                    </button>
+                  </DropdownMenu.Trigger>
+                  <DropdownMenu.Portal>
+                    <DropdownMenu.Content
+                      className="z-50 min-w-[200px] text-sm bg-white text-gray-900 rounded-md p-1 shadow-md border border-gray-200"
+                      sideOffset={5}
+                      align="end"
+                    >
+                      <DropdownMenu.Label className="px-2 py-1 text-xs font-medium text-gray-500">
+                        PDF page size
+                      </DropdownMenu.Label>
+                      <DropdownMenu.RadioGroup
+                        value={pdfPageSize}
+                        onValueChange={value => setPdfPageSize(value as PdfPageSize)}
+                      >
+                        {(Object.keys(PDF_PAGE_SIZES) as PdfPageSize[]).map(size => (
+                          <DropdownMenu.RadioItem
+                            key={size}
+                            value={size}
+                            onSelect={event => event.preventDefault()}
+                            className="flex items-center gap-2 px-2 py-1.5 hover:bg-gray-100 rounded-sm cursor-pointer outline-none transition-colors"
+                          >
+                            <span className="w-4">
+                              <DropdownMenu.ItemIndicator>
+                                <Check className="h-4 w-4" />
+                              </DropdownMenu.ItemIndicator>
+                            </span>
+                            {PDF_PAGE_SIZES[size].label}
+                          </DropdownMenu.RadioItem>
+                        ))}
+                      </DropdownMenu.RadioGroup>
+                      <DropdownMenu.CheckboxItem
+                        checked={pdfSelectableText}
+                        onCheckedChange={checked => setPdfSelectableText(checked === true)}
+                        onSelect={event => event.preventDefault()}
+                        className="flex items-center gap-2 px-2 py-1.5 hover:bg-gray-100 rounded-sm cursor-pointer outline-none transition-colors"
+                      >
+                        <span className="w-4">
+                          <DropdownMenu.ItemIndicator>
+                            <Check className="h-4 w-4" />
+                          </DropdownMenu.ItemIndicator>
+                        </span>
+                        Selectable text
+                      </DropdownMenu.CheckboxItem>
+                      <DropdownMenu.Separator className="my-1 h-px bg-gray-200" />
+                      <DropdownMenu.Item
+                        className="flex items-center gap-2 px-2 py-1.5 hover:bg-gray-100 rounded-sm cursor-pointer outline-none transition-colors"
+                        onClick={exportPresentation}
+                      >
+                        <FileText className="h-4 w-4" />
+                        PDF document
+                      </DropdownMenu.Item>
+                      <DropdownMenu.Item
+                        className="flex items-center gap-2 px-2 py-1.5 hover:bg-gray-100 rounded-sm cursor-pointer outline-none transition-colors"
+                        onClick={exportPowerPoint}
+                      >
+                        <Presentation className="h-4 w-4" />
+                        PowerPoint (.pptx)
+                      </DropdownMenu.Item>
+                      <DropdownMenu.Separator className="my-1 h-px bg-gray-200" />
+                      <DropdownMenu.Item
+                        className="flex items-center gap-2 px-2 py-1.5 hover:bg-gray-100 rounded-sm cursor-pointer outline-none transition-colors"
+                        onClick={exportDeckFile}
+                      >
+                        <FileJson className="h-4 w-4" />
+                        Deck file (.deck.json)
+                      </DropdownMenu.Item>
+                      <DropdownMenu.Item
+                        className="flex items-center gap-2 px-2 py-1.5 hover:bg-gray-100 rounded-sm cursor-pointer outline-none transition-colors"
+                        onClick={() => importInputRef.current?.click()}
+                      >
+                        <Upload className="h-4 w-4" />
+                        Import deck file&hellip;
+                      </DropdownMenu.Item>
+                    </DropdownMenu.Content>
+                  </DropdownMenu.Portal>
+                </DropdownMenu.Root>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={importDeckFile}
+                />
+                <DropdownMenu.Root>
+                  <DropdownMenu.Trigger asChild>
+                    <button
+                      disabled={isExporting}
+                      className={`p-2 rounded-lg ${themeClasses.button} transition-colors hover:scale-105 disabled:opacity-60`}
+                      title="Share"
+                    >
+                      {deckJsonCopied ? <Check className="w-4 h-4" /> : <Share className="w-4 h-4" />}
+                    </button>
+                  </DropdownMenu.Trigger>
+                  <DropdownMenu.Portal>
+                    <DropdownMenu.Content
+                      className="z-50 min-w-[200px] text-sm bg-white text-gray-900 rounded-md p-1 shadow-md border border-gray-200"
+                      sideOffset={5}
+                      align="end"
+                    >
+                      <DropdownMenu.Item
+                        className="flex items-center gap-2 px-2 py-1.5 hover:bg-gray-100 rounded-sm cursor-pointer outline-none transition-colors"
+                        onClick={shareAsHtml}
+                      >
+                        <FileCode className="h-4 w-4" />
+                        Standalone HTML file
+                      </DropdownMenu.Item>
+                      <DropdownMenu.Item
+                        className="flex items-center gap-2 px-2 py-1.5 hover:bg-gray-100 rounded-sm cursor-pointer outline-none transition-colors"
+                        onClick={copyDeckJson}
+                      >
+                        <Copy className="h-4 w-4" />
+                        Copy deck JSON
+                      </DropdownMenu.Item>
+                    </DropdownMenu.Content>
+                  </DropdownMenu.Portal>
+                </DropdownMenu.Root>
                 <button
-                  onClick={sharePresentation}
+                  onClick={openPresenterView}
                   className={`p-2 rounded-lg ${themeClasses.button} transition-colors hover:scale-105`}
-                  title="Share"
+                  title="Presenter View"
                 >
-                  <Share className="w-4 h-4" />
+                  <Presentation className="w-4 h-4" />
                 </button>
                 <button
                   onClick={toggleFullscreen}
@@ -521,114 +970,19 @@ export default function SlidesGenerator({
             }}
             className={`${themeClasses.slide} border rounded-lg m-4 min-h-[400px] flex flex-col justify-center`}
           >
-            <div className={getSlideTypeStyle(currentSlideData.type || 'content')}>
-              <div className="px-8">
-                {/* Slide Type Indicator */}
-                <div className="mb-4">
-                  <span className={`inline-block px-3 py-1 rounded-full text-xs font-medium uppercase tracking-wide ${themeClasses.accent} bg-opacity-10`}>
-                    {currentSlideData.type || 'content'}
-                  </span>
-                </div>
-
-                {/* Heading */}
-                <h2
-                  className={`font-bold mb-6 ${
-                    currentSlideData.type === "intro" || currentSlideData.type === "outro"
-                      ? "text-3xl md:text-4xl"
-                      : "text-2xl md:text-3xl"
-                  }`}
-                  style={{ fontFamily: '"Inter", Times, serif' }}
-                >
-                  {currentSlideData.heading}
-                </h2>
-
-                {/* Content Layout */}
-                <div className={`${
-                  currentSlideData.imageUrl && (currentSlideData.type === "content" || !currentSlideData.type)
-                    ? "grid md:grid-cols-2 gap-8 items-center"
-                    : ""
-                }`}>
-                  {/* Description */}
-                  <div className={`${
-                    (currentSlideData.type === "intro" || currentSlideData.type === "outro")
-                      ? "text-lg md:text-xl leading-relaxed max-w-3xl mx-auto"
-                      : "text-base md:text-lg leading-relaxed"
-                  }`} style={{ fontFamily: '"Inter", Times, serif' }}>
-                    {(currentSlideData.description ?? '').split('\n').map((paragraph, index) => (
-                      <p key={index} className="mb-4">{paragraph}</p>
-                    ))}
-                  </div>
-
-                  {/* Image */}
-                  {currentSlideData.imageUrl && !imageError[currentSlideData.id] ? (
-                    <div className="flex justify-center">
-                      <div className="relative">
-                        <div className={`pointer-events-none absolute -inset-4 rounded-xl ${themeClasses.imageGlowBg} blur-2xl opacity-70`}></div>
-                        <div className={`relative z-10 rounded-lg overflow-hidden shadow-md max-w-sm group h-48 ${themeClasses.imageGlowRing}`}>
-                          {!imageLoaded[currentSlideData.id] && (
-                            <div className="absolute inset-0 bg-gray-100 flex items-center justify-center">
-                              <div className="animate-pulse w-full h-full bg-gray-200"></div>
-                            </div>
-                          )}
-                          <img
-                            src={currentSlideData.imageUrl}
-                            alt={currentSlideData.imageAlt || currentSlideData.heading}
-                            className={`w-full h-full object-cover transition-all duration-300 group-hover:scale-105 ${
-                              imageLoaded[currentSlideData.id] ? 'opacity-100' : 'opacity-0'
-                            }`}
-                            onLoad={() => setImageLoaded(prev => ({ ...prev, [currentSlideData.id]: true }))}
-                            onError={() => handleImageError(currentSlideData.id)}
-                          />
-                          {(currentSlideData.photographer || currentSlideData.unsplashUrl) && (
-                            <div className="absolute bottom-0 left-0 right-0 bg-black/70 text-white text-xs p-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
-                              <div className="flex justify-between items-center">
-                                <span>Photo by {currentSlideData.photographer || 'Unknown'}</span>
-                                {currentSlideData.unsplashUrl && (
-                                  <a 
-                                    href={currentSlideData.unsplashUrl} 
-                                    target="_blank" 
-                                    rel="noopener noreferrer"
-                                    className="flex items-center text-blue-300 hover:text-blue-100"
-                                  >
-                                    <ExternalLink className="w-3 h-3 mr-1" />
-                                    Unsplash
-                                  </a>
-                                )}
-                              </div>
-                            </div>
-                          )}
-                        </div>
-                      </div>
-                    </div>
-                  ) : (
-                    <div className="flex justify-center">
-                      <div className="bg-gray-100 h-48 w-full max-w-sm rounded-lg flex flex-col items-center justify-center shadow-md p-4">
-                        <ImageIcon className="w-12 h-12 mx-auto mb-2 text-gray-400" />
-                        <p className="text-sm text-gray-500 text-center mb-2">
-                          {imageError[currentSlideData.id] ? 
-                            "Failed to load image" : 
-                            "No image available"
-                          }
-                        </p>
-                        {currentSlideData.imageQuery && (
-                          <p className="text-xs text-gray-400 text-center mb-3">
-                            Query: "{currentSlideData.imageQuery}"
-                          </p>
-                        )}
-                        {imageError[currentSlideData.id] && (
-                          <button
-                            onClick={() => retryImageLoad(currentSlideData.id)}
-                            className="text-xs text-blue-500 hover:text-blue-700"
-                          >
-                            Retry loading image
-                          </button>
-                        )}
-                      </div>
-                    </div>
-                  )}
-                </div>
-              </div>
-            </div>
+            <SlideView
+              slide={currentSlideData}
+              themeClasses={themeClasses}
+              imageLoaded={!!imageLoaded[currentSlideData.id]}
+              imageError={!!imageError[currentSlideData.id]}
+              onImageLoad={() => setImageLoaded(prev => ({ ...prev, [currentSlideData.id]: true }))}
+              onImageError={() => handleImageError(currentSlideData.id)}
+              onRetryImage={() => retryImageLoad(currentSlideData.id)}
+              editing={isEditing}
+              onChange={updateCurrentSlide}
+              visibleBullets={buildBullets && !isEditing ? revealedBullets : undefined}
+              highlightClaims={!isFullscreen}
+            />
           </motion.div>
         </AnimatePresence>
 
@@ -640,7 +994,7 @@ export default function SlidesGenerator({
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
                 exit={{ opacity: 0 }}
-                onClick={prevSlide}
+                onClick={stepBack}
                 disabled={isTransitioning}
                 className={`absolute left-4 top-1/2 transform -translate-y-1/2 p-3 rounded-full bg-white/90 shadow-lg hover:shadow-xl transition-all border backdrop-blur-sm hover:scale-110 ${
                   isTransitioning ? 'opacity-50 cursor-not-allowed' : ''
@@ -653,7 +1007,7 @@ export default function SlidesGenerator({
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
                 exit={{ opacity: 0 }}
-                onClick={nextSlide}
+                onClick={stepForward}
                 disabled={isTransitioning}
                 className={`absolute right-4 top-1/2 transform -translate-y-1/2 p-3 rounded-full bg-white/90 shadow-lg hover:shadow-xl transition-all border backdrop-blur-sm hover:scale-110 ${
                   isTransitioning ? 'opacity-50 cursor-not-allowed' : ''
@@ -666,6 +1020,11 @@ export default function SlidesGenerator({
         </AnimatePresence>
       </div>
 
+      {/* Fact-check status of the current slide's figures */}
+      {showControls && !isFullscreen && (
+        <SlideClaimsPanel key={currentSlide} slide={currentSlideData} onChange={updateCurrentSlide} />
+      )}
+
       {/* Slide Indicators */}
       <AnimatePresence>
         {showControls && (
@@ -701,6 +1060,11 @@ export default function SlidesGenerator({
           >
             <div className={themeClasses.accent}>
               Slide {currentSlide + 1} of {slidesWithIds.length}
+              {unresolvedClaimCount > 0 && (
+                <span className="ml-2 text-xs text-amber-600">
+                  · {unresolvedClaimCount} unverified {unresolvedClaimCount === 1 ? "figure" : "figures"}
+                </span>
+              )}
             </div>
             <div className={`${themeClasses.accent} text-xs`}>
               {currentSlideData.type ? currentSlideData.type.charAt(0).toUpperCase() + currentSlideData.type.slice(1) : 'Unknown'} Slide
@@ -718,7 +1082,9 @@ export default function SlidesGenerator({
             exit={{ opacity: 0 }}
             className="text-xs text-center pb-2 text-gray-500"
           >
-            Use ← → arrow keys, Space to play/pause, F for fullscreen
+            {isEditing
+              ? "Editing: click the heading or text to change it, pick a slide type or replace the image; Esc to finish"
+              : "Use ← → arrow keys, Space to play/pause, F for fullscreen, P for presenter view, Ctrl+Z to undo"}
           </motion.div>
         )}
       </AnimatePresence>
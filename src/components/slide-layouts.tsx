@@ -0,0 +1,231 @@
+"use client";
+
+import type { ThemeClasses } from "@/lib/slide-themes";
+import type { SlideLayout } from "@/lib/slide-layouts";
+import type { SlideContent } from "@/lib/slides";
+import { getInitials } from "@/lib/utils";
+
+interface SlideLayoutViewProps {
+  slide: SlideContent;
+  layout: SlideLayout;
+  themeClasses: ThemeClasses;
+  /** Slide type badge from SlideView (a select while editing) */
+  typeIndicator: React.ReactNode;
+  /** Heading and description elements from SlideView, so editing works in every layout */
+  renderHeading: (className: string) => React.ReactNode;
+  renderDescription: (className: string) => React.ReactNode;
+  editing?: boolean;
+  onImageLoad?: () => void;
+  onImageError?: () => void;
+  /** Image URL / upload controls shown under image-based layouts while editing */
+  imageEditor?: React.ReactNode;
+  /** Renders layout text, e.g. with its figures highlighted */
+  renderText?: (text: string) => React.ReactNode;
+}
+
+const FONT_FAMILY = '"Inter", Times, serif';
+
+// The dark overlay is inline so the PDF capture doesn't depend on Tailwind's oklab gradients
+const IMAGE_SCRIM = "linear-gradient(to top, rgba(0, 0, 0, 0.75), rgba(0, 0, 0, 0.2) 55%, rgba(0, 0, 0, 0))";
+
+const columns = (count: number, max: number) => ({
+  gridTemplateColumns: `repeat(${Math.max(1, Math.min(count, max))}, minmax(0, 1fr))`
+});
+
+/**
+ * Renders the body of a slide that has an explicit layout. The standard slide is rendered
+ * by SlideView itself; every layout here reuses its heading, description and type badge.
+ */
+export default function SlideLayoutView({
+  slide,
+  layout,
+  themeClasses,
+  typeIndicator,
+  renderHeading,
+  renderDescription,
+  editing = false,
+  onImageLoad,
+  onImageError,
+  imageEditor,
+  renderText = text => text
+}: SlideLayoutViewProps) {
+  const showDescription = editing || !!slide.description?.trim();
+
+  const header = (
+    <>
+      <div className="mb-4">{typeIndicator}</div>
+      {renderHeading("mb-4 text-2xl md:text-3xl")}
+      {showDescription && renderDescription("text-base md:text-lg leading-relaxed opacity-80")}
+    </>
+  );
+
+  switch (layout.kind) {
+    case "section":
+      return (
+        <div className="text-center py-16 px-8">
+          {layout.label && (
+            <p className={`text-sm font-semibold uppercase tracking-widest mb-4 ${themeClasses.accent}`}>
+              {layout.label}
+            </p>
+          )}
+          {renderHeading("mb-6 text-4xl md:text-5xl")}
+          <div className={`mx-auto mb-6 w-16 h-1 rounded-full bg-current ${themeClasses.accent}`} />
+          {showDescription && renderDescription("text-lg md:text-xl leading-relaxed max-w-2xl mx-auto opacity-80")}
+        </div>
+      );
+
+    case "comparison":
+      return (
+        <div className="py-8 px-8">
+          {header}
+          <div className="grid md:grid-cols-2 gap-6 mt-2">
+            {[layout.left, layout.right].map((column, index) => (
+              <div key={index} className="rounded-lg border border-current/20 p-5">
+                <h3 className={`text-lg font-semibold mb-3 ${themeClasses.accent}`} style={{ fontFamily: FONT_FAMILY }}>
+                  {column.title}
+                </h3>
+                <ul className="space-y-2">
+                  {column.points.map((point, pointIndex) => (
+                    <li key={pointIndex} className="flex gap-2">
+                      <span className={themeClasses.accent}>•</span>
+                      <span>{renderText(point)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </div>
+      );
+
+    case "image":
+      return (
+        <div className="flex-1 flex flex-col">
+          <div className="relative flex-1 min-h-[400px] rounded-lg overflow-hidden flex flex-col justify-end bg-gray-800">
+            {slide.imageUrl && (
+              <img
+                src={slide.imageUrl}
+                alt={slide.imageAlt || slide.heading}
+                className="absolute inset-0 w-full h-full object-cover"
+                onLoad={onImageLoad}
+                onError={onImageError}
+              />
+            )}
+            <div className="absolute inset-0" style={{ background: IMAGE_SCRIM }} />
+            <div className="relative p-8 text-white">
+              {renderHeading("mb-2 text-3xl md:text-4xl")}
+              {layout.caption && <p className="text-lg opacity-90">{renderText(layout.caption)}</p>}
+              {slide.photographer && (
+                <p className="text-xs opacity-70 mt-3">Photo by {slide.photographer} on Unsplash</p>
+              )}
+            </div>
+          </div>
+          {imageEditor && <div className="p-4">{imageEditor}</div>}
+        </div>
+      );
+
+    case "quote":
+      return (
+        <div className="py-12 px-12 text-center">
+          {renderHeading(`mb-6 text-sm uppercase tracking-widest ${themeClasses.accent}`)}
+          <blockquote
+            className="text-2xl md:text-3xl font-medium leading-snug max-w-3xl mx-auto"
+            style={{ fontFamily: FONT_FAMILY }}
+          >
+            <span className={themeClasses.accent}>&ldquo;</span>
+            {renderText(layout.quote)}
+            <span className={themeClasses.accent}>&rdquo;</span>
+          </blockquote>
+          {layout.attribution && (
+            <p className="mt-6 text-lg font-semibold">
+              &mdash; {layout.attribution}
+              {layout.role && <span className="font-normal opacity-70">, {layout.role}</span>}
+            </p>
+          )}
+        </div>
+      );
+
+    case "agenda":
+      return (
+        <div className="py-8 px-8">
+          {header}
+          <ol className="mt-2 space-y-3">
+            {layout.items.map((item, index) => (
+              <li key={index} className="flex items-baseline gap-4 border-b border-current/10 pb-3 last:border-0">
+                <span className={`text-2xl font-bold tabular-nums ${themeClasses.accent}`}>
+                  {String(index + 1).padStart(2, "0")}
+                </span>
+                <span className="flex-1 text-lg font-medium">{renderText(item.title)}</span>
+                {item.detail && <span className="text-sm opacity-70">{renderText(item.detail)}</span>}
+              </li>
+            ))}
+          </ol>
+        </div>
+      );
+
+    case "timeline":
+      return (
+        <div className="py-8 px-8">
+          {header}
+          <div className="relative mt-6">
+            <div className={`absolute left-0 right-0 top-[7px] h-0.5 bg-current opacity-30 ${themeClasses.accent}`} />
+            <ol className="relative grid gap-4" style={columns(layout.events.length, 6)}>
+              {layout.events.map((event, index) => (
+                <li key={index}>
+                  <span className={`block w-4 h-4 mb-3 rounded-full bg-current ${themeClasses.accent}`} />
+                  <p className={`text-sm font-semibold ${themeClasses.accent}`}>{event.date}</p>
+                  <p className="mt-1 font-semibold">{renderText(event.title)}</p>
+                  {event.description && <p className="mt-1 text-sm opacity-80">{renderText(event.description)}</p>}
+                </li>
+              ))}
+            </ol>
+          </div>
+        </div>
+      );
+
+    case "kpi":
+      return (
+        <div className="py-8 px-8">
+          {header}
+          <div className="grid gap-6 mt-6" style={columns(layout.metrics.length, 4)}>
+            {layout.metrics.map((metric, index) => (
+              <div key={index} className="text-center">
+                <p className={`text-5xl font-bold ${themeClasses.accent}`} style={{ fontFamily: FONT_FAMILY }}>
+                  {renderText(metric.value)}
+                </p>
+                <p className="mt-2 font-medium">{renderText(metric.label)}</p>
+                {metric.change && <p className="mt-1 text-sm opacity-70">{renderText(metric.change)}</p>}
+              </div>
+            ))}
+          </div>
+        </div>
+      );
+
+    case "grid":
+      return (
+        <div className="py-8 px-8">
+          {header}
+          <div className="grid gap-4 mt-2" style={columns(layout.items.length, 4)}>
+            {layout.items.map((item, index) => (
+              <div key={index} className="rounded-lg border border-current/20 p-4 text-center">
+                {item.imageUrl ? (
+                  <img
+                    src={item.imageUrl}
+                    alt={item.title}
+                    className="w-16 h-16 mx-auto mb-3 rounded-full object-cover"
+                  />
+                ) : (
+                  <div className={`w-16 h-16 mx-auto mb-3 rounded-full border-2 border-current flex items-center justify-center text-xl font-bold ${themeClasses.accent}`}>
+                    {getInitials(item.title)}
+                  </div>
+                )}
+                <p className="font-semibold">{item.title}</p>
+                {item.subtitle && <p className={`text-sm ${themeClasses.accent}`}>{item.subtitle}</p>}
+                {item.description && <p className="mt-2 text-sm opacity-80">{renderText(item.description)}</p>}
+              </div>
+            ))}
+          </div>
+        </div>
+      );
+  }
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight } from "lucide-react";
+import { useState } from "react";
+import type { ThemeClasses } from "@/lib/slide-themes";
+import {
+  compareTableCells,
+  formatTableCell,
+  getColumnAlign,
+  TABLE_ROWS_PER_SLIDE,
+  type SlideTable as SlideTableData
+} from "@/lib/slide-tables";
+
+interface SlideTableProps {
+  table: SlideTableData;
+  themeClasses: ThemeClasses;
+  /** Show every row without sort and page controls, for exports and thumbnails */
+  staticRender?: boolean;
+}
+
+const ALIGN_CLASSES = {
+  left: "text-left",
+  center: "text-center",
+  right: "text-right"
+} as const;
+
+/**
+ * A slide's table. While presenting, headers sort the rows (the deck itself is not
+ * changed) and long tables are paged; the highlight row follows its data when sorted.
+ */
+export default function SlideTable({ table, themeClasses, staticRender = false }: SlideTableProps) {
+  const [sort, setSort] = useState<{ column: number; direction: 1 | -1 } | null>(null);
+  const [page, setPage] = useState(0);
+
+  const rows = table.rows.map((cells, index) => ({ cells, index }));
+  if (sort && !staticRender) {
+    rows.sort((a, b) => compareTableCells(a.cells[sort.column], b.cells[sort.column]) * sort.direction);
+  }
+
+  const pageCount = staticRender ? 1 : Math.max(1, Math.ceil(rows.length / TABLE_ROWS_PER_SLIDE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const visibleRows = staticRender
+    ? rows
+    : rows.slice(currentPage * TABLE_ROWS_PER_SLIDE, (currentPage + 1) * TABLE_ROWS_PER_SLIDE);
+
+  // Ascending, then descending, then the original order
+  const toggleSort = (column: number) => {
+    setSort(current => {
+      if (current?.column !== column) return { column, direction: 1 };
+      return current.direction === 1 ? { column, direction: -1 } : null;
+    });
+    setPage(0);
+  };
+
+  return (
+    <div className="mt-6" style={{ fontFamily: '"Inter", Times, serif' }}>
+      <div className="overflow-x-auto">
+        <table className="w-full border-collapse text-sm md:text-base">
+          <thead>
+            <tr className="border-b-2 border-current/30">
+              {table.columns.map((column, columnIndex) => {
+                const align = ALIGN_CLASSES[getColumnAlign(column)];
+                const sorted = sort?.column === columnIndex ? sort.direction : null;
+                return (
+                  <th
+                    key={columnIndex}
+                    scope="col"
+                    aria-sort={sorted === 1 ? "ascending" : sorted === -1 ? "descending" : undefined}
+                    className={`px-3 py-2 font-semibold whitespace-nowrap ${align} ${themeClasses.accent}`}
+                  >
+                    {staticRender ? column.header : (
+                      <button
+                        onClick={() => toggleSort(columnIndex)}
+                        className="inline-flex items-center gap-1 hover:underline"
+                        title={`Sort by ${column.header}`}
+                      >
+                        {column.header}
+                        {sorted === 1 && <ArrowUp className="w-3 h-3" />}
+                        {sorted === -1 && <ArrowDown className="w-3 h-3" />}
+                      </button>
+                    )}
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map(({ cells, index }) => (
+              <tr
+                key={index}
+                className={`border-b border-current/10 ${
+                  index === table.highlightRow ? `${themeClasses.imageGlowBg} font-semibold` : ""
+                }`}
+              >
+                {table.columns.map((column, columnIndex) => (
+                  <td
+                    key={columnIndex}
+                    className={`px-3 py-2 ${ALIGN_CLASSES[getColumnAlign(column)]} ${
+                      (column.type ?? "text") === "text" ? "" : "tabular-nums whitespace-nowrap"
+                    }`}
+                  >
+                    {formatTableCell(cells[columnIndex], column)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {(table.caption || pageCount > 1) && (
+        <div className="mt-2 flex items-center justify-between gap-4 text-xs opacity-70">
+          <span>{table.caption}</span>
+          {pageCount > 1 && (
+            <span className="flex items-center gap-2">
+              <button
+                onClick={() => setPage(currentPage - 1)}
+                disabled={currentPage === 0}
+                className="p-1 rounded hover:bg-black/5 disabled:opacity-40"
+                title="Previous rows"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              Rows {currentPage * TABLE_ROWS_PER_SLIDE + 1}–{Math.min(rows.length, (currentPage + 1) * TABLE_ROWS_PER_SLIDE)} of {rows.length}
+              <button
+                onClick={() => setPage(currentPage + 1)}
+                disabled={currentPage === pageCount - 1}
+                className="p-1 rounded hover:bg-black/5 disabled:opacity-40"
+                title="Next rows"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
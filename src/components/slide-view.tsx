@@ -0,0 +1,381 @@
+"use client";
+
+import { ExternalLink, Image as ImageIcon, Upload } from "lucide-react";
+import { useRef } from "react";
+import BulletList from "@/components/bullet-list";
+import SlideChart from "@/components/slide-chart";
+import SlideLayoutView from "@/components/slide-layouts";
+import { ClaimText } from "@/components/slide-claims";
+import SlideTable from "@/components/slide-table";
+import { unresolvedClaims } from "@/lib/slide-claims";
+import type { ThemeClasses } from "@/lib/slide-themes";
+import type { SlideContent } from "@/lib/slides";
+
+interface SlideViewProps {
+  slide: SlideContent;
+  themeClasses: ThemeClasses;
+  imageLoaded?: boolean;
+  imageError?: boolean;
+  onImageLoad?: () => void;
+  onImageError?: () => void;
+  onRetryImage?: () => void;
+  /** Render for capture: attribution always visible, no hover effects */
+  staticRender?: boolean;
+  /** Make the text, slide type and image editable in place */
+  editing?: boolean;
+  onChange?: (slide: SlideContent) => void;
+  /** Bullets revealed so far when presenting with build steps; all are shown when undefined */
+  visibleBullets?: number;
+  /** Highlight figures that are not verified yet (live viewer only, never in exports) */
+  highlightClaims?: boolean;
+}
+
+const SLIDE_TYPES: SlideContent["type"][] = ["intro", "content", "outro"];
+
+const editableClasses = "outline-dashed outline-1 outline-offset-4 outline-current/30 focus:outline-2 focus:outline-current/60 rounded-sm cursor-text";
+
+// Paste as plain text so formatting from other apps doesn't end up in the slide
+const pastePlainText = (event: React.ClipboardEvent) => {
+  event.preventDefault();
+  document.execCommand("insertText", false, event.clipboardData.getData("text/plain"));
+};
+
+/**
+ * Reads an edited description back into the `\n`-separated form used for rendering:
+ * each block (paragraph) the browser created becomes one line.
+ */
+const readParagraphs = (element: HTMLElement) =>
+  Array.from(element.childNodes)
+    .map(node => node.textContent ?? "")
+    .join("\n");
+
+interface ImageSourceEditorProps {
+  slide: SlideContent;
+  onChange: (slide: SlideContent) => void;
+}
+
+function ImageSourceEditor({ slide, onChange }: ImageSourceEditorProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // A replaced image no longer belongs to the Unsplash photo it came from
+  const setImage = (imageUrl: string | undefined) => {
+    if (imageUrl === slide.imageUrl) return;
+    onChange({
+      ...slide,
+      imageUrl,
+      imageQuery: undefined,
+      photographer: undefined,
+      unsplashUrl: undefined
+    });
+  };
+
+  const uploadImage = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => setImage(reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div className="flex gap-2 mt-3 w-full max-w-sm mx-auto text-sm">
+      <input
+        key={slide.imageUrl ?? ""}
+        type="url"
+        defaultValue={slide.imageUrl?.startsWith("data:") ? "" : slide.imageUrl ?? ""}
+        placeholder={slide.imageUrl?.startsWith("data:") ? "Uploaded image" : "Image URL"}
+        onBlur={event => setImage(event.target.value.trim() || (slide.imageUrl?.startsWith("data:") ? slide.imageUrl : undefined))}
+        onKeyDown={event => {
+          if (event.key === "Enter") event.currentTarget.blur();
+        }}
+        className="flex-1 min-w-0 px-2 py-1 rounded border border-gray-300 bg-white text-gray-900"
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="flex items-center gap-1 px-2 py-1 rounded border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+        title="Upload an image"
+      >
+        <Upload className="w-3 h-3" />
+        Upload
+      </button>
+      {slide.imageUrl && (
+        <button
+          onClick={() => setImage(undefined)}
+          className="px-2 py-1 rounded border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+        >
+          Remove
+        </button>
+      )}
+      <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={uploadImage} />
+    </div>
+  );
+}
+
+const getSlideTypeStyle = (type: string) => {
+  if (!type) return "text-left py-8";
+
+  switch (type) {
+    case "intro":
+      return "text-center py-12";
+    case "outro":
+      return "text-center py-8";
+    default:
+      return "text-left py-8";
+  }
+};
+
+/**
+ * Renders the body of a single slide. Shared by the live viewer, the presenter view and
+ * the PDF export stage so every surface shows the same layout. Slides with an explicit
+ * `layout` are delegated to SlideLayoutView.
+ */
+export default function SlideView({
+  slide,
+  themeClasses,
+  imageLoaded = true,
+  imageError = false,
+  onImageLoad,
+  onImageError,
+  onRetryImage,
+  staticRender = false,
+  editing = false,
+  onChange,
+  visibleBullets,
+  highlightClaims = false
+}: SlideViewProps) {
+  const isEditable = editing && !!onChange;
+  const isBookend = slide.type === "intro" || slide.type === "outro";
+
+  // Text being edited stays plain, so contentEditable only ever holds the slide's text
+  const claims = highlightClaims && !isEditable ? unresolvedClaims(slide) : [];
+  const renderText = (text: string) => (claims.length > 0 ? <ClaimText text={text} claims={claims} /> : text);
+  const outlineClaim = (target: "chart" | "table", node: React.ReactNode) => claims.some(claim => claim.target === target) ? (
+    <div className="rounded-lg outline-dashed outline-2 outline-offset-4 outline-amber-500" title={`The ${target}'s figures are not verified`}>
+      {node}
+    </div>
+  ) : node;
+
+  const image = slide.imageUrl && !imageError ? (
+    <div className="flex justify-center">
+      <div className="relative">
+        <div data-slide-glow className={`pointer-events-none absolute -inset-4 rounded-xl ${themeClasses.imageGlowBg} blur-2xl opacity-70`}></div>
+        <div className={`relative z-10 rounded-lg overflow-hidden shadow-md max-w-sm group h-48 ${themeClasses.imageGlowRing}`}>
+          {!imageLoaded && (
+            <div className="absolute inset-0 bg-gray-100 flex items-center justify-center">
+              <div className="animate-pulse w-full h-full bg-gray-200"></div>
+            </div>
+          )}
+          <img
+            src={slide.imageUrl}
+            alt={slide.imageAlt || slide.heading}
+            className={`w-full h-full object-cover transition-all duration-300 ${staticRender ? '' : 'group-hover:scale-105'} ${
+              imageLoaded ? 'opacity-100' : 'opacity-0'
+            }`}
+            onLoad={onImageLoad}
+            onError={onImageError}
+          />
+          {(slide.photographer || slide.unsplashUrl) && (
+            <div className={`absolute bottom-0 left-0 right-0 bg-black/70 text-white text-xs p-2 transition-opacity duration-300 ${
+              staticRender ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+            }`}>
+              <div className="flex justify-between items-center">
+                <span>Photo by {slide.photographer || 'Unknown'}</span>
+                {slide.unsplashUrl && (
+                  <a
+                    href={slide.unsplashUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center text-blue-300 hover:text-blue-100"
+                  >
+                    <ExternalLink className="w-3 h-3 mr-1" />
+                    Unsplash
+                  </a>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  ) : !staticRender && (
+    <div className="flex justify-center">
+      <div className="bg-gray-100 h-48 w-full max-w-sm rounded-lg flex flex-col items-center justify-center shadow-md p-4">
+        <ImageIcon className="w-12 h-12 mx-auto mb-2 text-gray-400" />
+        <p className="text-sm text-gray-500 text-center mb-2">
+          {imageError ?
+            "Failed to load image" :
+            "No image available"
+          }
+        </p>
+        {slide.imageQuery && (
+          <p className="text-xs text-gray-400 text-center mb-3">
+            Query: &quot;{slide.imageQuery}&quot;
+          </p>
+        )}
+        {imageError && onRetryImage && (
+          <button
+            onClick={onRetryImage}
+            className="text-xs text-blue-500 hover:text-blue-700"
+          >
+            Retry loading image
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  // A chart takes the image's place in the media area
+  const media = slide.chart
+    ? outlineClaim("chart", <SlideChart chart={slide.chart} staticRender={staticRender} />)
+    : image;
+
+  const typeIndicator = isEditable ? (
+    <select
+      value={slide.type || 'content'}
+      onChange={event => onChange({ ...slide, type: event.target.value as SlideContent["type"] })}
+      className={`px-3 py-1 rounded-full text-xs font-medium uppercase tracking-wide bg-transparent border border-current/30 cursor-pointer ${themeClasses.accent}`}
+      title="Slide type"
+    >
+      {SLIDE_TYPES.map(type => (
+        <option key={type} value={type} className="text-gray-900">{type}</option>
+      ))}
+    </select>
+  ) : (
+    <span className={`inline-block px-3 py-1 rounded-full text-xs font-medium uppercase tracking-wide ${themeClasses.accent} bg-opacity-10`}>
+      {slide.type || 'content'}
+    </span>
+  );
+
+  const renderHeading = (className: string) => (
+    <h2
+      className={`font-bold ${className} ${isEditable ? editableClasses : ""}`}
+      style={{ fontFamily: '"Inter", Times, serif' }}
+      // Remount after each edit so React never reconciles DOM the browser changed
+      key={isEditable ? slide.heading : undefined}
+      contentEditable={isEditable}
+      suppressContentEditableWarning
+      onBlur={isEditable ? event => {
+        const heading = (event.currentTarget.textContent ?? "").trim();
+        if (heading !== slide.heading) onChange({ ...slide, heading });
+      } : undefined}
+      onKeyDown={isEditable ? event => {
+        if (event.key === "Enter") {
+          event.preventDefault();
+          event.currentTarget.blur();
+        }
+      } : undefined}
+      onPaste={isEditable ? pastePlainText : undefined}
+    >
+      {renderText(slide.heading)}
+    </h2>
+  );
+
+  const renderDescription = (className: string) => (
+    <div
+      className={`${className} ${isEditable ? editableClasses : ""}`}
+      style={{ fontFamily: '"Inter", Times, serif' }}
+      key={isEditable ? slide.description : undefined}
+      contentEditable={isEditable}
+      suppressContentEditableWarning
+      onBlur={isEditable ? event => {
+        const description = readParagraphs(event.currentTarget);
+        if (description !== slide.description) onChange({ ...slide, description });
+      } : undefined}
+      onPaste={isEditable ? pastePlainText : undefined}
+    >
+      {(slide.description ?? '').split('\n').map((paragraph, index) => (
+        <p key={index} className="mb-4">{renderText(paragraph)}</p>
+      ))}
+    </div>
+  );
+
+  if (slide.layout) {
+    return (
+      <SlideLayoutView
+        slide={slide}
+        layout={slide.layout}
+        themeClasses={themeClasses}
+        typeIndicator={typeIndicator}
+        renderHeading={renderHeading}
+        renderDescription={renderDescription}
+        editing={isEditable}
+        onImageLoad={onImageLoad}
+        onImageError={onImageError}
+        imageEditor={isEditable && slide.layout.kind === "image"
+          ? <ImageSourceEditor slide={slide} onChange={onChange} />
+          : undefined}
+        renderText={renderText}
+      />
+    );
+  }
+
+  return (
+    <div className={getSlideTypeStyle(slide.type || 'content')}>
+      <div className="px-8">
+        {/* Slide Type Indicator */}
+        <div className="mb-4">
+          {typeIndicator}
+        </div>
+
+        {/* Heading */}
+        {renderHeading(
+          slide.type === "intro" || slide.type === "outro"
+            ? "mb-6 text-3xl md:text-4xl"
+            : "mb-6 text-2xl md:text-3xl"
+        )}
+
+        {/* Content Layout */}
+        <div className={`${
+          (slide.imageUrl || slide.chart) && (slide.type === "content" || !slide.type)
+            ? "grid md:grid-cols-2 gap-8 items-center"
+            : ""
+        }`}>
+          {/* Description and bullets */}
+          <div>
+            {(isEditable || slide.description?.trim() || !slide.bullets?.length) && renderDescription(
+              isBookend
+                ? "text-lg md:text-xl leading-relaxed max-w-3xl mx-auto"
+                : "text-base md:text-lg leading-relaxed"
+            )}
+            <BulletList
+              bullets={slide.bullets ?? []}
+              themeClasses={themeClasses}
+              className={`${
+                isBookend ? "text-lg md:text-xl max-w-3xl mx-auto text-left w-fit" : "text-base md:text-lg"
+              } leading-relaxed`}
+              visibleCount={visibleBullets}
+              editing={isEditable}
+              onChange={bullets => onChange?.({ ...slide, bullets: bullets.length > 0 ? bullets : undefined })}
+              renderText={renderText}
+            />
+          </div>
+
+          {/* Chart or image */}
+          {isEditable ? (
+            <div>
+              {media}
+              {slide.chart ? (
+                <div className="mt-3 flex justify-end text-xs">
+                  <button
+                    onClick={() => onChange({ ...slide, chart: undefined, dataBinding: undefined })}
+                    className="px-2 py-1 rounded border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+                  >
+                    Remove chart
+                  </button>
+                </div>
+              ) : (
+                <ImageSourceEditor slide={slide} onChange={onChange} />
+              )}
+            </div>
+          ) : media}
+        </div>
+
+        {/* Table */}
+        {slide.table && (
+          outlineClaim("table", <SlideTable table={slide.table} themeClasses={themeClasses} staticRender={staticRender} />)
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import SlideView from "@/components/slide-view";
+import { getThemeClasses } from "@/lib/slide-themes";
+import type { Deck } from "@/lib/slides";
+
+/**
+ * Static markup for the standalone HTML presentation produced by the Share menu.
+ * It is rendered with renderToStaticMarkup, so it must not rely on hooks or handlers;
+ * navigation is provided by the small script embedded next to it (see html-export.ts).
+ */
+export default function StandaloneDeck({ title, theme = "blue", slides }: Deck) {
+  const themeClasses = getThemeClasses(theme);
+  const activeDot = themeClasses.button.split(' ')[0];
+
+  return (
+    <div className={`min-h-screen flex flex-col ${themeClasses.container}`}>
+      <header className="p-4 border-b border-gray-200/50 flex items-center justify-between">
+        <h1 className="text-xl font-bold break-words">{title}</h1>
+        <span data-counter className={`text-sm ${themeClasses.accent}`}>
+          Slide 1 of {slides.length}
+        </span>
+      </header>
+
+      <main className="flex-1 flex flex-col justify-center max-w-5xl w-full mx-auto">
+        {slides.map((slide, index) => (
+          <section
+            key={index}
+            data-slide
+            hidden={index !== 0}
+            className={`${themeClasses.slide} border rounded-lg m-4 min-h-[400px] flex flex-col justify-center`}
+          >
+            <SlideView slide={slide} themeClasses={themeClasses} staticRender />
+          </section>
+        ))}
+      </main>
+
+      <nav className="flex justify-center items-center gap-4 p-4">
+        <button data-prev className={`px-3 py-1 rounded-lg ${themeClasses.button}`} aria-label="Previous slide">
+          ←
+        </button>
+        <div className="flex gap-2">
+          {slides.map((_, index) => (
+            <button
+              key={index}
+              data-dot={index}
+              data-active-class={activeDot}
+              aria-label={`Go to slide ${index + 1}`}
+              className={`w-3 h-3 rounded-full transition-all ${index === 0 ? activeDot : "bg-gray-300"}`}
+            />
+          ))}
+        </div>
+        <button data-next className={`px-3 py-1 rounded-lg ${themeClasses.button}`} aria-label="Next slide">
+          →
+        </button>
+      </nav>
+
+      <p className="text-xs text-center pb-2 text-gray-500">
+        Use ← → arrow keys, 0 to restart, F for fullscreen
+      </p>
+    </div>
+  );
+}
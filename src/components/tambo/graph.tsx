@@ -1,32 +1,12 @@
 "use client";
 
+import { graphDataSchema, type GraphDataType } from "@/lib/graph-data";
 import { cn } from "@/lib/utils";
 import { cva, type VariantProps } from "class-variance-authority";
 import * as React from "react";
 import * as RechartsCore from "recharts";
 import { z } from "zod";
 
-/**
- * Represents a graph data object
- * @property {string} type - Type of graph to render
- * @property {string[]} labels - Labels for the graph
- * @property {Object[]} datasets - Data for the graph
- */
-
-export const graphDataSchema = z.object({
-  type: z.enum(["bar", "line", "pie"]).describe("Type of graph to render"),
-  labels: z.array(z.string()).describe("Labels for the graph"),
-  datasets: z
-    .array(
-      z.object({
-        label: z.string().describe("Label for the dataset"),
-        data: z.array(z.number()).describe("Data points for the dataset"),
-        color: z.string().optional().describe("Optional color for the dataset"),
-      }),
-    )
-    .describe("Data for the graph"),
-});
-
 export const graphSchema = z.object({
   data: graphDataSchema.describe(
     "Data object containing chart configuration and values",
@@ -46,9 +26,6 @@ export const graphSchema = z.object({
     .describe("Size of the graph"),
 });
 
-// Define the base type from the Zod schema
-export type GraphDataType = z.infer<typeof graphDataSchema>;
-
 // Extend the GraphProps with additional tambo properties
 export interface GraphProps
   extends Omit<React.HTMLAttributes<HTMLDivElement>, "data" | "title" | "size">,
@@ -63,6 +40,8 @@ export interface GraphProps
   variant?: "default" | "solid" | "bordered";
   /** Size of the graph */
   size?: "default" | "sm" | "lg";
+  /** Whether to animate the chart as it appears (default: true) */
+  animate?: boolean;
 }
 
 const graphVariants = cva(
@@ -120,7 +99,16 @@ const defaultColors = [
  */
 export const Graph = React.forwardRef<HTMLDivElement, GraphProps>(
   (
-    { className, variant, size, data, title, showLegend = true, ...props },
+    {
+      className,
+      variant,
+      size,
+      data,
+      title,
+      showLegend = true,
+      animate = true,
+      ...props
+    },
     ref,
   ) => {
     // If no data received yet, show loading
@@ -276,6 +264,7 @@ export const Graph = React.forwardRef<HTMLDivElement, GraphProps>(
                       defaultColors[index % defaultColors.length]
                     }
                     radius={[4, 4, 0, 0]}
+                    isAnimationActive={animate}
                   />
                 ))}
               </RechartsCore.BarChart>
@@ -330,6 +319,7 @@ export const Graph = React.forwardRef<HTMLDivElement, GraphProps>(
                       defaultColors[index % defaultColors.length]
                     }
                     dot={false}
+                    isAnimationActive={animate}
                   />
                 ))}
               </RechartsCore.LineChart>
@@ -365,6 +355,7 @@ export const Graph = React.forwardRef<HTMLDivElement, GraphProps>(
                   labelLine={false}
                   outerRadius={80}
                   fill="#8884d8"
+                  isAnimationActive={animate}
                 />
                 <RechartsCore.Tooltip
                   contentStyle={{
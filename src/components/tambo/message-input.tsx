@@ -2,6 +2,12 @@
 
 import { McpConfigModal } from "@/components/tambo/mcp-config-modal";
 import { Tooltip, TooltipProvider } from "@/components/tambo/suggestions-tooltip";
+import {
+  ATTACHMENT_FILE_ACCEPT,
+  describeChatAttachments,
+  readChatAttachment,
+  type ChatAttachment,
+} from "@/lib/chat-attachments";
 import { cn } from "@/lib/utils";
 import {
   useIsTamboTokenUpdating,
@@ -9,7 +15,14 @@ import {
   useTamboThreadInput,
 } from "@tambo-ai/react";
 import { cva, type VariantProps } from "class-variance-authority";
-import { ArrowUp, Square } from "lucide-react";
+import {
+  ArrowUp,
+  FileSpreadsheet,
+  FileText,
+  Paperclip,
+  Square,
+  X,
+} from "lucide-react";
 import * as React from "react";
 
 /**
@@ -57,6 +70,9 @@ const messageInputVariants = cva("w-full", {
  * @property {HTMLTextAreaElement|null} textareaRef - Reference to the textarea element
  * @property {string | null} submitError - Error from the submission
  * @property {function} setSubmitError - Function to set the submission error
+ * @property {ChatAttachment[]} attachments - Files attached to the next message
+ * @property {function} addAttachment - Function to attach a parsed file
+ * @property {function} removeAttachment - Function to remove an attachment by id
  */
 interface MessageInputContextValue {
   value: string;
@@ -72,6 +88,9 @@ interface MessageInputContextValue {
   textareaRef: React.RefObject<HTMLTextAreaElement>;
   submitError: string | null;
   setSubmitError: React.Dispatch<React.SetStateAction<string | null>>;
+  attachments: ChatAttachment[];
+  addAttachment: (attachment: ChatAttachment) => void;
+  removeAttachment: (id: string) => void;
 }
 
 /**
@@ -132,6 +151,7 @@ const MessageInput = React.forwardRef<HTMLFormElement, MessageInputProps>(
     const [displayValue, setDisplayValue] = React.useState("");
     const [submitError, setSubmitError] = React.useState<string | null>(null);
     const [isSubmitting, setIsSubmitting] = React.useState(false);
+    const [attachments, setAttachments] = React.useState<ChatAttachment[]>([]);
     const textareaRef = React.useRef<HTMLTextAreaElement>(null);
 
     React.useEffect(() => {
@@ -154,8 +174,12 @@ const MessageInput = React.forwardRef<HTMLFormElement, MessageInputProps>(
           await submit({
             contextKey,
             streamResponse: true,
+            // The assistant gets a summary of each file; the full contents stay
+            // in the browser for the dataset and document tools
+            additionalContext: describeChatAttachments(attachments),
           });
           setValue("");
+          setAttachments([]);
           setTimeout(() => {
             textareaRef.current?.focus();
           }, 0);
@@ -183,9 +207,20 @@ const MessageInput = React.forwardRef<HTMLFormElement, MessageInputProps>(
         setSubmitError,
         cancel,
         isSubmitting,
+        attachments,
       ],
     );
 
+    const addAttachment = React.useCallback((attachment: ChatAttachment) => {
+      setAttachments((current) => [...current, attachment]);
+    }, []);
+
+    const removeAttachment = React.useCallback((id: string) => {
+      setAttachments((current) =>
+        current.filter((attachment) => attachment.id !== id)
+      );
+    }, []);
+
     const contextValue = React.useMemo(
       () => ({
         value: displayValue,
@@ -201,6 +236,9 @@ const MessageInput = React.forwardRef<HTMLFormElement, MessageInputProps>(
         textareaRef,
         submitError,
         setSubmitError,
+        attachments,
+        addAttachment,
+        removeAttachment,
       }),
       [
         displayValue,
@@ -212,6 +250,9 @@ const MessageInput = React.forwardRef<HTMLFormElement, MessageInputProps>(
         error,
         contextKey,
         submitError,
+        attachments,
+        addAttachment,
+        removeAttachment,
       ]
     );
     return (
@@ -226,6 +267,37 @@ const MessageInput = React.forwardRef<HTMLFormElement, MessageInputProps>(
           {...props}
         >
           <div className="flex flex-col border border-gray-200 rounded-xl bg-background shadow-md p-2 px-3">
+            {attachments.length > 0 && (
+              <div
+                className="flex flex-wrap gap-2 px-1 pt-1"
+                data-slot="message-input-attachments"
+              >
+                {attachments.map((attachment) => (
+                  <span
+                    key={attachment.id}
+                    className="inline-flex items-center gap-1.5 rounded-md bg-muted px-2 py-1 text-xs text-primary"
+                  >
+                    {attachment.kind === "dataset" ? (
+                      <FileSpreadsheet className="w-3.5 h-3.5" />
+                    ) : (
+                      <FileText className="w-3.5 h-3.5" />
+                    )}
+                    {attachment.name}
+                    <span className="text-muted-foreground">
+                      {attachment.detail}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => removeAttachment(attachment.id)}
+                      className="rounded hover:bg-black/10 cursor-pointer"
+                      aria-label={`Remove ${attachment.name}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
             {children}
           </div>
         </form>
@@ -446,6 +518,85 @@ const MessageInputMcpConfigButton = React.forwardRef<
 });
 MessageInputMcpConfigButton.displayName = "MessageInput.McpConfigButton";
 
+/**
+ * Attach button for spreadsheets (CSV, TSV, XLSX) and documents (Markdown, PDF, DOCX).
+ * Files are parsed in the browser and sent with the next message, so the assistant can
+ * build chart and table slides from data or a deck outline from a document.
+ * @component MessageInput.AttachButton
+ * @example
+ * ```tsx
+ * <MessageInput>
+ *   <MessageInput.Textarea />
+ *   <MessageInput.Toolbar>
+ *     <MessageInput.AttachButton />
+ *     <MessageInput.SubmitButton />
+ *   </MessageInput.Toolbar>
+ * </MessageInput>
+ * ```
+ */
+const MessageInputAttachButton = React.forwardRef<
+  HTMLButtonElement,
+  React.ButtonHTMLAttributes<HTMLButtonElement>
+>(({ className, ...props }, ref) => {
+  const { addAttachment, setSubmitError } = useMessageInputContext();
+  const inputRef = React.useRef<HTMLInputElement>(null);
+  const [isReading, setIsReading] = React.useState(false);
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    setIsReading(true);
+    for (const file of files) {
+      try {
+        addAttachment(await readChatAttachment(file));
+      } catch (error) {
+        console.error("Failed to read attachment:", error);
+        setSubmitError(
+          error instanceof Error ? error.message : `Could not read ${file.name}.`
+        );
+      }
+    }
+    setIsReading(false);
+  };
+
+  const buttonClasses = cn(
+    "w-10 h-10 bg-muted text-primary rounded-lg hover:bg-muted/80 disabled:opacity-50 flex items-center justify-center cursor-pointer",
+    className
+  );
+
+  return (
+    <TooltipProvider>
+      <Tooltip
+        content="Attach a spreadsheet or document"
+        side="right"
+        className="bg-muted text-primary"
+      >
+        <button
+          ref={ref}
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={isReading}
+          className={buttonClasses}
+          aria-label="Attach file"
+          data-slot="message-input-attach"
+          {...props}
+        >
+          <Paperclip className="w-5 h-5" />
+        </button>
+      </Tooltip>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ATTACHMENT_FILE_ACCEPT}
+        multiple
+        onChange={handleFiles}
+        className="hidden"
+      />
+    </TooltipProvider>
+  );
+});
+MessageInputAttachButton.displayName = "MessageInput.AttachButton";
+
 /**
  * Props for the MessageInputError component.
  * Extends standard HTMLParagraphElement attributes.
@@ -548,6 +699,7 @@ MessageInputToolbar.displayName = "MessageInput.Toolbar";
 // --- Exports ---
 export {
   MessageInput,
+  MessageInputAttachButton,
   MessageInputError,
   MessageInputMcpConfigButton,
   MessageInputSubmitButton,
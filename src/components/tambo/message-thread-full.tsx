@@ -2,6 +2,7 @@
 
 import {
   MessageInput,
+  MessageInputAttachButton,
   MessageInputTextarea,
   MessageInputToolbar,
   MessageInputSubmitButton,
@@ -114,6 +115,7 @@ export const MessageThreadFull = React.forwardRef<
             <MessageInputTextarea />
             <MessageInputToolbar>
               <MessageInputMcpConfigButton />
+              <MessageInputAttachButton />
               <MessageInputSubmitButton />
             </MessageInputToolbar>
             <MessageInputError />
@@ -0,0 +1,54 @@
+/**
+ * @file active-deck.ts
+ * @description Lets tools read and change the deck that is currently on screen
+ *
+ * Tools are plain functions registered with Tambo, so they cannot reach React state
+ * directly. Each mounted SlidesGenerator registers a handle here; the most recently
+ * mounted or interacted-with viewer is the active one and receives tool changes and the
+ * undo/redo shortcuts.
+ */
+
+import type { Deck } from "@/lib/slides";
+
+export interface DeckChange {
+  /** Who made the change, e.g. a tool name; shown to the user next to the deck */
+  source: string;
+  /** Slide to bring into view after the change */
+  focusSlide?: number;
+}
+
+export interface ActiveDeckHandle {
+  getDeck(): Deck;
+  updateDeck(update: (deck: Deck) => Deck, change: DeckChange): Deck;
+}
+
+// Most recently activated handle last
+const handles: ActiveDeckHandle[] = [];
+
+export function registerActiveDeck(handle: ActiveDeckHandle): () => void {
+  handles.push(handle);
+  return () => {
+    const index = handles.indexOf(handle);
+    if (index !== -1) handles.splice(index, 1);
+  };
+}
+
+export function activateDeck(handle: ActiveDeckHandle) {
+  const index = handles.indexOf(handle);
+  if (index === -1 || index === handles.length - 1) return;
+  handles.splice(index, 1);
+  handles.push(handle);
+}
+
+/** Whether the handle belongs to the viewer that tool changes and shortcuts go to */
+export function isActiveDeck(handle: ActiveDeckHandle): boolean {
+  return handles[handles.length - 1] === handle;
+}
+
+export function getActiveDeck(): ActiveDeckHandle {
+  const handle = handles[handles.length - 1];
+  if (!handle) {
+    throw new Error("No presentation is open. Generate or open a presentation first.");
+  }
+  return handle;
+}
@@ -0,0 +1,537 @@
+/**
+ * @file builtin-templates.ts
+ * @description The presentation templates that ship with the app
+ *
+ * Kept in code so the type check catches a domain without templates or a slide that does
+ * not fit the slide schema. Company templates go in the templates folder instead (see
+ * template-registry.ts).
+ */
+
+import { toTemplateId, type PresentationTemplate, type TemplateSlide } from "@/lib/template-definitions";
+
+// Domains offered by the generation tools; each needs templates here and images and keywords in tambo.ts
+export const PRESENTATION_DOMAINS = ["business", "technology", "education", "healthcare"] as const;
+
+export type PresentationDomain = (typeof PRESENTATION_DOMAINS)[number];
+
+// Expanded presentation templates for different domains
+const PRESENTATION_TEMPLATES = {
+  business: {
+    "market analysis": {
+      title: "Comprehensive Market Analysis",
+      slides: [
+        {
+          type: "intro",
+          heading: "Market Analysis: Industry Overview",
+          description: "In-depth analysis of market dynamics, competitive landscape, and growth opportunities in our target sector. This presentation examines key trends, market size, and strategic positioning.",
+          keywords: ["market analysis", "business strategy", "data visualization", "industry trends"]
+        },
+        {
+          type: "content",
+          heading: "Market Size & Growth Projections",
+          description: "The total addressable market is valued at $500 billion with a CAGR of 7.2%. Key growth drivers include digital transformation, changing consumer behavior, and emerging technologies like AI and blockchain.",
+          keywords: ["market growth", "financial charts", "business metrics", "growth projections"],
+          chart: {
+            type: "line",
+            labels: ["2024", "2025", "2026", "2027", "2028"],
+            datasets: [{ label: "Addressable market ($B)", data: [500, 536, 575, 616, 660] }]
+          }
+        },
+        {
+          type: "content",
+          heading: "Competitive Landscape Analysis",
+          description: "Analysis reveals 5 major players controlling 60% market share. Key differentiators include pricing strategy, product features, and customer service excellence. Opportunities exist in underserved segments.",
+          keywords: ["competition analysis", "market share", "business competitors", "swot analysis"]
+        },
+        {
+          type: "content",
+          heading: "Target Customer Segmentation",
+          description: "Primary segments include enterprise clients (40%), SMBs (35%), and individual professionals (25%). Each segment demonstrates distinct needs, purchasing behaviors, and growth potential.",
+          keywords: ["customer segments", "target audience", "demographics", "buyer personas"],
+          chart: {
+            type: "pie",
+            labels: ["Enterprise", "SMB", "Individual professionals"],
+            datasets: [{ label: "Share of customers (%)", data: [40, 35, 25] }]
+          }
+        },
+        {
+          type: "outro",
+          heading: "Strategic Recommendations & Action Plan",
+          description: "Recommend focusing on underserved segments, leveraging technology for competitive advantage, and building strategic partnerships. Implementation timeline: 6-12 months for initial results.",
+          keywords: ["business strategy", "action plan", "strategic recommendations", "next steps"]
+        }
+      ]
+    },
+    "product launch": {
+      title: "Product Launch Strategy Presentation",
+      slides: [
+        {
+          type: "intro",
+          heading: "Introducing Our Revolutionary Product",
+          description: "A breakthrough solution designed to transform how businesses operate and compete in the digital age. This product addresses critical pain points with innovative technology.",
+          keywords: ["product launch", "innovation", "new technology", "product introduction"]
+        },
+        {
+          type: "content",
+          heading: "The Problem We Solve",
+          description: "Businesses lose approximately 30% productivity due to inefficient processes. Current solutions are fragmented and expensive. Our product addresses these challenges with intelligent automation.",
+          keywords: ["business problem", "solution overview", "pain points", "market need"]
+        },
+        {
+          type: "content",
+          heading: "Key Features & Competitive Advantages",
+          description: "AI-powered analytics, real-time collaboration, enterprise-grade security, and proven 50% reduction in operational costs. Unique selling proposition: seamless integration with existing systems.",
+          keywords: ["product features", "competitive advantage", "benefits", "unique selling points"]
+        },
+        {
+          type: "content",
+          heading: "Go-to-Market Strategy",
+          description: "Phased rollout starting with key markets. Marketing budget: $2M. Sales strategy: direct sales for enterprise, channel partners for SMBs. Projected customer acquisition cost: $350.",
+          keywords: ["marketing strategy", "go to market", "sales plan", "launch timeline"]
+        },
+        {
+          type: "outro",
+          heading: "Launch Timeline & Success Metrics",
+          description: "Beta launch in Q2, full release in Q3. Key metrics: 1,000 customers in first year, $5M revenue. Early access program available with exclusive benefits for founding partners.",
+          keywords: ["timeline", "success metrics", "kpis", "launch plan"]
+        }
+      ]
+    },
+    "financial report": {
+      title: "Quarterly Financial Performance Report",
+      slides: [
+        {
+          type: "intro",
+          heading: "Q3 Financial Performance Overview",
+          description: "Comprehensive review of financial performance, key metrics, and strategic insights for the third quarter. Highlights include revenue growth, profitability, and market position.",
+          keywords: ["financial report", "quarterly results", "revenue", "performance metrics"]
+        },
+        {
+          type: "content",
+          heading: "Revenue Analysis & Growth Trends",
+          description: "Total revenue reached $125M, representing 15% year-over-year growth. Key drivers: new customer acquisition (35%), expansion of existing accounts (45%), and new product lines (20%).",
+          keywords: ["revenue analysis", "financial growth", "business performance", "sales metrics"],
+          chart: {
+            type: "bar",
+            labels: ["New customers", "Account expansion", "New product lines"],
+            datasets: [{ label: "Share of revenue growth (%)", data: [35, 45, 20] }]
+          }
+        },
+        {
+          type: "content",
+          heading: "Profitability & Cost Management",
+          description: "Operating margin improved to 22% through optimized operations and cost controls. EBITDA reached $28M, exceeding projections by 8%. Cost of goods sold decreased by 5% through supplier negotiations.",
+          keywords: ["profitability", "cost management", "financial metrics", "operational efficiency"]
+        },
+        {
+          type: "content",
+          heading: "Market Position & Competitive Analysis",
+          description: "Maintained #2 market position with 18% market share. Gained 3 percentage points against main competitor. Customer satisfaction scores reached all-time high of 92%.",
+          keywords: ["market position", "competitive analysis", "market share", "customer satisfaction"]
+        },
+        {
+          type: "outro",
+          heading: "Forward Outlook & Strategic Initiatives",
+          description: "Q4 projections: $140M revenue with 20% growth. Strategic initiatives: expansion into Asian markets, new product launch in Q1, and continued operational optimization.",
+          keywords: ["business outlook", "strategic initiatives", "forecasting", "future planning"]
+        }
+      ]
+    },
+    "business strategy": {
+      title: "Strategic Business Plan Presentation",
+      slides: [
+        {
+          type: "intro",
+          heading: "3-Year Strategic Business Plan",
+          description: "Comprehensive roadmap outlining our vision, strategic priorities, and growth initiatives for the next three years. Focus on market expansion, innovation, and operational excellence.",
+          keywords: ["business strategy", "strategic planning", "growth initiatives", "vision"]
+        },
+        {
+          type: "content",
+          heading: "Market Opportunity & Growth Strategy",
+          description: "Addressing a $250B market opportunity with focused expansion in high-growth segments. Strategy: penetrate existing markets deeper while expanding geographically into 3 new regions.",
+          keywords: ["market opportunity", "growth strategy", "business expansion", "market penetration"]
+        },
+        {
+          type: "content",
+          heading: "Innovation & Product Roadmap",
+          description: "$50M investment in R&D over 3 years. Key initiatives: AI-powered platform enhancements, mobile-first solutions, and integration capabilities. 6 major product releases planned.",
+          keywords: ["innovation", "product roadmap", "research development", "technology"]
+        },
+        {
+          type: "content",
+          heading: "Operational Excellence Initiatives",
+          description: "Targeting 30% improvement in operational efficiency through automation, process optimization, and technology upgrades. Expected to deliver $45M in cost savings over 3 years.",
+          keywords: ["operational excellence", "process optimization", "automation", "efficiency"]
+        },
+        {
+          type: "outro",
+          heading: "Implementation Timeline & Success Metrics",
+          description: "Phased implementation over 12 quarters. Key metrics: 25% CAGR, 35% market share target, 50% increase in customer base. Quarterly reviews with board to track progress.",
+          keywords: ["implementation", "timeline", "success metrics", "performance indicators"]
+        }
+      ]
+    }
+  },
+  technology: {
+    "ai transformation": {
+      title: "AI Transformation Strategy",
+      slides: [
+        {
+          type: "intro",
+          heading: "AI-Powered Digital Transformation Journey",
+          description: "How artificial intelligence is revolutionizing business operations, customer experiences, and decision-making across industries. This presentation outlines our AI adoption strategy.",
+          keywords: ["artificial intelligence", "digital transformation", "machine learning", "ai strategy"]
+        },
+        {
+          type: "content",
+          heading: "Current AI Applications & Use Cases",
+          description: "Successful implementations include predictive maintenance (30% reduction in downtime), customer service automation (40% cost reduction), and personalized marketing (25% conversion increase).",
+          keywords: ["ai applications", "use cases", "machine learning", "automation"]
+        },
+        {
+          type: "content",
+          heading: "Implementation Roadmap & Timeline",
+          description: "Phase 1: Pilot projects (3-6 months). Phase 2: Department-wide implementation (6-12 months). Phase 3: Enterprise rollout (12-24 months). Total investment: $5M with expected ROI within 18 months.",
+          keywords: ["implementation plan", "roadmap", "timeline", "project planning"]
+        },
+        {
+          type: "content",
+          heading: "Technology Stack & Infrastructure",
+          description: "Cloud-based AI platform, modular architecture, API-first design. Key technologies: TensorFlow, PyTorch, AWS SageMaker. Data infrastructure: Snowflake for data warehousing.",
+          keywords: ["technology stack", "infrastructure", "cloud computing", "ai platform"]
+        },
+        {
+          type: "outro",
+          heading: "Expected Outcomes & Success Metrics",
+          description: "Target outcomes: 40% process automation, 25% cost reduction, 30% revenue growth from AI-enabled products. Success measured through quarterly business reviews and KPI tracking.",
+          keywords: ["expected outcomes", "success metrics", "roi", "performance indicators"],
+          chart: {
+            type: "bar",
+            labels: ["Process automation", "Cost reduction", "AI-enabled revenue growth"],
+            datasets: [{ label: "Target (%)", data: [40, 25, 30] }]
+          }
+        }
+      ]
+    },
+    "cloud migration": {
+      title: "Cloud Migration Strategy & Implementation",
+      slides: [
+        {
+          type: "intro",
+          heading: "Enterprise Cloud Migration Initiative",
+          description: "Comprehensive plan for migrating our infrastructure and applications to the cloud. Focus on security, scalability, and cost optimization while minimizing business disruption.",
+          keywords: ["cloud migration", "cloud computing", "digital transformation", "infrastructure"]
+        },
+        {
+          type: "content",
+          heading: "Migration Strategy & Approach",
+          description: "Hybrid approach: rehost (40%), refactor (35%), rearchitect (25%). Prioritized by business criticality and complexity. Phased migration over 18 months with fallback options.",
+          keywords: ["migration strategy", "cloud adoption", "transformation", "implementation"],
+          chart: {
+            type: "pie",
+            labels: ["Rehost", "Refactor", "Rearchitect"],
+            datasets: [{ label: "Share of applications (%)", data: [40, 35, 25] }]
+          }
+        },
+        {
+          type: "content",
+          heading: "Technology Stack & Cloud Architecture",
+          description: "Multi-cloud strategy with AWS (60%) and Azure (40%). Containerized applications with Kubernetes. Infrastructure as Code using Terraform. Zero-trust security model implemented.",
+          keywords: ["cloud architecture", "technology stack", "multi-cloud", "security"]
+        },
+        {
+          type: "content",
+          heading: "Cost-Benefit Analysis & ROI Projections",
+          description: "35% reduction in infrastructure costs. 60% improvement in deployment speed. 99.9% uptime guarantee. Expected ROI: 210% over 3 years with payback in 14 months.",
+          keywords: ["cost benefit analysis", "roi", "business case", "financial metrics"],
+          chart: {
+            type: "bar",
+            labels: ["Infrastructure cost", "Deployment speed"],
+            datasets: [{ label: "Improvement (%)", data: [35, 60] }]
+          }
+        },
+        {
+          type: "outro",
+          heading: "Implementation Timeline & Risk Mitigation",
+          description: "6-phase implementation over 18 months. Risk mitigation: comprehensive testing, gradual cutover, and rollback plans. Change management program for smooth transition.",
+          keywords: ["implementation timeline", "risk mitigation", "project management", "change management"]
+        }
+      ]
+    },
+    "cybersecurity": {
+      title: "Cybersecurity Strategy & Threat Protection",
+      slides: [
+        {
+          type: "intro",
+          heading: "Comprehensive Cybersecurity Framework",
+          description: "Proactive approach to cybersecurity focusing on threat prevention, detection, and response. Addressing evolving threats in today's digital landscape with enterprise-grade protection.",
+          keywords: ["cybersecurity", "threat protection", "information security", "risk management"]
+        },
+        {
+          type: "content",
+          heading: "Current Threat Landscape Analysis",
+          description: "73% increase in sophisticated phishing attacks. Ransomware incidents up 45%. Cloud vulnerabilities represent 60% of new attack vectors. Zero-day exploits increased by 32%.",
+          keywords: ["threat landscape", "risk assessment", "security threats", "vulnerabilities"],
+          chart: {
+            type: "bar",
+            labels: ["Phishing", "Ransomware", "Zero-day exploits"],
+            datasets: [{ label: "Increase in incidents (%)", data: [73, 45, 32] }]
+          }
+        },
+        {
+          type: "content",
+          heading: "Security Framework & Defense Strategy",
+          description: "Defense-in-depth approach with 5 security layers. Zero-trust architecture implemented. Real-time threat intelligence feeds. 24/7 SOC monitoring with automated response playbooks.",
+          keywords: ["security framework", "defense strategy", "zero trust", "threat intelligence"]
+        },
+        {
+          type: "content",
+          heading: "Incident Response & Recovery Planning",
+          description: "Average detection time reduced to 15 minutes. Response time under 30 minutes. 99% recovery success rate with maximum 4-hour recovery time objective for critical systems.",
+          keywords: ["incident response", "recovery planning", "disaster recovery", "business continuity"]
+        },
+        {
+          type: "outro",
+          heading: "Security Roadmap & Investment Plan",
+          description: "$8M investment over 2 years. Key initiatives: AI-powered threat detection, security awareness training, and advanced endpoint protection. Targeting 95% reduction in security incidents.",
+          keywords: ["security roadmap", "investment plan", "future initiatives", "security goals"]
+        }
+      ]
+    }
+  },
+  education: {
+    "teaching materials": {
+      title: "Interactive Teaching Materials & Curriculum",
+      slides: [
+        {
+          type: "intro",
+          heading: "Innovative Teaching Methodology & Materials",
+          description: "Modern approach to education combining traditional pedagogy with technology-enhanced learning. Focus on engagement, retention, and practical application of knowledge.",
+          keywords: ["teaching materials", "education", "curriculum", "pedagogy"]
+        },
+        {
+          type: "content",
+          heading: "Learning Objectives & Outcomes",
+          description: "Clear measurable outcomes: 90% mastery of core concepts, 85% improvement in critical thinking skills, and 75% increase in knowledge retention compared to traditional methods.",
+          keywords: ["learning objectives", "educational outcomes", "skill development", "knowledge retention"]
+        },
+        {
+          type: "content",
+          heading: "Interactive Content & Engagement Strategies",
+          description: "Gamified learning modules, virtual simulations, and collaborative projects. 40% increase in student engagement and 30% improvement in assessment scores with interactive content.",
+          keywords: ["interactive content", "engagement strategies", "gamification", "active learning"]
+        },
+        {
+          type: "content",
+          heading: "Assessment Methods & Progress Tracking",
+          description: "Multi-faceted assessment: formative (40%), summative (30%), and project-based (30%). Real-time progress dashboards for students and instructors with predictive analytics.",
+          keywords: ["assessment methods", "progress tracking", "learning analytics", "evaluation"],
+          chart: {
+            type: "pie",
+            labels: ["Formative", "Summative", "Project-based"],
+            datasets: [{ label: "Weight in final grade (%)", data: [40, 30, 30] }]
+          }
+        },
+        {
+          type: "outro",
+          heading: "Implementation Plan & Success Metrics",
+          description: "Phased rollout starting with pilot program. Success metrics: student satisfaction >90%, 25% improvement in completion rates, and 35% reduction in achievement gaps.",
+          keywords: ["implementation plan", "success metrics", "educational outcomes", "evaluation"]
+        }
+      ]
+    }
+  },
+  healthcare: {
+    "clinical trial update": {
+      title: "Clinical Trial Progress Update",
+      slides: [
+        {
+          type: "intro",
+          heading: "Phase III Trial: Interim Progress Update",
+          description: "Status of enrolment, protocol adherence and blinded safety monitoring for our ongoing Phase III study. All figures are aggregate and de-identified; efficacy results remain blinded until the final analysis.",
+          keywords: ["clinical trial", "medical research", "laboratory", "clinical study"]
+        },
+        {
+          type: "content",
+          heading: "Enrolment & Site Activation",
+          description: "1,240 of 1,600 participants enrolled (78%) across 42 active sites. Screen failure rate of 18% is within the protocol assumption. Recruitment in the two newest regions trails plan by six weeks.",
+          keywords: ["patient enrollment", "clinical research site", "hospital", "medical team"],
+          chart: {
+            type: "line",
+            labels: ["Q1", "Q2", "Q3", "Q4"],
+            datasets: [
+              { label: "Enrolled participants", data: [310, 620, 950, 1240] },
+              { label: "Enrolment target", data: [400, 800, 1200, 1600] }
+            ]
+          }
+        },
+        {
+          type: "content",
+          heading: "Protocol Adherence & Data Quality",
+          description: "Visit window compliance at 96%. 14 major protocol deviations reported, each documented, assessed and notified under ICH-GCP. Source data verification complete for 88% of case report forms.",
+          keywords: ["clinical data", "quality assurance", "medical documentation", "compliance"]
+        },
+        {
+          type: "content",
+          heading: "Safety Monitoring Summary",
+          description: "The independent Data Safety Monitoring Board reviewed blinded safety data in September and recommended continuing the study unchanged. Serious adverse events are reported to regulators within required timelines.",
+          keywords: ["patient safety", "medical monitoring", "healthcare professional", "clinical review"],
+          chart: {
+            type: "bar",
+            labels: ["Mild", "Moderate", "Severe"],
+            datasets: [{ label: "Adverse events, blinded (count)", data: [212, 64, 9] }]
+          }
+        },
+        {
+          type: "outro",
+          heading: "Next Milestones & Regulatory Timeline",
+          description: "Enrolment completion expected in Q2, database lock in Q4 and topline results after unblinding. Any change to these timelines will be communicated through the sponsor's regulatory affairs team.",
+          keywords: ["regulatory approval", "medical research", "project timeline", "pharmaceutical"]
+        }
+      ]
+    },
+    "patient safety briefing": {
+      title: "Patient Safety Briefing",
+      slides: [
+        {
+          type: "intro",
+          heading: "Patient Safety Briefing: Quarterly Review",
+          description: "Review of reported safety events, contributing factors and corrective actions across the organization. Cases are discussed without patient or staff identifiers, in line with our just-culture and privacy policies.",
+          keywords: ["patient safety", "hospital", "nurse", "healthcare quality"]
+        },
+        {
+          type: "content",
+          heading: "Reported Safety Events",
+          description: "1,086 events reported this quarter, up 12%, reflecting stronger reporting rather than more harm. 91% caused no harm; all moderate and severe events received a root cause analysis within 45 days.",
+          keywords: ["incident reporting", "healthcare data", "hospital ward", "quality improvement"],
+          chart: {
+            type: "pie",
+            labels: ["No harm", "Minor harm", "Moderate harm", "Severe harm"],
+            datasets: [{ label: "Share of reported events (%)", data: [91, 7, 1.6, 0.4] }]
+          }
+        },
+        {
+          type: "content",
+          heading: "Medication Safety",
+          description: "Medication errors fell 22% after barcode scanning at the bedside reached 97% compliance. High-alert medications now require independent double checks, audited monthly by pharmacy.",
+          keywords: ["medication safety", "pharmacy", "hospital medicine", "nurse"]
+        },
+        {
+          type: "content",
+          heading: "Falls & Hospital-Acquired Infections",
+          description: "Inpatient falls at 2.1 per 1,000 patient days against a target of 2.5. Central line infections reduced to zero in two of five ICUs after the insertion bundle was standardized.",
+          keywords: ["infection control", "hand hygiene", "intensive care unit", "patient care"]
+        },
+        {
+          type: "outro",
+          heading: "Corrective Actions & Accountability",
+          description: "Twelve corrective actions open, each with a named owner and due date. Progress is reported to the Quality and Safety Committee; serious events are disclosed to patients and regulators as required.",
+          keywords: ["healthcare leadership", "hospital team", "quality improvement", "accountability"]
+        }
+      ]
+    },
+    "hospital operations review": {
+      title: "Hospital Operations Review",
+      slides: [
+        {
+          type: "intro",
+          heading: "Hospital Operations: Performance Review",
+          description: "Review of capacity, patient flow, staffing and financial performance over the last twelve months. Metrics follow national reporting definitions so they can be compared with peer hospitals.",
+          keywords: ["hospital", "hospital building", "healthcare management", "medical facility"]
+        },
+        {
+          type: "content",
+          heading: "Capacity & Patient Flow",
+          description: "Average bed occupancy of 89% against a safe-staffing ceiling of 85%. Median emergency department length of stay at 4.6 hours; 8% of patients waited more than 12 hours for a bed.",
+          keywords: ["emergency department", "hospital beds", "patient flow", "healthcare operations"],
+          chart: {
+            type: "bar",
+            labels: ["Q1", "Q2", "Q3", "Q4"],
+            datasets: [{ label: "Bed occupancy (%)", data: [86, 88, 91, 90] }]
+          }
+        },
+        {
+          type: "content",
+          heading: "Workforce & Staffing",
+          description: "Registered nurse vacancy rate down from 11% to 7% after international recruitment. Agency spend still 9% of pay costs. Mandatory training compliance at 93% against a 95% standard.",
+          keywords: ["nurses", "medical staff", "healthcare workforce", "hospital team"]
+        },
+        {
+          type: "content",
+          heading: "Financial Position",
+          description: "Year-end deficit of $4.2M on $610M of income, $1.1M better than plan. Savings delivered through theatre utilization and procurement; no savings scheme reduced clinical staffing below safe levels.",
+          keywords: ["healthcare finance", "hospital administration", "budget", "financial report"],
+          chart: {
+            type: "line",
+            labels: ["Q1", "Q2", "Q3", "Q4"],
+            datasets: [
+              { label: "Deficit, actual ($M)", data: [-1.8, -1.3, -0.8, -0.3] },
+              { label: "Deficit, plan ($M)", data: [-2.0, -1.6, -1.1, -0.6] }
+            ]
+          }
+        },
+        {
+          type: "outro",
+          heading: "Operational Priorities for Next Year",
+          description: "Open a 24-bed discharge lounge, expand same-day emergency care and cut agency spend by a third. Each priority has a quality impact assessment signed off by the medical and nursing directors.",
+          keywords: ["healthcare planning", "hospital strategy", "medical team meeting", "healthcare improvement"]
+        }
+      ]
+    },
+    "public health campaign": {
+      title: "Public Health Campaign Plan",
+      slides: [
+        {
+          type: "intro",
+          heading: "Community Vaccination Campaign",
+          description: "Plan for a twelve-week campaign to raise seasonal vaccination uptake among adults over 65 and people with long-term conditions. Messaging follows national clinical guidance and has been reviewed by our medical director.",
+          keywords: ["public health", "vaccination", "community health", "health campaign"]
+        },
+        {
+          type: "content",
+          heading: "Current Uptake & Target Groups",
+          description: "Uptake last season was 68% in adults over 65 and 44% in at-risk adults under 65, against national ambitions of 75% and 55%. The gap is widest in the two most deprived districts.",
+          keywords: ["health statistics", "community", "elderly care", "health equity"],
+          chart: {
+            type: "bar",
+            labels: ["Over 65", "At-risk under 65"],
+            datasets: [
+              { label: "Uptake last season (%)", data: [68, 44] },
+              { label: "National ambition (%)", data: [75, 55] }
+            ]
+          }
+        },
+        {
+          type: "content",
+          heading: "Messaging & Channels",
+          description: "Plain-language messages co-designed with community groups, translated into the six most spoken local languages. Channels: GP text reminders, pharmacies, local radio and faith and community leaders.",
+          keywords: ["health communication", "community outreach", "pharmacy", "public awareness"]
+        },
+        {
+          type: "content",
+          heading: "Access & Delivery",
+          description: "Pop-up clinics in community centres, home visits for housebound residents and extended pharmacy hours. Consent and eligibility checks follow the national protocol at every site.",
+          keywords: ["vaccination clinic", "healthcare access", "community health worker", "mobile clinic"]
+        },
+        {
+          type: "outro",
+          heading: "Measuring Impact",
+          description: "Weekly uptake tracked from immunization records using aggregate, anonymized data only. Success: meeting national ambitions and halving the gap between the most and least deprived districts.",
+          keywords: ["health data", "public health research", "evaluation", "health outcomes"]
+        }
+      ]
+    }
+  }
+} satisfies Record<PresentationDomain, Record<string, { title: string; slides: TemplateSlide[] }>>;
+
+export const BUILTIN_TEMPLATES: PresentationTemplate[] = Object.entries(PRESENTATION_TEMPLATES).flatMap(
+  ([domain, templates]) => Object.entries(templates).map(([topic, template]) => ({
+    id: toTemplateId(topic),
+    domain,
+    topic,
+    title: template.title,
+    description: `Professional ${topic} presentation for ${domain} domain`,
+    slides: template.slides
+  }))
+);
@@ -0,0 +1,73 @@
+/**
+ * @file chat-attachments.ts
+ * @description Files attached to a chat message: spreadsheets and source documents
+ *
+ * Attachments are parsed in the browser and kept in this session's stores, where the
+ * dataset and document tools look them up by id. The message itself only carries a
+ * summary of each file (see describeChatAttachments).
+ */
+
+import {
+  addSessionDataset,
+  DATASET_FILE_ACCEPT,
+  describeDataset,
+  isDatasetFile,
+  parseDatasetFile,
+  type Dataset
+} from "@/lib/datasets";
+import {
+  addSessionDocument,
+  describeSourceDocument,
+  DOCUMENT_FILE_ACCEPT,
+  isDocumentFile,
+  parseSourceDocument,
+  type SourceDocument
+} from "@/lib/source-documents";
+
+export type ChatAttachment =
+  | { kind: "dataset"; id: string; name: string; detail: string; dataset: Dataset }
+  | { kind: "document"; id: string; name: string; detail: string; document: SourceDocument };
+
+export const ATTACHMENT_FILE_ACCEPT = `${DATASET_FILE_ACCEPT},${DOCUMENT_FILE_ACCEPT}`;
+
+export async function readChatAttachment(file: File): Promise<ChatAttachment> {
+  if (isDatasetFile(file.name)) {
+    const dataset = await parseDatasetFile(file);
+    addSessionDataset(dataset);
+    return {
+      kind: "dataset",
+      id: dataset.id,
+      name: dataset.name,
+      detail: `${dataset.rows.length} rows · ${dataset.columns.length} columns`,
+      dataset
+    };
+  }
+
+  if (isDocumentFile(file.name)) {
+    const document = await parseSourceDocument(file);
+    addSessionDocument(document);
+    return {
+      kind: "document",
+      id: document.id,
+      name: document.name,
+      detail: `${document.sections.length} ${document.sections.length === 1 ? "section" : "sections"}`,
+      document
+    };
+  }
+
+  throw new Error(`${file.name} cannot be attached. Attach a spreadsheet (CSV, XLSX) or a document (Markdown, PDF, DOCX).`);
+}
+
+/**
+ * Context sent along with a message so the assistant knows which files it can use
+ */
+export function describeChatAttachments(attachments: ChatAttachment[]) {
+  if (attachments.length === 0) return undefined;
+
+  const datasets = attachments.flatMap(attachment => (attachment.kind === "dataset" ? [attachment.dataset] : []));
+  const documents = attachments.flatMap(attachment => (attachment.kind === "document" ? [attachment.document] : []));
+  return {
+    ...(datasets.length > 0 && { attachedDatasets: datasets.map(dataset => describeDataset(dataset)) }),
+    ...(documents.length > 0 && { attachedDocuments: documents.map(document => describeSourceDocument(document)) })
+  };
+}
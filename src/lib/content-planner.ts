@@ -0,0 +1,663 @@
+/**
+ * @file content-planner.ts
+ * @description Plans generated decks for topics no template fits
+ *
+ * The topic's category (how-to, comparison, pitch, report, lesson, or a general
+ * overview) decides which slides the deck has and in what order: a how-to walks through
+ * steps, a pitch goes from problem to the ask, a report leads with results. Headings and
+ * descriptions come in several phrasings, picked per topic, so decks on different topics
+ * do not read alike. The planner never makes up figures: every statistic is a
+ * {{variable}}, so it shows as a placeholder on the slide and is listed in
+ * missingVariables until the user supplies a sourced value.
+ */
+
+import { z } from "zod";
+import type { Audience } from "@/lib/generation-settings";
+import type { Bullet } from "@/lib/slides";
+import type { PresentationTemplate, TemplateSlide, TemplateVariable } from "@/lib/template-definitions";
+
+export const TOPIC_CATEGORIES = ["how-to", "comparison", "pitch", "report", "lesson", "overview"] as const;
+
+export type TopicCategory = (typeof TOPIC_CATEGORIES)[number];
+
+export const topicCategorySchema = z.enum(TOPIC_CATEGORIES)
+  .describe("Structure of the generated deck: how-to (steps), comparison (options side by side), pitch (problem to the ask), report (results first), lesson (objectives, concept, example, practice) or overview");
+
+// Checked in order; the first category whose cue appears in the topic wins
+const CATEGORY_CUES: [TopicCategory, RegExp][] = [
+  ["comparison", /\bvs\.?(?=\s|$)|\bversus\b|\bcompar(?:e|ed|ing|ison)\b|\bdifferences? between\b|\bpros and cons\b|\bwhich is better\b/i],
+  ["how-to", /^how to\b|\bhow do (?:i|we|you)\b|\bguide\b|\bstep[- ]by[- ]step\b|\btutorial\b|\bgetting started\b|\bsetting up\b/i],
+  ["pitch", /\bpitch\b|\binvestors?\b|\bfunding\b|\bproposal\b|\bbusiness case\b|\bseed round\b|\bseries [a-c]\b|\bwhy (?:we|you) should\b/i],
+  ["report", /\breport\b|\bresults\b|\breview\b|\bupdate\b|\bq[1-4]\b|\bquarterly\b|\bannual\b|\bperformance\b|\bretrospective\b|\bpost[- ]mortem\b|\bstatus\b/i],
+  ["lesson", /\blesson\b|\bintro(?:duction)? to\b|\bbasics\b|\bfundamentals\b|\bexplained\b|\bunderstanding\b|\bwhat (?:is|are)\b|\b101\b|\bfor (?:beginners|students|kids)\b/i]
+];
+
+/** The category whose cue words appear in the topic; lessons for students, else overview */
+export function detectTopicCategory(topic: string, audience: Audience = "general"): TopicCategory {
+  const cue = CATEGORY_CUES.find(([, pattern]) => pattern.test(topic));
+  if (cue) return cue[0];
+  return audience === "students" ? "lesson" : "overview";
+}
+
+/** Title case; words with capitals of their own, like "AWS" or "MySQL", keep them */
+export function formatTitle(topic: string): string {
+  return topic
+    .split(" ")
+    .map(word => word.charAt(0).toUpperCase() + (/[A-Z]/.test(word.slice(1)) ? word.slice(1) : word.slice(1).toLowerCase()))
+    .join(" ");
+}
+
+export interface PlanOptions {
+  domain: string;
+  /** Slides including the intro and the closing slide */
+  count: number;
+  audience?: Audience;
+  /** Overrides the detected category */
+  category?: TopicCategory;
+  /** Image keywords added to every slide */
+  keywords?: string[];
+  /** Added to the intro, e.g. a compliance note for the domain */
+  notice?: string;
+}
+
+export interface PlannedDeck extends PresentationTemplate {
+  category: TopicCategory;
+}
+
+interface PlanContext {
+  topic: string;
+  title: string;
+  /** The topic without its category cue, e.g. "deploy a Next.js app" for "how to deploy a Next.js app" */
+  subject: string;
+  domain: string;
+  audience: Audience;
+  seed: number;
+}
+
+interface SlideIntent {
+  /** Dropped first when the deck has fewer slides than the plan */
+  optional?: boolean;
+  /** Statistics the slide leaves as placeholders */
+  variables?: TemplateVariable[];
+  build: (context: PlanContext, pick: <T>(options: T[]) => T) => Omit<TemplateSlide, "type">;
+}
+
+function hashTopic(topic: string): number {
+  let hash = 0;
+  for (const char of topic.toLowerCase()) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return hash;
+}
+
+const bullets = (...texts: string[]): Bullet[] => texts.map(text => ({ text }));
+
+const toSentence = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const placeholderNotes = (names: string[]) =>
+  `${names.map(name => `{{${name}}}`).join(", ")} ${names.length === 1 ? "is a placeholder" : "are placeholders"}: replace with sourced figures and name the source here before presenting.`;
+
+// --- Plans ---
+
+/** The overview's "why it matters" slide, reframed around what the audience cares about most */
+function audienceFocus({ topic, title, audience }: PlanContext): Omit<TemplateSlide, "type"> {
+  switch (audience) {
+    case "executives":
+      return {
+        heading: `Business Impact of ${title}`,
+        description: `What ${topic} means for revenue, cost and risk, the investment it requires and the payback to expect. This section frames the decision leadership needs to make on ${topic}.`,
+        keywords: [topic, "business impact", "investment", "leadership"]
+      };
+    case "engineers":
+      return {
+        heading: `How ${title} Works`,
+        description: `The architecture and main components behind ${topic}, the trade-offs between the common approaches, and what it takes to build, operate and scale ${topic} reliably.`,
+        keywords: [topic, "architecture", "engineering", "systems"]
+      };
+    case "students":
+      return {
+        heading: `Core Concepts of ${title}`,
+        description: `The fundamental ideas behind ${topic}, explained step by step with a worked example, and how these concepts connect to what you already know.`,
+        keywords: [topic, "concepts", "learning", "example"]
+      };
+    default:
+      return {
+        heading: `Why ${title} Matters`,
+        description: `The value ${topic} offers, who gains from it and what changes for the people involved once it is in place.`,
+        keywords: [topic, "benefits", "value", "impact"]
+      };
+  }
+}
+
+const OVERVIEW_PLAN: SlideIntent[] = [
+  {
+    build: ({ topic, title, domain }, pick) => ({
+      heading: pick([`${title}: An Overview`, `Understanding ${title}`, `${title} at a Glance`]),
+      description: pick([
+        `What ${topic} is, why it is on the agenda in ${domain} today and what it takes to act on it.`,
+        `A short tour of ${topic}: where it stands, why it matters, how it is done and what to watch out for.`
+      ]),
+      keywords: [topic, domain]
+    })
+  },
+  {
+    build: ({ topic, title }, pick) => ({
+      heading: pick([`Where ${title} Stands Today`, `The Landscape of ${title}`, `Why ${title} Is on the Agenda`]),
+      description: pick([
+        `The developments that brought ${topic} to attention, who is involved and what has changed recently.`,
+        `How ${topic} got here: the main players, the recent shifts and the questions still open.`
+      ]),
+      keywords: [topic, "landscape", "trends"]
+    })
+  },
+  { build: context => audienceFocus(context) },
+  {
+    optional: true,
+    variables: [
+      { name: "headlineFigure", description: "The figure that best shows the scale of the topic, with its source" },
+      { name: "growthFigure", description: "How fast it is growing or changing, with its source" }
+    ],
+    build: ({ topic, title }, pick) => ({
+      heading: pick([`${title} by the Numbers`, `The Scale of ${title}`]),
+      description: `Two figures that show how big ${topic} is and where it is heading.`,
+      layout: {
+        kind: "kpi",
+        metrics: [
+          { value: "{{headlineFigure}}", label: `Scale of ${topic}` },
+          { value: "{{growthFigure}}", label: "Growth or change per year" }
+        ]
+      },
+      speakerNotes: placeholderNotes(["headlineFigure", "growthFigure"]),
+      keywords: [topic, "statistics", "data"]
+    })
+  },
+  {
+    build: ({ topic, title }, pick) => ({
+      heading: pick([`Approaches to ${title}`, `Putting ${title} to Work`, `Getting ${title} Right`]),
+      description: pick([
+        `The main ways to approach ${topic}, and what each one asks of the people and systems involved.`,
+        `What a good start on ${topic} looks like and the practices that keep it on track.`
+      ]),
+      bullets: bullets("Start small with a clearly scoped first step", "Agree on how success will be measured", "Plan for the people and skills involved"),
+      keywords: [topic, "approach", "best practices"]
+    })
+  },
+  {
+    optional: true,
+    build: ({ topic, title }, pick) => ({
+      heading: pick([`What Makes ${title} Hard`, `Obstacles to ${title}`, `Risks to Watch`]),
+      description: `The obstacles that most often slow ${topic} down and how to get ahead of each one.`,
+      bullets: bullets("Unclear ownership and goals", "Effort and cost underestimated at the start", "Resistance to changing how work is done"),
+      keywords: [topic, "challenges", "risk"]
+    })
+  },
+  {
+    optional: true,
+    build: ({ topic, title }, pick) => ({
+      heading: pick([`${title} in Practice`, `A Closer Look at ${title}`]),
+      description: `One concrete example of ${topic}: who did it, what they did and what came of it.`,
+      speakerNotes: "Use an example you can name and source; this slide deliberately has no made-up case study.",
+      keywords: [topic, "example", "case study"]
+    })
+  },
+  {
+    build: ({ topic, title }, pick) => ({
+      heading: pick([`Next Steps on ${title}`, "Where to Go From Here", "Key Takeaways"]),
+      description: pick([
+        `The points to remember about ${topic} and the first actions to take.`,
+        `A recap of ${topic} and a short list of what to do next, with owners and dates to agree.`
+      ]),
+      keywords: [topic, "next steps", "action plan"]
+    })
+  }
+];
+
+const HOW_TO_PLAN: SlideIntent[] = [
+  {
+    build: ({ topic, subject, title }, pick) => ({
+      heading: pick([`${title}: A Practical Guide`, `${title}, Step by Step`]),
+      description: `${toSentence(topic)}, from what to prepare to how to check the result.`,
+      keywords: [subject, "guide", "tutorial"]
+    })
+  },
+  {
+    build: ({ subject }, pick) => ({
+      heading: pick(["Before You Start", "What You Need"]),
+      description: "The tools, access and knowledge to have in place before you start.",
+      bullets: bullets("Tools and accounts you need", "Permissions or access to request", "Time to set aside", "What done looks like"),
+      keywords: [subject, "preparation", "checklist"]
+    })
+  },
+  {
+    optional: true,
+    build: ({ subject }) => ({
+      heading: "The Process at a Glance",
+      description: "The stages from start to finish.",
+      layout: {
+        kind: "timeline",
+        events: [
+          { date: "Step 1", title: "Prepare" },
+          { date: "Step 2", title: "Carry out the core work" },
+          { date: "Step 3", title: "Check the result" },
+          { date: "Step 4", title: "Keep it working" }
+        ]
+      },
+      keywords: [subject, "process", "steps"]
+    })
+  },
+  {
+    build: ({ subject }, pick) => ({
+      heading: pick(["Step 1: Prepare", "Step 1: Set Things Up"]),
+      description: "Get the groundwork in place so the main work goes smoothly.",
+      bullets: bullets("Gather what you need", "Set up the environment", "Make a backup or note the starting point"),
+      keywords: [subject, "setup", "preparation"]
+    })
+  },
+  {
+    build: ({ subject }, pick) => ({
+      heading: pick(["Step 2: Do the Core Work", "Step 2: Carry It Out"]),
+      description: "The main part of the job, done one change at a time so each one can be checked.",
+      keywords: [subject, "work", "execution"]
+    })
+  },
+  {
+    build: ({ subject }, pick) => ({
+      heading: pick(["Step 3: Check the Result", "Step 3: Test and Verify"]),
+      description: "How to tell that it worked, and what to look at if it did not.",
+      keywords: [subject, "testing", "verification"]
+    })
+  },
+  {
+    optional: true,
+    build: ({ subject }, pick) => ({
+      heading: pick(["Common Mistakes to Avoid", "Pitfalls and Fixes"]),
+      description: "Where people most often go wrong, and how to recover.",
+      bullets: bullets("Skipping the preparation", "Changing too much at once", "Not checking the result before moving on"),
+      keywords: [subject, "mistakes", "troubleshooting"]
+    })
+  },
+  {
+    build: ({ subject }, pick) => ({
+      heading: pick(["Recap and Checklist", "Your Checklist"]),
+      description: "Every step in one place, to keep at hand next time.",
+      keywords: [subject, "checklist", "summary"]
+    })
+  }
+];
+
+/** The two options in "A vs B", "A or B" or "comparing A and B"; B is "the alternatives" when the topic names one */
+function comparisonOptions(subject: string): [string, string] {
+  const parts = subject.split(/\s+(?:vs\.?|versus|or|compared (?:to|with)|and)\s+/i).map(part => part.trim()).filter(Boolean);
+  return parts.length >= 2 ? [parts[0], parts[1]] : [subject, "the alternatives"];
+}
+
+const COMPARISON_PLAN: SlideIntent[] = [
+  {
+    build: ({ subject }, pick) => {
+      const [a, b] = comparisonOptions(subject);
+      return {
+        heading: pick([`${toSentence(a)} vs ${toSentence(b)}`, `Choosing Between ${toSentence(a)} and ${toSentence(b)}`]),
+        description: `How ${a} and ${b} compare, and which one fits which situation.`,
+        keywords: [a, b, "comparison"]
+      };
+    }
+  },
+  {
+    build: ({ subject }, pick) => ({
+      heading: pick(["What Matters in the Decision", "How We Compared Them"]),
+      description: "The criteria behind the comparison, in order of weight.",
+      bullets: bullets("Fit with what is already in place", "Cost to adopt and to run", "Effort and skills needed", "Risk and long-term support"),
+      keywords: [subject, "criteria", "decision"]
+    })
+  },
+  {
+    optional: true,
+    build: ({ subject }, pick) => {
+      const [a, b] = comparisonOptions(subject);
+      return {
+        heading: pick(["The Options in Brief", "Meet the Options"]),
+        description: "What each option is, where it is strongest and where it falls short.",
+        bullets: [a, b].flatMap(option => [
+          { text: toSentence(option), emphasis: true },
+          { text: "What it is and who it is for", level: 1 },
+          { text: "Where it is strongest", level: 1 },
+          { text: "Where it falls short", level: 1 }
+        ]),
+        keywords: [a, b, "overview"]
+      };
+    }
+  },
+  {
+    variables: [
+      { name: "optionACost", description: "Cost of the first option, with its source" },
+      { name: "optionBCost", description: "Cost of the second option, with its source" }
+    ],
+    build: ({ subject }, pick) => {
+      const [a, b] = comparisonOptions(subject);
+      return {
+        heading: pick(["Side by Side", "Head to Head"]),
+        description: `${toSentence(a)} and ${toSentence(b)} against the same criteria.`,
+        layout: {
+          kind: "comparison",
+          left: { title: toSentence(a), points: ["Fit: to assess", "Cost: {{optionACost}}", "Effort: to assess", "Risk: to assess"] },
+          right: { title: toSentence(b), points: ["Fit: to assess", "Cost: {{optionBCost}}", "Effort: to assess", "Risk: to assess"] }
+        },
+        speakerNotes: placeholderNotes(["optionACost", "optionBCost"]),
+        keywords: [a, b, "comparison"]
+      };
+    }
+  },
+  {
+    optional: true,
+    build: ({ subject }, pick) => {
+      const [a, b] = comparisonOptions(subject);
+      return {
+        heading: pick(["When to Choose Which", "Which One Fits"]),
+        description: `The situations that favour ${a}, and those that favour ${b}.`,
+        keywords: [a, b, "decision"]
+      };
+    }
+  },
+  {
+    build: ({ subject }, pick) => ({
+      heading: pick(["Our Recommendation", "Recommendation and Next Steps"]),
+      description: "The option we recommend, the reasons that decided it and the next steps to take.",
+      keywords: [subject, "recommendation", "decision"]
+    })
+  }
+];
+
+const PITCH_PLAN: SlideIntent[] = [
+  {
+    build: ({ subject, title }, pick) => ({
+      heading: pick([title, `Introducing ${formatTitle(subject)}`]),
+      description: `The problem, our answer to it and why now is the time for ${subject}.`,
+      keywords: [subject, "startup", "vision"]
+    })
+  },
+  {
+    build: ({ subject }, pick) => ({
+      heading: pick(["The Problem", "What's Broken Today"]),
+      description: `Who struggles today, with what, and what it costs them. The need ${subject} answers.`,
+      keywords: [subject, "problem", "customer pain"]
+    })
+  },
+  {
+    build: ({ subject }, pick) => ({
+      heading: pick(["Our Solution", `How ${formatTitle(subject)} Solves It`]),
+      description: `What ${subject} does, for whom, and why it works better than what people do today.`,
+      keywords: [subject, "solution", "product"]
+    })
+  },
+  {
+    variables: [
+      { name: "marketSize", description: "Total addressable market, with its source" },
+      { name: "marketGrowth", description: "Annual growth of the market, with its source" }
+    ],
+    build: ({ subject }, pick) => ({
+      heading: pick(["The Opportunity", "Market Size"]),
+      description: "How large the market is and how fast it is growing.",
+      layout: {
+        kind: "kpi",
+        metrics: [
+          { value: "{{marketSize}}", label: "Total addressable market" },
+          { value: "{{marketGrowth}}", label: "Annual market growth" }
+        ]
+      },
+      speakerNotes: placeholderNotes(["marketSize", "marketGrowth"]),
+      keywords: [subject, "market opportunity", "growth"]
+    })
+  },
+  {
+    optional: true,
+    variables: [
+      { name: "customers", description: "Customers, users or pilots so far" },
+      { name: "revenue", description: "Revenue or signed pipeline so far" }
+    ],
+    build: ({ subject }, pick) => ({
+      heading: pick(["Traction So Far", "Proof It Works"]),
+      description: "What we have shown so far with real customers.",
+      layout: {
+        kind: "kpi",
+        metrics: [
+          { value: "{{customers}}", label: "Customers or pilots" },
+          { value: "{{revenue}}", label: "Revenue or pipeline" }
+        ]
+      },
+      speakerNotes: placeholderNotes(["customers", "revenue"]),
+      keywords: [subject, "traction", "customers"]
+    })
+  },
+  {
+    optional: true,
+    build: ({ subject }, pick) => ({
+      heading: pick(["How We Make Money", "Business Model"]),
+      description: `Who pays for ${subject}, how much and how often, and what it costs to win each customer.`,
+      keywords: [subject, "business model", "pricing"]
+    })
+  },
+  {
+    optional: true,
+    build: ({ subject }) => ({
+      heading: "The Team",
+      description: `The people building ${subject} and why they are the ones to do it.`,
+      keywords: [subject, "team", "founders"]
+    })
+  },
+  {
+    variables: [{ name: "ask", description: "The amount or commitment being asked for" }],
+    build: ({ subject }, pick) => ({
+      heading: pick(["The Ask", "Join Us"]),
+      description: `What we are asking for and what it will let ${subject} achieve.`,
+      layout: { kind: "kpi", metrics: [{ value: "{{ask}}", label: "What we are asking for" }] },
+      speakerNotes: placeholderNotes(["ask"]),
+      keywords: [subject, "investment", "partnership"]
+    })
+  }
+];
+
+const REPORT_PLAN: SlideIntent[] = [
+  {
+    build: ({ title, topic, subject }, pick) => ({
+      heading: pick([title, `${title}: Results and Outlook`]),
+      description: `The results for ${subject}, what drove them and what comes next.`,
+      keywords: [topic, "report", "results"]
+    })
+  },
+  {
+    variables: [
+      { name: "headlineResult", description: "The main result for the period, with its source" },
+      { name: "changeVsLastPeriod", description: "Change versus the previous period" },
+      { name: "targetAttainment", description: "Result against target, e.g. 96% of plan" }
+    ],
+    build: ({ topic }, pick) => ({
+      heading: pick(["Headline Results", "The Period in Numbers"]),
+      description: "The figures that sum up the period.",
+      layout: {
+        kind: "kpi",
+        metrics: [
+          { value: "{{headlineResult}}", label: "Main result", change: "{{changeVsLastPeriod}}" },
+          { value: "{{targetAttainment}}", label: "Against target" }
+        ]
+      },
+      speakerNotes: placeholderNotes(["headlineResult", "changeVsLastPeriod", "targetAttainment"]),
+      keywords: [topic, "results", "metrics"]
+    })
+  },
+  {
+    build: ({ topic, subject }, pick) => ({
+      heading: pick(["What Went Well", "Highlights"]),
+      description: `The wins of the period for ${subject} and what made them possible.`,
+      keywords: [topic, "highlights", "success"]
+    })
+  },
+  {
+    build: ({ topic, subject }, pick) => ({
+      heading: pick(["Where We Fell Short", "Misses and Lessons"]),
+      description: `What did not go to plan for ${subject}, why, and what we are changing.`,
+      keywords: [topic, "lessons learned", "improvement"]
+    })
+  },
+  {
+    optional: true,
+    build: ({ topic }, pick) => ({
+      heading: pick(["What Drove the Results", "Drivers Behind the Numbers"]),
+      description: "The main factors behind the results, inside and outside our control.",
+      keywords: [topic, "drivers", "analysis"]
+    })
+  },
+  {
+    optional: true,
+    build: ({ topic, subject }, pick) => ({
+      heading: pick(["Risks and Issues to Watch", "Open Issues"]),
+      description: `The risks to ${subject} in the next period, with an owner and a mitigation for each.`,
+      keywords: [topic, "risk", "issues"]
+    })
+  },
+  {
+    build: ({ topic, subject }, pick) => ({
+      heading: pick(["Priorities for the Next Period", "Outlook and Next Steps"]),
+      description: `What we will focus on next for ${subject} and the decisions we need.`,
+      keywords: [topic, "priorities", "outlook"]
+    })
+  }
+];
+
+const LESSON_PLAN: SlideIntent[] = [
+  {
+    build: ({ subject }, pick) => ({
+      heading: pick([`Introduction to ${formatTitle(subject)}`, `Learning ${formatTitle(subject)}`]),
+      description: `A first lesson on ${subject}: the key idea, an example worked through together and a chance to try it.`,
+      keywords: [subject, "lesson", "learning"]
+    })
+  },
+  {
+    build: ({ subject }, pick) => ({
+      heading: pick(["What You Will Learn", "Learning Objectives"]),
+      description: "By the end of this lesson you will be able to:",
+      bullets: bullets(`Explain ${subject} in your own words`, "Recognise the key ideas in new examples", "Apply them to a simple problem"),
+      keywords: [subject, "objectives", "classroom"]
+    })
+  },
+  {
+    build: ({ subject }, pick) => ({
+      heading: pick(["The Core Idea", `${formatTitle(subject)}: The Key Concept`]),
+      description: `The one idea that everything else about ${subject} builds on, with the words to describe it.`,
+      keywords: [subject, "concept", "explanation"]
+    })
+  },
+  {
+    build: ({ subject }, pick) => ({
+      heading: pick(["A Worked Example", "Let's Work Through One"]),
+      description: `An example of ${subject} solved step by step, saying why each step is taken.`,
+      keywords: [subject, "example", "problem solving"]
+    })
+  },
+  {
+    optional: true,
+    build: ({ subject }, pick) => ({
+      heading: pick(["Common Misconceptions", "Watch Out For"]),
+      description: `Mistakes learners often make with ${subject}, and how to spot them.`,
+      keywords: [subject, "misconceptions", "mistakes"]
+    })
+  },
+  {
+    optional: true,
+    build: ({ subject }, pick) => ({
+      heading: pick(["Try It Yourself", "Practice Time"]),
+      description: `A few questions on ${subject} to try alone or in pairs before we go through the answers.`,
+      keywords: [subject, "practice", "exercise"]
+    })
+  },
+  {
+    build: ({ subject }, pick) => ({
+      heading: pick(["Recap", "Summary and What's Next"]),
+      description: `What we learned about ${subject} today and what the next lesson builds on.`,
+      keywords: [subject, "summary", "review"]
+    })
+  }
+];
+
+const PLANS: Record<TopicCategory, SlideIntent[]> = {
+  "how-to": HOW_TO_PLAN,
+  comparison: COMPARISON_PLAN,
+  pitch: PITCH_PLAN,
+  report: REPORT_PLAN,
+  lesson: LESSON_PLAN,
+  overview: OVERVIEW_PLAN
+};
+
+// Cue words removed from the topic to get its subject, e.g. "compare" in "compare AWS and Azure"
+const SUBJECT_PREFIXES = /^(?:how to|how do (?:i|we|you)|compar(?:e|ing|ison of)|differences? between|pros and cons of|(?:investor )?pitch(?: deck)?(?: for)?|intro(?:duction)? to|understanding|what (?:is|are))\s+/i;
+const SUBJECT_SUFFIXES = /\s+(?:for (?:beginners|students|kids)|101|basics|fundamentals|explained|(?:investor )?pitch(?: deck)?|results|report|review|update|status)$/i;
+// Possessives dropped from the subject, e.g. "our" in "our seed round pitch"
+const SUBJECT_POSSESSIVES = /^(?:our|my|your|their)\s+/i;
+
+/**
+ * The topic without its cue words and leading possessive, cased to sit mid-sentence: the
+ * first word is lower-cased, and every word of a title-cased topic. Words with capitals of
+ * their own, like "AWS", keep them (the rule formatTitle uses), and so do capitalised names
+ * in a sentence-cased topic, like "Azure" in "compare AWS and Azure" or "Python" in
+ * "Introduction to Python".
+ */
+function toSubject(topic: string): string {
+  const words = topic.trim().split(/\s+/);
+  const longWords = words.slice(1).filter(word => word.length > 3);
+  const titleCased = longWords.length > 1 && longWords.every(word => !/^[a-z]/.test(word));
+  const cased = words
+    .map((word, index) => (/[A-Z]/.test(word.slice(1)) || (index > 0 && !titleCased) ? word : word.toLowerCase()))
+    .join(" ");
+  return cased
+    .replace(/[?.!]+$/, "")
+    .replace(SUBJECT_PREFIXES, "")
+    .replace(SUBJECT_SUFFIXES, "")
+    .replace(SUBJECT_POSSESSIVES, "") || cased;
+}
+
+/**
+ * Picks the slides for the topic's category. The first and last intents become the intro
+ * and closing slides; optional intents are dropped, last first, when the deck is shorter
+ * than the plan.
+ */
+export function planDeck(topic: string, options: PlanOptions): PlannedDeck {
+  const audience = options.audience ?? "general";
+  const category = options.category ?? detectTopicCategory(topic, audience);
+  const context: PlanContext = {
+    topic,
+    title: formatTitle(topic),
+    subject: toSubject(topic),
+    domain: options.domain,
+    audience,
+    seed: hashTopic(topic)
+  };
+
+  const plan = PLANS[category];
+  const [intro, outro] = [plan[0], plan[plan.length - 1]];
+  const body = plan.slice(1, -1);
+  const contentCount = Math.max(0, options.count - 2);
+  while (body.length > contentCount && body.some(intent => intent.optional)) {
+    body.splice(body.map(intent => !!intent.optional).lastIndexOf(true), 1);
+  }
+  const intents = [intro, ...body.slice(0, contentCount), outro];
+
+  const slides = intents.map((intent, index): TemplateSlide => {
+    // Each slide rotates through its phrasings from a different point, so a topic's
+    // slides do not all take the first or the second option
+    let call = 0;
+    const pick = <T>(choices: T[]) => choices[(context.seed + index * 7 + call++ * 3) % choices.length];
+    const slide = intent.build(context, pick);
+    return {
+      ...slide,
+      type: index === 0 ? "intro" : index === intents.length - 1 ? "outro" : "content",
+      description: index === 0 && options.notice ? `${slide.description} ${options.notice}` : slide.description,
+      keywords: [...(slide.keywords ?? []), ...(options.keywords ?? [])]
+    };
+  });
+
+  return {
+    category,
+    domain: options.domain,
+    topic,
+    title: category === "overview" ? `Presentation on ${context.title}` : slides[0].heading,
+    variables: intents.flatMap(intent => intent.variables ?? []),
+    slides
+  };
+}
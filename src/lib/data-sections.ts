@@ -0,0 +1,60 @@
+/**
+ * @file data-sections.ts
+ * @description Deck sections built from data services instead of model-written numbers
+ *
+ * A DataSection reads from a service (see src/services) and turns the result into slides.
+ * createDataSectionTool wraps it as a Tambo tool: the assistant only chooses the options,
+ * every number on the slides comes from the service. The slides are returned for a new
+ * presentation, or inserted into the one on screen when `insertAt` is given.
+ *
+ * To plug in another data service, implement a DataSection next to demographics-section.ts
+ * and add `createDataSectionTool(yourSection)` to the tools in tambo.ts.
+ */
+
+import type { TamboTool } from "@tambo-ai/react";
+import { z } from "zod";
+import { getActiveDeck } from "@/lib/active-deck";
+import { insertSlide } from "@/lib/deck-operations";
+import { slideSchema, type SlideContent } from "@/lib/slides";
+
+export interface DataSection<Schema extends z.AnyZodObject> {
+  /** Tool name the assistant calls, e.g. "add-demographics-section" */
+  name: string;
+  description: string;
+  /** Options the assistant may set; the data itself is never an argument */
+  optionsSchema: Schema;
+  buildSlides: (options: z.infer<Schema>) => Promise<SlideContent[]>;
+}
+
+const insertAtSchema = z.number().int().optional()
+  .describe(
+    "Position (0-based) to insert the section into the presentation currently on screen. " +
+    "Omit to only return the slides, e.g. to build a new presentation from them"
+  );
+
+export function createDataSectionTool<Schema extends z.AnyZodObject>(section: DataSection<Schema>): TamboTool {
+  return {
+    name: section.name,
+    description: section.description,
+    tool: async (params: z.infer<Schema> & { insertAt?: number }) => {
+      const { insertAt, ...options } = params;
+      const slides = await section.buildSlides(options as z.infer<Schema>);
+
+      if (insertAt === undefined) {
+        return { slides };
+      }
+
+      getActiveDeck().updateDeck(
+        current => slides.reduce((deck, slide, offset) => insertSlide(deck, insertAt + offset, slide), current),
+        { source: section.name, focusSlide: insertAt }
+      );
+      return { slides, insertedAt: insertAt };
+    },
+    toolSchema: z.function()
+      .args(section.optionsSchema.extend({ insertAt: insertAtSchema }))
+      .returns(z.object({
+        slides: z.array(slideSchema),
+        insertedAt: z.number().optional()
+      }))
+  };
+}
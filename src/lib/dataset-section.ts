@@ -0,0 +1,50 @@
+/**
+ * @file dataset-section.ts
+ * @description Chart and table slides built from a spreadsheet attached in the chat
+ *
+ * The assistant picks the columns and the view for each slide; the figures are read from
+ * the attached dataset (see datasets.ts), and every slide keeps its binding so it is
+ * re-rendered from the data when the binding is edited later.
+ */
+
+import { z } from "zod";
+import type { DataSection } from "@/lib/data-sections";
+import {
+  datasetBindingSchema,
+  getSessionDataset,
+  renderBoundSlide
+} from "@/lib/datasets";
+import type { SlideContent } from "@/lib/slides";
+
+const datasetSlideSchema = datasetBindingSchema.omit({ datasetId: true }).extend({
+  heading: z.string().describe("Slide heading"),
+  description: z.string().optional().describe("One or two sentences on what the data shows"),
+  speakerNotes: z.string().optional()
+});
+
+const datasetSlidesOptionsSchema = z.object({
+  datasetId: z.string().describe("Id of the attached dataset, from the message context"),
+  slides: z.array(datasetSlideSchema).min(1).describe("Slides to build from the dataset, in order")
+});
+
+export const datasetSlidesSection: DataSection<typeof datasetSlidesOptionsSchema> = {
+  name: "create-dataset-slides",
+  description: "Build chart and table slides from a CSV or XLSX file the user attached. Choose the columns, chart type, grouping, sorting and row limit for each slide; the numbers are filled in from the file. Use it instead of copying values from the dataset yourself",
+  optionsSchema: datasetSlidesOptionsSchema,
+  buildSlides: async ({ datasetId, slides }) => {
+    const dataset = getSessionDataset(datasetId);
+    if (!dataset) {
+      throw new Error(`No attached dataset with id "${datasetId}". Ask the user to attach the file again.`);
+    }
+
+    return slides.map(({ heading, description, speakerNotes, ...binding }): SlideContent =>
+      renderBoundSlide({
+        type: "content",
+        heading,
+        description: description ?? "",
+        speakerNotes: speakerNotes ?? `Source: ${dataset.name} (${dataset.rows.length} rows).`,
+        dataBinding: { datasetId, ...binding }
+      }, dataset)
+    );
+  }
+};
@@ -0,0 +1,391 @@
+/**
+ * @file datasets.ts
+ * @description Spreadsheet datasets and the chart/table slides bound to them
+ *
+ * A CSV or XLSX file attached in the chat is parsed in the browser into a Dataset with
+ * inferred column types. Slides built from it carry a `dataBinding` (which columns, how
+ * to sort, group and limit) instead of numbers written by the model; the dataset itself
+ * is stored in the deck, so bound charts and tables are re-rendered from the raw data
+ * whenever a binding changes.
+ */
+
+import { z } from "zod";
+import type { GraphDataType } from "@/lib/graph-data";
+import type { SlideTable, TableColumnType } from "@/lib/slide-tables";
+import type { Deck, SlideContent } from "@/lib/slides";
+
+export const DATASET_COLUMN_TYPES = ["number", "currency", "percent", "date", "text"] as const;
+
+export type DatasetColumnType = (typeof DATASET_COLUMN_TYPES)[number];
+
+export const datasetCellSchema = z.union([z.string(), z.number(), z.null()]);
+
+export const datasetSchema = z.object({
+  id: z.string(),
+  name: z.string().describe("File name the data came from"),
+  columns: z.array(z.object({
+    name: z.string(),
+    type: z.enum(DATASET_COLUMN_TYPES)
+  })),
+  rows: z.array(z.array(datasetCellSchema)),
+  importedAt: z.string()
+});
+
+export type Dataset = z.infer<typeof datasetSchema>;
+export type DatasetCell = z.infer<typeof datasetCellSchema>;
+
+export const datasetBindingSchema = z.object({
+  datasetId: z.string().describe("Id of an attached dataset"),
+  view: z.enum(["chart", "table"]),
+  chartType: z.enum(["bar", "line", "pie"]).optional().describe("Chart type (default: bar)"),
+  labelColumn: z.string().optional()
+    .describe("Column for the chart's categories or x-axis (default: the first text or date column)"),
+  valueColumns: z.array(z.string()).optional()
+    .describe("Numeric columns plotted as series (default: up to three numeric columns); a pie uses the first"),
+  aggregate: z.enum(["sum", "average", "count"]).optional()
+    .describe("Group rows with the same label and combine their values, e.g. sales per region"),
+  columns: z.array(z.string()).optional().describe("Table columns to show, in order (default: all)"),
+  sortBy: z.string().optional().describe("Column to sort by"),
+  sortOrder: z.enum(["asc", "desc"]).optional(),
+  limit: z.number().int().min(1).optional().describe("Keep only the first rows after sorting, e.g. top 10")
+}).describe("Binds a chart or table to an attached dataset; the data is filled in from the dataset, and changing the binding re-renders it");
+
+export type DatasetBinding = z.infer<typeof datasetBindingSchema>;
+
+/** Larger files are cut off so decks (which store their datasets) stay small */
+export const MAX_DATASET_ROWS = 5000;
+
+const DATASET_FILE_EXTENSIONS = [".csv", ".tsv", ".xlsx"];
+
+export const DATASET_FILE_ACCEPT = DATASET_FILE_EXTENSIONS.join(",");
+
+export function isDatasetFile(fileName: string): boolean {
+  return DATASET_FILE_EXTENSIONS.includes(fileName.slice(fileName.lastIndexOf(".")).toLowerCase());
+}
+
+// --- Parsing ---
+
+/**
+ * Parses delimited text (RFC 4180 quoting). The delimiter is whichever of comma,
+ * semicolon or tab appears most often in the first line.
+ */
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.slice(0, text.indexOf("\n") === -1 ? undefined : text.indexOf("\n"));
+  const delimiter = [",", ";", "\t"]
+    .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ""));
+}
+
+const PERCENT_PATTERN = /^[-+]?\d[\d,]*(\.\d+)?\s?%$/;
+const CURRENCY_PATTERN = /^[-+]?[$€£¥]\s?\d[\d,]*(\.\d+)?$|^[-+]?\d[\d,]*(\.\d+)?\s?[$€£¥]$/;
+const NUMBER_PATTERN = /^[-+]?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$|^[-+]?\.\d+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2})?)?$|^\d{1,2}[/.]\d{1,2}[/.]\d{2,4}$/;
+
+const toNumber = (value: string) => Number(value.replace(/[$€£¥,%\s]/g, ""));
+
+/**
+ * Picks the most specific type every non-empty value of a column fits. Numbers that
+ * already are numbers (from XLSX) count as plain numbers.
+ */
+export function inferColumnType(values: DatasetCell[]): DatasetColumnType {
+  const present = values.filter((value): value is string | number => value !== null && value !== "");
+  if (present.length === 0) return "text";
+
+  const fits = (test: (value: string) => boolean) =>
+    present.every(value => typeof value === "string" && test(value.trim()));
+
+  if (present.every(value => typeof value === "number" || NUMBER_PATTERN.test(value.trim()))) return "number";
+  if (fits(value => PERCENT_PATTERN.test(value))) return "percent";
+  if (fits(value => CURRENCY_PATTERN.test(value))) return "currency";
+  if (fits(value => DATE_PATTERN.test(value))) return "date";
+  return "text";
+}
+
+function convertCell(value: DatasetCell, type: DatasetColumnType): DatasetCell {
+  if (value === null || value === "") return null;
+  if (typeof value === "number") return value;
+
+  switch (type) {
+    case "number":
+    case "currency":
+      return toNumber(value);
+    case "percent":
+      // Stored as a fraction, like the table block's percent columns
+      return toNumber(value) / 100;
+    default:
+      return value.trim();
+  }
+}
+
+/**
+ * Builds a dataset from parsed rows. The first row holds the column names.
+ */
+export function createDataset(name: string, rawRows: DatasetCell[][]): Dataset {
+  const [headerRow = [], ...bodyRows] = rawRows;
+  if (bodyRows.length === 0) {
+    throw new Error(`${name} has no data rows below its header row.`);
+  }
+
+  const width = Math.max(headerRow.length, ...bodyRows.map(row => row.length));
+  const seen = new Map<string, number>();
+  const names = Array.from({ length: width }, (_, index) => {
+    const base = String(headerRow[index] ?? "").trim() || `Column ${index + 1}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base} (${count})`;
+  });
+
+  const rows = bodyRows.slice(0, MAX_DATASET_ROWS).map(row =>
+    Array.from({ length: width }, (_, index) => row[index] ?? null)
+  );
+  const columns = names.map((columnName, index) => ({
+    name: columnName,
+    type: inferColumnType(rows.map(row => row[index]))
+  }));
+
+  return {
+    id: crypto.randomUUID().slice(0, 8),
+    name,
+    columns,
+    rows: rows.map(row => row.map((value, index) => convertCell(value, columns[index].type))),
+    importedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Reads a CSV, TSV or XLSX file chosen by the user. Everything happens in the browser.
+ */
+export async function parseDatasetFile(file: File): Promise<Dataset> {
+  if (!isDatasetFile(file.name)) {
+    throw new Error(`${file.name} is not a supported spreadsheet. Attach a CSV or XLSX file.`);
+  }
+
+  if (file.name.toLowerCase().endsWith(".xlsx")) {
+    const { readXlsxRows } = await import("@/lib/xlsx-reader");
+    // The header row plus the rows a dataset keeps
+    return createDataset(file.name, await readXlsxRows(await file.arrayBuffer(), MAX_DATASET_ROWS + 1));
+  }
+  return createDataset(file.name, parseCsv(await file.text()));
+}
+
+/**
+ * What the assistant is told about an attached dataset: its shape and a few rows.
+ */
+export function describeDataset(dataset: Dataset, sampleSize = 5) {
+  return {
+    datasetId: dataset.id,
+    name: dataset.name,
+    rowCount: dataset.rows.length,
+    columns: dataset.columns,
+    sampleRows: dataset.rows.slice(0, sampleSize)
+  };
+}
+
+// --- Datasets attached in this browser session ---
+
+const sessionDatasets = new Map<string, Dataset>();
+
+export function addSessionDataset(dataset: Dataset) {
+  sessionDatasets.set(dataset.id, dataset);
+}
+
+export function getSessionDataset(id: string): Dataset | undefined {
+  return sessionDatasets.get(id);
+}
+
+// --- Rendering bound slides ---
+
+function columnPosition(dataset: Dataset, name: string): number {
+  const index = dataset.columns.findIndex(column => column.name.toLowerCase() === name.toLowerCase());
+  if (index === -1) {
+    throw new Error(
+      `Column "${name}" is not in ${dataset.name}. Available columns: ${dataset.columns.map(column => column.name).join(", ")}.`
+    );
+  }
+  return index;
+}
+
+const isNumeric = (type: DatasetColumnType) => type === "number" || type === "currency" || type === "percent";
+
+function compareCells(a: DatasetCell, b: DatasetCell): number {
+  if (a === null) return b === null ? 0 : 1;
+  if (b === null) return -1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * Groups rows by the label column and combines every other numeric column.
+ */
+function aggregateRows(
+  dataset: Dataset,
+  rows: DatasetCell[][],
+  labelIndex: number,
+  method: NonNullable<DatasetBinding["aggregate"]>
+): DatasetCell[][] {
+  const groups = new Map<string, DatasetCell[][]>();
+  for (const row of rows) {
+    const key = String(row[labelIndex] ?? "");
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+
+  return Array.from(groups, ([label, members]) => dataset.columns.map((column, index) => {
+    if (index === labelIndex) return label;
+    if (method === "count") return isNumeric(column.type) ? members.length : null;
+    if (!isNumeric(column.type)) return null;
+    const values = members.map(row => row[index]).filter((value): value is number => typeof value === "number");
+    const sum = values.reduce((total, value) => total + value, 0);
+    return method === "sum" ? sum : values.length > 0 ? sum / values.length : null;
+  }));
+}
+
+function selectRows(dataset: Dataset, binding: DatasetBinding, labelIndex: number | null): DatasetCell[][] {
+  let rows = dataset.rows;
+  if (binding.aggregate && labelIndex !== null) {
+    rows = aggregateRows(dataset, rows, labelIndex, binding.aggregate);
+  }
+  if (binding.sortBy) {
+    const sortIndex = columnPosition(dataset, binding.sortBy);
+    const direction = binding.sortOrder === "desc" ? -1 : 1;
+    rows = [...rows].sort((a, b) => compareCells(a[sortIndex], b[sortIndex]) * direction);
+  }
+  return binding.limit ? rows.slice(0, binding.limit) : rows;
+}
+
+const TABLE_TYPES: Record<DatasetColumnType, TableColumnType> = {
+  number: "number",
+  currency: "currency",
+  percent: "percent",
+  date: "text",
+  text: "text"
+};
+
+export function renderDatasetChart(dataset: Dataset, binding: DatasetBinding): GraphDataType {
+  const labelIndex = binding.labelColumn
+    ? columnPosition(dataset, binding.labelColumn)
+    : Math.max(0, dataset.columns.findIndex(column => !isNumeric(column.type)));
+
+  const valueIndexes = binding.valueColumns?.length
+    ? binding.valueColumns.map(name => columnPosition(dataset, name))
+    : dataset.columns
+      .map((column, index) => (isNumeric(column.type) && index !== labelIndex ? index : -1))
+      .filter(index => index !== -1)
+      .slice(0, 3);
+  if (valueIndexes.length === 0) {
+    throw new Error(`${dataset.name} has no numeric column to chart.`);
+  }
+
+  const rows = selectRows(dataset, binding, labelIndex);
+  const type = binding.chartType ?? "bar";
+  return {
+    type,
+    labels: rows.map(row => String(row[labelIndex] ?? "")),
+    datasets: (type === "pie" ? valueIndexes.slice(0, 1) : valueIndexes).map(index => {
+      // Percentages are stored as fractions but charted as 0-100
+      const percent = dataset.columns[index].type === "percent";
+      return {
+        label: percent ? `${dataset.columns[index].name} (%)` : dataset.columns[index].name,
+        data: rows.map(row => (typeof row[index] === "number" ? (row[index] as number) * (percent ? 100 : 1) : 0))
+      };
+    })
+  };
+}
+
+export function renderDatasetTable(dataset: Dataset, binding: DatasetBinding): SlideTable {
+  const indexes = binding.columns?.length
+    ? binding.columns.map(name => columnPosition(dataset, name))
+    : dataset.columns.map((_, index) => index);
+  const labelIndex = binding.aggregate ? indexes[0] ?? null : null;
+  const rows = selectRows(dataset, binding, labelIndex);
+
+  return {
+    columns: indexes.map(index => ({
+      header: dataset.columns[index].name,
+      type: TABLE_TYPES[dataset.columns[index].type]
+    })),
+    rows: rows.map(row => indexes.map(index => row[index] ?? "")),
+    caption: `Source: ${dataset.name}`
+  };
+}
+
+/**
+ * Fills a bound slide's chart or table from its dataset.
+ */
+export function renderBoundSlide(slide: SlideContent, dataset: Dataset): SlideContent {
+  const binding = slide.dataBinding;
+  if (!binding) return slide;
+  return binding.view === "chart"
+    ? { ...slide, chart: renderDatasetChart(dataset, binding), table: undefined }
+    : { ...slide, table: renderDatasetTable(dataset, binding), chart: undefined };
+}
+
+/**
+ * Keeps a deck's bound slides in step with their data: datasets attached in this session
+ * are copied into the deck the first time a slide uses them, and every bound slide is
+ * re-rendered from its dataset. Slides whose binding no longer fits the data keep their
+ * last rendering.
+ */
+export function syncDatasetSlides(deck: Deck): Deck {
+  const bound = deck.slides.filter(slide => slide.dataBinding);
+  if (bound.length === 0) return deck;
+
+  const datasets = [...(deck.datasets ?? [])];
+  for (const slide of bound) {
+    const id = slide.dataBinding!.datasetId;
+    const sessionDataset = getSessionDataset(id);
+    if (!datasets.some(dataset => dataset.id === id) && sessionDataset) {
+      datasets.push(sessionDataset);
+    }
+  }
+
+  const slides = deck.slides.map(slide => {
+    const dataset = slide.dataBinding && datasets.find(candidate => candidate.id === slide.dataBinding!.datasetId);
+    if (!dataset) return slide;
+    try {
+      return renderBoundSlide(slide, dataset);
+    } catch (error) {
+      console.error(`Could not render "${slide.heading}" from ${dataset.name}:`, error);
+      return slide;
+    }
+  });
+
+  return { ...deck, slides, datasets: datasets.length > 0 ? datasets : undefined };
+}
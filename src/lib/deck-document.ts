@@ -0,0 +1,182 @@
+/**
+ * @file deck-document.ts
+ * @description Versioned, portable deck file format (.deck.json)
+ *
+ * Decks are saved as self-describing documents so they can be checked into git and
+ * reloaded later. Every document carries a `schemaVersion`; when the format changes,
+ * bump DECK_SCHEMA_VERSION, add the new schema and register a migration from the
+ * previous version in `migrations`. Older files are upgraded step by step on import.
+ */
+
+import { z } from "zod";
+import { datasetSchema } from "@/lib/datasets";
+import { SLIDE_THEMES, slideSchema, type Deck } from "@/lib/slides";
+
+export const DECK_SCHEMA_VERSION = 2;
+
+export const DECK_FILE_EXTENSION = "deck.json";
+
+const deckMetadataSchema = z.object({
+  createdAt: z.string().describe("ISO timestamp when the deck was first created"),
+  updatedAt: z.string().describe("ISO timestamp of the last change"),
+  domain: z.string().optional().describe("Domain the deck was generated for, e.g. business"),
+  tags: z.array(z.string()).optional(),
+  description: z.string().optional()
+});
+
+const deckGeneratorSchema = z.object({
+  source: z.enum(["assistant", "import", "user"])
+    .describe("Who produced the deck: the chat assistant, a file import or a person"),
+  app: z.string().describe("Application that wrote the document"),
+  tool: z.string().optional().describe("Tool that produced the content, e.g. generate-presentation"),
+  model: z.string().optional(),
+  generatedAt: z.string()
+});
+
+export const deckDocumentSchema = z.object({
+  schemaVersion: z.literal(DECK_SCHEMA_VERSION),
+  title: z.string(),
+  theme: z.enum(SLIDE_THEMES).optional(),
+  slides: z.array(slideSchema),
+  datasets: z.array(datasetSchema).optional()
+    .describe("Spreadsheet data that bound chart and table slides are rendered from"),
+  metadata: deckMetadataSchema,
+  generator: deckGeneratorSchema
+});
+
+export type DeckDocument = z.infer<typeof deckDocumentSchema>;
+export type DeckMetadata = z.infer<typeof deckMetadataSchema>;
+export type DeckGenerator = z.infer<typeof deckGeneratorSchema>;
+
+const APP_NAME = "chatDeck";
+
+type RawDocument = Record<string, unknown>;
+
+const LEGACY_BULLET_PATTERN = /^\s*•\s*/;
+
+/**
+ * Before slides had a `bullets` field, bullet points were appended to the description as
+ * a "Key Points:" header followed by "• " lines. Moves those lines into real bullets.
+ */
+function extractLegacyBullets(slide: RawDocument): RawDocument {
+  if (typeof slide.description !== "string" || slide.bullets !== undefined) return slide;
+
+  const lines = slide.description.split("\n");
+  let start = lines.length;
+  while (start > 0 && (LEGACY_BULLET_PATTERN.test(lines[start - 1]) || !lines[start - 1].trim())) {
+    start -= 1;
+  }
+  const bullets = lines.slice(start)
+    .filter(line => LEGACY_BULLET_PATTERN.test(line))
+    .map(line => ({ text: line.replace(LEGACY_BULLET_PATTERN, "").trim() }))
+    .filter(bullet => bullet.text);
+  if (bullets.length === 0) return slide;
+
+  const rest = lines.slice(0, start);
+  if (rest[rest.length - 1]?.trim() === "Key Points:") {
+    rest.pop();
+  }
+  return { ...slide, description: rest.join("\n").trimEnd(), bullets };
+}
+
+/**
+ * Migrations keyed by the version they upgrade *from*. Version 0 is the unversioned
+ * `{ title, theme, slides }` blob produced by the Share menu before documents existed.
+ */
+const migrations: Record<number, (document: RawDocument) => RawDocument> = {
+  0: document => {
+    const now = new Date().toISOString();
+    return {
+      ...document,
+      schemaVersion: 1,
+      metadata: { createdAt: now, updatedAt: now },
+      generator: { source: "import", app: APP_NAME, generatedAt: now }
+    };
+  },
+  1: document => ({
+    ...document,
+    schemaVersion: 2,
+    slides: Array.isArray(document.slides)
+      ? document.slides.map(slide =>
+        typeof slide === "object" && slide !== null ? extractLegacyBullets(slide as RawDocument) : slide
+      )
+      : document.slides
+  })
+};
+
+export function createDeckDocument(
+  deck: Deck,
+  options: { source: DeckGenerator["source"]; tool?: string; domain?: string }
+): DeckDocument {
+  const now = new Date().toISOString();
+  return {
+    schemaVersion: DECK_SCHEMA_VERSION,
+    title: deck.title,
+    theme: deck.theme,
+    slides: deck.slides,
+    datasets: deck.datasets,
+    metadata: {
+      createdAt: now,
+      updatedAt: now,
+      domain: options.domain
+    },
+    generator: {
+      source: options.source,
+      app: APP_NAME,
+      tool: options.tool,
+      generatedAt: now
+    }
+  };
+}
+
+/**
+ * Upgrades a parsed document of any known version to the current schema and validates it.
+ */
+export function migrateDeckDocument(raw: unknown): DeckDocument {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error("Deck file must contain a JSON object.");
+  }
+
+  let document = raw as RawDocument;
+  let version = typeof document.schemaVersion === "number" ? document.schemaVersion : 0;
+
+  if (version > DECK_SCHEMA_VERSION) {
+    throw new Error(
+      `Deck file uses schema version ${version}, but this app only supports up to version ${DECK_SCHEMA_VERSION}. Please update the app.`
+    );
+  }
+
+  while (version < DECK_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration available from deck schema version ${version}.`);
+    }
+    document = migrate(document);
+    version += 1;
+  }
+
+  const result = deckDocumentSchema.safeParse(document);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid deck file: ${issue.path.join(".") || "document"} ${issue.message.toLowerCase()}`);
+  }
+  return result.data;
+}
+
+export function parseDeckDocument(json: string): DeckDocument {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("Deck file is not valid JSON.");
+  }
+  return migrateDeckDocument(raw);
+}
+
+export function serializeDeckDocument(document: DeckDocument): string {
+  return JSON.stringify(document, null, 2);
+}
+
+export function toDeck(document: DeckDocument): Deck {
+  return { title: document.title, theme: document.theme, slides: document.slides, datasets: document.datasets };
+}
@@ -0,0 +1,134 @@
+/**
+ * @file deck-history.ts
+ * @description Undo/redo history for deck changes
+ *
+ * Every change to a deck's content is recorded as a full snapshot together with who made
+ * it (the user, a tool name, the assistant or an import). Undo and redo move through the
+ * snapshots; reverting to an older version records it as a new change so nothing is lost.
+ */
+
+import { useCallback, useRef, useState } from "react";
+import type { Deck } from "@/lib/slides";
+
+export interface DeckHistoryEntry {
+  id: string;
+  deck: Deck;
+  /** Who made the change: "user", "import", "assistant" or a tool name */
+  source: string;
+  /** Optional description shown in the timeline instead of the source */
+  label?: string;
+  createdAt: number;
+}
+
+export interface DeckHistoryState {
+  entries: DeckHistoryEntry[];
+  /** Index of the entry currently shown */
+  index: number;
+}
+
+export interface RecordOptions {
+  label?: string;
+  /**
+   * Fold the change into the current entry when that entry has the same source and is
+   * recent, e.g. while a streamed presentation arrives in many small updates.
+   */
+  coalesce?: boolean;
+}
+
+const MAX_ENTRIES = 100;
+const COALESCE_WINDOW_MS = 2000;
+
+const isSameDeck = (a: Deck, b: Deck) => JSON.stringify(a) === JSON.stringify(b);
+
+function createEntry(deck: Deck, source: string, label?: string): DeckHistoryEntry {
+  return { id: crypto.randomUUID(), deck, source, label, createdAt: Date.now() };
+}
+
+export function createDeckHistory(deck: Deck, source: string, label?: string): DeckHistoryState {
+  return { entries: [createEntry(deck, source, label)], index: 0 };
+}
+
+/**
+ * Adds a change after the current entry, dropping any undone entries after it.
+ * Changes that leave the deck as it is are ignored.
+ */
+export function recordDeckChange(
+  state: DeckHistoryState,
+  deck: Deck,
+  source: string,
+  options: RecordOptions = {}
+): DeckHistoryState {
+  const current = state.entries[state.index];
+  if (isSameDeck(current.deck, deck)) return state;
+
+  const kept = state.entries.slice(0, state.index + 1);
+  if (
+    options.coalesce &&
+    state.index > 0 &&
+    current.source === source &&
+    Date.now() - current.createdAt < COALESCE_WINDOW_MS
+  ) {
+    kept[kept.length - 1] = { ...current, deck, createdAt: Date.now() };
+    return { entries: kept, index: kept.length - 1 };
+  }
+
+  const entries = [...kept, createEntry(deck, source, options.label)].slice(-MAX_ENTRIES);
+  return { entries, index: entries.length - 1 };
+}
+
+/**
+ * Records an older version again as the newest change.
+ */
+export function revertDeckHistory(state: DeckHistoryState, id: string): DeckHistoryState {
+  const position = state.entries.findIndex(entry => entry.id === id);
+  if (position === -1) {
+    throw new Error(`Version ${id} is not in the history`);
+  }
+  return recordDeckChange(state, state.entries[position].deck, "user", {
+    label: `Reverted to version ${position + 1}`
+  });
+}
+
+/**
+ * React binding for the history. Reads go through a ref so undo/redo can return the
+ * restored deck synchronously to the caller.
+ */
+export function useDeckHistory(initialDeck: Deck, initialSource: string) {
+  const [state, setState] = useState(() => createDeckHistory(initialDeck, initialSource, "Initial version"));
+  const stateRef = useRef(state);
+
+  const update = useCallback((next: DeckHistoryState) => {
+    stateRef.current = next;
+    setState(next);
+    return next.entries[next.index].deck;
+  }, []);
+
+  const record = useCallback((deck: Deck, source: string, options?: RecordOptions) => {
+    update(recordDeckChange(stateRef.current, deck, source, options));
+  }, [update]);
+
+  const undo = useCallback((): Deck | null => {
+    const { index } = stateRef.current;
+    return index > 0 ? update({ ...stateRef.current, index: index - 1 }) : null;
+  }, [update]);
+
+  const redo = useCallback((): Deck | null => {
+    const { entries, index } = stateRef.current;
+    return index < entries.length - 1 ? update({ ...stateRef.current, index: index + 1 }) : null;
+  }, [update]);
+
+  const revertTo = useCallback((id: string): Deck => {
+    return update(revertDeckHistory(stateRef.current, id));
+  }, [update]);
+
+  return {
+    entries: state.entries,
+    index: state.index,
+    canUndo: state.index > 0,
+    canRedo: state.index < state.entries.length - 1,
+    record,
+    undo,
+    redo,
+    revertTo
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * @file deck-library.ts
+ * @description Persistent storage for saved decks
+ *
+ * UI code talks to the DeckLibrary interface only. The default implementation keeps
+ * decks in the browser's IndexedDB; a server-backed implementation (e.g. fetch calls
+ * to an API route) can replace it by changing what getDeckLibrary() returns.
+ */
+
+import { migrateDeckDocument, type DeckDocument } from "@/lib/deck-document";
+
+export interface SavedDeck {
+  id: string;
+  document: DeckDocument;
+}
+
+export interface DeckLibrary {
+  /** All saved decks, most recently updated first */
+  list(): Promise<SavedDeck[]>;
+  get(id: string): Promise<SavedDeck | null>;
+  /** Inserts or replaces a deck and stamps its updatedAt time */
+  save(deck: SavedDeck): Promise<SavedDeck>;
+  delete(id: string): Promise<void>;
+}
+
+const DB_NAME = "chatDeck";
+const DB_VERSION = 1;
+const STORE_NAME = "decks";
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(STORE_NAME)) {
+      db.createObjectStore(STORE_NAME, { keyPath: "id" });
+    }
+  };
+  return requestToPromise(request);
+}
+
+/**
+ * Stored documents may predate the current schema; upgrade them as they are read.
+ */
+function upgradeSavedDeck(deck: SavedDeck): SavedDeck {
+  return { ...deck, document: migrateDeckDocument(deck.document) };
+}
+
+export function createIndexedDbDeckLibrary(): DeckLibrary {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    dbPromise ??= openDatabase();
+    const db = await dbPromise;
+    const store = db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    return requestToPromise(run(store));
+  };
+
+  return {
+    async list() {
+      const stored = await withStore<SavedDeck[]>("readonly", store => store.getAll());
+      const decks = stored.flatMap(deck => {
+        try {
+          return [upgradeSavedDeck(deck)];
+        } catch (error) {
+          console.error(`Skipping saved deck ${deck.id}:`, error);
+          return [];
+        }
+      });
+      return decks.sort((a, b) =>
+        b.document.metadata.updatedAt.localeCompare(a.document.metadata.updatedAt)
+      );
+    },
+
+    async get(id) {
+      const deck = await withStore<SavedDeck | undefined>("readonly", store => store.get(id));
+      return deck ? upgradeSavedDeck(deck) : null;
+    },
+
+    async save(deck) {
+      const saved: SavedDeck = {
+        ...deck,
+        document: {
+          ...deck.document,
+          metadata: { ...deck.document.metadata, updatedAt: new Date().toISOString() }
+        }
+      };
+      await withStore("readwrite", store => store.put(saved));
+      return saved;
+    },
+
+    async delete(id) {
+      await withStore("readwrite", store => store.delete(id));
+    }
+  };
+}
+
+let library: DeckLibrary | null = null;
+
+/**
+ * The library used by the app. Swap the implementation here to move storage server-side.
+ */
+export function getDeckLibrary(): DeckLibrary {
+  library ??= createIndexedDbDeckLibrary();
+  return library;
+}
+
+export async function duplicateDeck(deckLibrary: DeckLibrary, id: string): Promise<SavedDeck> {
+  const original = await deckLibrary.get(id);
+  if (!original) {
+    throw new Error(`Deck ${id} not found`);
+  }
+
+  const now = new Date().toISOString();
+  return deckLibrary.save({
+    id: crypto.randomUUID(),
+    document: {
+      ...original.document,
+      title: `${original.document.title} (copy)`,
+      metadata: { ...original.document.metadata, createdAt: now }
+    }
+  });
+}
+
+export async function renameDeck(deckLibrary: DeckLibrary, id: string, title: string): Promise<SavedDeck> {
+  const deck = await deckLibrary.get(id);
+  if (!deck) {
+    throw new Error(`Deck ${id} not found`);
+  }
+  return deckLibrary.save({ ...deck, document: { ...deck.document, title } });
+}
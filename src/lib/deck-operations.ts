@@ -0,0 +1,92 @@
+/**
+ * @file deck-operations.ts
+ * @description Pure structural edits on a deck: insert, delete, move and duplicate slides
+ *
+ * Every operation returns a new deck and throws an Error with a readable message when an
+ * index is out of range, so tool calls can surface the problem to the assistant.
+ */
+
+import type { Deck, SlideContent } from "@/lib/slides";
+
+export interface StructureOptions {
+  /**
+   * Require the result to have exactly one intro slide, first, and exactly one outro
+   * slide, last. Changes that would break this are rejected.
+   */
+  keepIntroOutro?: boolean;
+}
+
+function assertIndex(deck: Deck, index: number, label: string, allowEnd = false) {
+  const max = allowEnd ? deck.slides.length : deck.slides.length - 1;
+  if (!Number.isInteger(index) || index < 0 || index > max) {
+    const range = max < 0 ? "the presentation has no slides" : `valid range is 0-${max}`;
+    throw new Error(`${label} ${index} is out of range; ${range}.`);
+  }
+}
+
+function assertIntroOutro(slides: SlideContent[]) {
+  const intros = slides.filter(slide => slide.type === "intro").length;
+  const outros = slides.filter(slide => slide.type === "outro").length;
+
+  if (intros !== 1 || slides[0]?.type !== "intro") {
+    throw new Error(
+      `The presentation must keep exactly one intro slide at the start (found ${intros}). ` +
+      "Set keepIntroOutro to false to allow this change."
+    );
+  }
+  if (outros !== 1 || slides[slides.length - 1]?.type !== "outro") {
+    throw new Error(
+      `The presentation must keep exactly one outro slide at the end (found ${outros}). ` +
+      "Set keepIntroOutro to false to allow this change."
+    );
+  }
+}
+
+function withSlides(deck: Deck, slides: SlideContent[], options: StructureOptions): Deck {
+  if (options.keepIntroOutro) {
+    assertIntroOutro(slides);
+  }
+  return { ...deck, slides };
+}
+
+/**
+ * Inserts a slide so that it ends up at `index`. An index equal to the slide count appends.
+ */
+export function insertSlide(
+  deck: Deck,
+  index: number,
+  slide: SlideContent,
+  options: StructureOptions = {}
+): Deck {
+  assertIndex(deck, index, "Insert position", true);
+  const slides = [...deck.slides];
+  slides.splice(index, 0, slide);
+  return withSlides(deck, slides, options);
+}
+
+export function deleteSlide(deck: Deck, index: number, options: StructureOptions = {}): Deck {
+  assertIndex(deck, index, "Slide index");
+  return withSlides(deck, deck.slides.filter((_, i) => i !== index), options);
+}
+
+/**
+ * Moves the slide at `from` so that it ends up at position `to`.
+ */
+export function moveSlide(deck: Deck, from: number, to: number, options: StructureOptions = {}): Deck {
+  assertIndex(deck, from, "Slide index");
+  assertIndex(deck, to, "Target position");
+  const slides = [...deck.slides];
+  const [slide] = slides.splice(from, 1);
+  slides.splice(to, 0, slide);
+  return withSlides(deck, slides, options);
+}
+
+/**
+ * Copies the slide at `index` and places the copy directly after it.
+ */
+export function duplicateSlide(deck: Deck, index: number, options: StructureOptions = {}): Deck {
+  assertIndex(deck, index, "Slide index");
+  const slides = [...deck.slides];
+  slides.splice(index + 1, 0, { ...deck.slides[index] });
+  return withSlides(deck, slides, options);
+}
@@ -0,0 +1,147 @@
+/**
+ * @file deck-outline.ts
+ * @description Editable deck outlines for the outline-first generation flow
+ *
+ * `generate-outline` proposes an outline (one item per slide: title, layout and a one-line
+ * intent), the user reorders, renames or deletes items in the PresentationOutline
+ * component, and `expand-outline` turns the approved outline into full slides. Items
+ * taken from a template keep a `templateSlide` reference, so their content survives
+ * renaming and reordering.
+ */
+
+import { z } from "zod";
+import { topicCategorySchema } from "@/lib/content-planner";
+import type { SlideContent } from "@/lib/slides";
+
+export const OUTLINE_LAYOUTS = [
+  "standard",
+  "chart",
+  "table",
+  "section",
+  "comparison",
+  "image",
+  "quote",
+  "agenda",
+  "timeline",
+  "kpi",
+  "grid"
+] as const;
+
+export type OutlineLayout = (typeof OUTLINE_LAYOUTS)[number];
+
+export const OUTLINE_LAYOUT_LABELS: Record<OutlineLayout, string> = {
+  standard: "Text and image",
+  chart: "Chart",
+  table: "Table",
+  section: "Section divider",
+  comparison: "Comparison",
+  image: "Full-bleed image",
+  quote: "Quote",
+  agenda: "Agenda",
+  timeline: "Timeline",
+  kpi: "Big numbers",
+  grid: "Team / grid"
+};
+
+export const outlineItemSchema = z.object({
+  heading: z.string().describe("Slide title"),
+  type: z.enum(["intro", "content", "outro"]).optional()
+    .describe("Slide type (default: intro for the first item, outro for the last, content otherwise)"),
+  layout: z.enum(OUTLINE_LAYOUTS).describe("Planned layout of the slide"),
+  intent: z.string().describe("One line on what the slide should get across"),
+  templateSlide: z.number().int().optional()
+    .describe("Index of the template slide the item is based on; keep it when renaming or moving the item so its content is reused")
+});
+
+export const deckOutlineSchema = z.object({
+  title: z.string().describe("Presentation title"),
+  topic: z.string().describe("Topic the outline was generated for"),
+  domain: z.string().optional(),
+  plannedSlideCount: z.number().int().optional()
+    .describe("Slide count the outline was generated with; keep it so template content can be looked up"),
+  templateId: z.string().optional().describe("Template the outline was generated from; keep it"),
+  category: topicCategorySchema.optional().describe("Structure the generated slides follow; keep it"),
+  variables: z.record(z.string()).optional().describe("Values for the template's variables"),
+  items: z.array(outlineItemSchema).describe("One item per slide, in order")
+});
+
+export type OutlineItem = z.infer<typeof outlineItemSchema>;
+export type DeckOutline = z.infer<typeof deckOutlineSchema>;
+
+/** Layouts that need content an outline line cannot supply, e.g. chart data or quotes */
+const CONTENT_LAYOUTS = new Set<OutlineLayout>(["chart", "table", "comparison", "quote", "timeline", "kpi", "grid"]);
+
+function firstSentence(text: string): string {
+  const sentence = text.split(/(?<=[.!?])\s+/)[0] ?? "";
+  return sentence.length > 140 ? `${sentence.slice(0, 137).replace(/\s+\S*$/, "")}…` : sentence;
+}
+
+export function getSlideOutlineLayout(slide: SlideContent): OutlineLayout {
+  if (slide.layout) return slide.layout.kind;
+  if (slide.chart) return "chart";
+  if (slide.table) return "table";
+  return "standard";
+}
+
+/** Items leave out `type`, so expandOutline takes intro and outro from their position */
+export function outlineFromSlides(slides: SlideContent[]): OutlineItem[] {
+  return slides.map((slide, index) => ({
+    heading: slide.heading,
+    layout: getSlideOutlineLayout(slide),
+    intent: firstSentence(slide.description),
+    templateSlide: index
+  }));
+}
+
+function withLayout(slide: SlideContent, layout: OutlineLayout, outline: DeckOutline, intent: string): SlideContent {
+  const rest: SlideContent = { ...slide, layout: undefined, chart: undefined, table: undefined };
+  const current = getSlideOutlineLayout(slide);
+
+  switch (layout) {
+    case "standard":
+      return rest;
+    case "section":
+      return { ...rest, layout: { kind: "section" } };
+    case "image":
+      return { ...rest, layout: { kind: "image", caption: intent } };
+    case "agenda":
+      return {
+        ...rest,
+        layout: {
+          kind: "agenda",
+          items: outline.items
+            .filter((item, index) => index > 0 && index < outline.items.length - 1 && item.layout !== "agenda")
+            .map(item => ({ title: item.heading }))
+        }
+      };
+    default:
+      // Keep the template's own content for the planned layout
+      return current === layout ? slide : rest;
+  }
+}
+
+/**
+ * Turns an approved outline into slides. `templateSlides` are the slides of the template
+ * the outline came from. Items whose layout needs content the outline cannot provide (a
+ * chart, a comparison, ...) are returned as standard slides and listed in `needsContent`
+ * for the assistant to complete.
+ */
+export function expandOutline(outline: DeckOutline, templateSlides: SlideContent[]) {
+  const needsContent: { slideIndex: number; layout: OutlineLayout }[] = [];
+
+  const slides = outline.items.map((item, index): SlideContent => {
+    const type = item.type ?? (index === 0 ? "intro" : index === outline.items.length - 1 ? "outro" : "content");
+    const template = item.templateSlide !== undefined ? templateSlides[item.templateSlide] : undefined;
+    const base: SlideContent = template
+      ? { ...template, type, heading: item.heading }
+      : { type, heading: item.heading, description: item.intent };
+
+    const slide = withLayout(base, item.layout, outline, item.intent);
+    if (CONTENT_LAYOUTS.has(item.layout) && getSlideOutlineLayout(slide) !== item.layout) {
+      needsContent.push({ slideIndex: index, layout: item.layout });
+    }
+    return slide;
+  });
+
+  return { title: outline.title, domain: outline.domain, slides, needsContent };
+}
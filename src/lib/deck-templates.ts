@@ -0,0 +1,205 @@
+/**
+ * @file deck-templates.ts
+ * @description Turns a finished deck into a reusable template
+ *
+ * Specific facts (figures, dates and names) are replaced with {{variables}}, so decks
+ * generated from the template ask for new values instead of repeating the old ones.
+ * detectTemplateFacts suggests what to replace; the user (in the Save as template
+ * dialog) or the assistant (with the save-deck-as-template tool) picks the final list.
+ * Chart data and numeric table cells stay as they are, since only text can hold a
+ * variable.
+ */
+
+import type { Deck, SlideContent } from "@/lib/slides";
+import type { PresentationTemplate, TemplateSlide } from "@/lib/template-definitions";
+
+export type TemplateFactKind = "number" | "date" | "name";
+
+export interface TemplateFact {
+  text: string;
+  kind: TemplateFactKind;
+  /** Suggested variable name */
+  variable: string;
+  /** How often the text occurs in the deck */
+  occurrences: number;
+}
+
+export interface TemplatePlaceholder {
+  /** Text to replace wherever it occurs in the deck */
+  text: string;
+  variable: string;
+  description?: string;
+}
+
+export interface DeckTemplateOptions {
+  domain: string;
+  topic: string;
+  title?: string;
+  description?: string;
+  placeholders: TemplatePlaceholder[];
+}
+
+const MONTH = "(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)";
+
+const DATE_PATTERNS: { pattern: RegExp; variable: string }[] = [
+  { pattern: /\b(?:Q[1-4]|H[12])\s+(?:FY\s?)?\d{4}\b/g, variable: "quarter" },
+  { pattern: new RegExp(`\\b${MONTH}\\.?\\s+(?:\\d{1,2},\\s+)?\\d{4}\\b`, "g"), variable: "date" },
+  { pattern: /\b\d{4}-\d{2}-\d{2}\b|\b\d{1,2}\/\d{1,2}\/\d{2,4}\b/g, variable: "date" },
+  { pattern: /\b(?:19|20)\d{2}\b/g, variable: "year" }
+];
+
+// Figures with a currency, unit or percent sign, or of two digits or more
+const NUMBER_PATTERN = /[$€£]?\d[\d,]*(?:\.\d+)?(?:\s?(?:%|[kKMB]\b|million\b|billion\b|thousand\b))?/g;
+
+// Capitalized words in the middle of a sentence, e.g. "Azure" or "Acme Health"
+const NAME_PATTERN = /(?<=[a-z,;:]\s)[A-Z][a-z]+(?:[ -][A-Z][a-z]+)*/g;
+
+const NOT_NAMES = new Set(["The", "This", "These", "Our", "We", "It", "In", "For", "And", "With"]);
+const MONTH_NAME = new RegExp(`^${MONTH}$`);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Matches `text` only where it is not part of a longer word or number */
+export function factPattern(text: string): RegExp {
+  const before = /^[\w]/.test(text) ? "(?<![\\w.,$€£])" : "";
+  const after = /[\w]$/.test(text) ? "(?![\\w%]|[.,]\\d)" : "";
+  return new RegExp(`${before}${escapeRegExp(text)}${after}`, "g");
+}
+
+/** Blanks out the dates in a text, so their digits are not read as figures */
+function maskDates(text: string, onDate?: (date: string, variable: string) => void): string {
+  let rest = text;
+  for (const { pattern, variable } of DATE_PATTERNS) {
+    for (const match of rest.matchAll(pattern)) onDate?.(match[0], variable);
+    rest = rest.replace(pattern, " ");
+  }
+  return rest;
+}
+
+/**
+ * The figures in a text (amounts, percentages and numbers of two digits or more) with a
+ * suggested variable name for each. Dates are not figures.
+ */
+export function findFigures(text: string): { text: string; variable: string }[] {
+  const figures: { text: string; variable: string }[] = [];
+  for (const match of maskDates(text).matchAll(NUMBER_PATTERN)) {
+    const figure = match[0].trim().replace(/[.,]$/, "");
+    const isMeasured = /[$€£%]|[kKMB]$|million|billion|thousand/.test(figure);
+    if (!isMeasured && figure.replace(/\D/g, "").length < 2) continue;
+    const variable = figure.includes("%") ? "percent" : /[$€£]|million|billion/.test(figure) ? "amount" : "figure";
+    figures.push({ text: figure, variable });
+  }
+  return figures;
+}
+
+function slideTexts(slide: SlideContent, includeHeading: boolean): string[] {
+  return [
+    ...(includeHeading ? [slide.heading] : []),
+    slide.description,
+    ...(slide.bullets ?? []).map(bullet => bullet.text),
+    ...(slide.table ? [...slide.table.columns.map(column => column.header), ...slide.table.rows.flat().map(String)] : []),
+    slide.speakerNotes ?? ""
+  ];
+}
+
+function countOccurrences(texts: string[], text: string): number {
+  return texts.reduce((count, item) => count + (item.match(factPattern(text))?.length ?? 0), 0);
+}
+
+/**
+ * Suggests the figures, dates and names in a deck that are specific to it. Headings are
+ * searched for figures and dates but not names, since headings are in title case.
+ */
+export function detectTemplateFacts(deck: Deck): TemplateFact[] {
+  const allTexts = [deck.title, ...deck.slides.flatMap(slide => slideTexts(slide, true))];
+  const bodyTexts = deck.slides.flatMap(slide => slideTexts(slide, false));
+  const facts = new Map<string, TemplateFact>();
+  const counters: Record<string, number> = {};
+
+  const add = (text: string, kind: TemplateFactKind, variable: string) => {
+    const trimmed = text.trim().replace(/[.,]$/, "");
+    if (!trimmed || facts.has(trimmed)) return;
+    counters[variable] = (counters[variable] ?? 0) + 1;
+    facts.set(trimmed, {
+      text: trimmed,
+      kind,
+      variable: counters[variable] === 1 ? variable : `${variable}${counters[variable]}`,
+      occurrences: countOccurrences(allTexts, trimmed)
+    });
+  };
+
+  for (const text of allTexts) {
+    maskDates(text, (date, variable) => add(date, "date", variable));
+    for (const figure of findFigures(text)) add(figure.text, "number", figure.variable);
+  }
+
+  for (const text of bodyTexts) {
+    for (const match of text.matchAll(NAME_PATTERN)) {
+      if (!NOT_NAMES.has(match[0]) && !MONTH_NAME.test(match[0])) add(match[0], "name", "name");
+    }
+  }
+
+  return [...facts.values()];
+}
+
+function replacePlaceholders<T>(value: T, placeholders: TemplatePlaceholder[]): T {
+  if (typeof value === "string") {
+    return placeholders.reduce(
+      (text, placeholder) => text.replace(factPattern(placeholder.text), `{{${placeholder.variable}}}`),
+      value as string
+    ) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => replacePlaceholders(item, placeholders)) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, replacePlaceholders(item, placeholders)])
+    ) as T;
+  }
+  return value;
+}
+
+function toTemplateSlide(slide: SlideContent): TemplateSlide {
+  // Images, dataset bindings and fact-check claims belong to this deck; the image search
+  // query is kept as keywords so decks from the template get similar images.
+  return {
+    ...slide,
+    imageUrl: undefined,
+    imageAlt: undefined,
+    imageQuery: undefined,
+    photographer: undefined,
+    unsplashUrl: undefined,
+    dataBinding: undefined,
+    claims: undefined,
+    ...(slide.imageQuery ? { keywords: [slide.imageQuery] } : {})
+  };
+}
+
+/**
+ * Builds a template from a deck, replacing every placeholder's text with its variable.
+ * Longer texts are replaced first, so "$4.2M" wins over "4.2".
+ */
+export function createTemplateFromDeck(deck: Deck, options: DeckTemplateOptions): PresentationTemplate {
+  const placeholders = options.placeholders.filter(placeholder => placeholder.text.trim() && placeholder.variable.trim());
+  const longestFirst = [...placeholders].sort((a, b) => b.text.length - a.text.length);
+
+  const variables = new Map<string, { name: string; description?: string }>();
+  for (const placeholder of placeholders) {
+    if (!variables.has(placeholder.variable)) {
+      variables.set(placeholder.variable, {
+        name: placeholder.variable,
+        description: placeholder.description ?? `Replaces "${placeholder.text}" from the original deck`
+      });
+    }
+  }
+
+  return {
+    domain: options.domain,
+    topic: options.topic,
+    title: replacePlaceholders(options.title ?? deck.title, longestFirst),
+    description: options.description,
+    variables: [...variables.values()],
+    slides: replacePlaceholders(deck.slides.map(toTemplateSlide), longestFirst)
+  };
+}
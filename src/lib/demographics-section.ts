@@ -0,0 +1,138 @@
+/**
+ * @file demographics-section.ts
+ * @description Demographics deck section built from the population statistics service
+ *
+ * Produces up to three slides: the global population trend, the most populous countries
+ * and a comparison by continent. All figures come from src/services/population-stats.ts;
+ * each slide's speaker notes name the service call behind it.
+ */
+
+import { z } from "zod";
+import type { DataSection } from "@/lib/data-sections";
+import type { SlideContent } from "@/lib/slides";
+import {
+  getCountryPopulations,
+  getGlobalPopulationTrend,
+  type CountryPopulation
+} from "@/services/population-stats";
+
+const DEMOGRAPHICS_PARTS = ["trend", "top-countries", "continents"] as const;
+
+type DemographicsPart = (typeof DEMOGRAPHICS_PARTS)[number];
+
+const demographicsOptionsSchema = z.object({
+  parts: z.array(z.enum(DEMOGRAPHICS_PARTS)).optional()
+    .describe("Slides to include, in order: trend (global population line chart), top-countries (most populous countries), continents (comparison by continent). Default: all three"),
+  startYear: z.number().int().optional().describe("First year of the trend slide"),
+  endYear: z.number().int().optional().describe("Last year of the trend slide"),
+  topN: z.number().int().min(1).max(10).optional()
+    .describe("Number of countries on the top-countries slide (default: 5)")
+});
+
+type DemographicsOptions = z.infer<typeof demographicsOptionsSchema>;
+
+const formatMillions = (value: number) =>
+  `${value.toLocaleString("en-US", { maximumFractionDigits: 1 })}M`;
+
+const formatRate = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+async function buildTrendSlide({ startYear, endYear }: DemographicsOptions): Promise<SlideContent> {
+  // The service returns the newest year first
+  const trend = (await getGlobalPopulationTrend({ startYear, endYear })).reverse();
+  if (trend.length === 0) {
+    throw new Error(`The population service has no global figures between ${startYear ?? "the first year"} and ${endYear ?? "the last year"}.`);
+  }
+
+  const first = trend[0];
+  const last = trend[trend.length - 1];
+  const change = ((last.population - first.population) / first.population) * 100;
+
+  return {
+    type: "content",
+    heading: `Global Population, ${first.year}–${last.year}`,
+    description: `World population grew from ${first.population} billion in ${first.year} to ${last.population} billion in ${last.year} (${formatRate(change)}), while the annual growth rate slowed from ${first.growthRate}% to ${last.growthRate}%.`,
+    chart: {
+      type: "line",
+      labels: trend.map(point => String(point.year)),
+      datasets: [{ label: "World population (billions)", data: trend.map(point => point.population) }]
+    },
+    speakerNotes: `Source: population statistics service, getGlobalPopulationTrend (${first.year}–${last.year}).`
+  };
+}
+
+async function buildTopCountriesSlide({ topN = 5 }: DemographicsOptions): Promise<SlideContent> {
+  const countries = await getCountryPopulations({ sortBy: "population", order: "desc", limit: topN });
+  const year = countries[0]?.year;
+
+  return {
+    type: "content",
+    heading: `Most Populous Countries${year ? ` (${year})` : ""}`,
+    description: `The ${countries.length} most populous countries in the population statistics data.`,
+    table: {
+      columns: [
+        { header: "Rank", type: "number", align: "center" },
+        { header: "Country" },
+        { header: "Continent" },
+        { header: "Population (millions)", type: "number" },
+        { header: "Annual growth", type: "percent" }
+      ],
+      rows: countries.map((country, index) => [
+        index + 1,
+        country.countryName,
+        country.continent,
+        country.population,
+        country.growthRate / 100
+      ]),
+      caption: "Source: population statistics service"
+    },
+    speakerNotes: `Source: population statistics service, getCountryPopulations sorted by population, top ${topN}.`
+  };
+}
+
+async function buildContinentsSlide(): Promise<SlideContent> {
+  const countries = await getCountryPopulations();
+  const byContinent = new Map<CountryPopulation["continent"], CountryPopulation[]>();
+  for (const country of countries) {
+    byContinent.set(country.continent, [...(byContinent.get(country.continent) ?? []), country]);
+  }
+
+  const continents = Array.from(byContinent, ([continent, members]) => ({
+    continent,
+    countryCount: members.length,
+    population: members.reduce((sum, country) => sum + country.population, 0),
+    // Population-weighted, so large countries count for more
+    growthRate: members.reduce((sum, country) => sum + country.growthRate * country.population, 0) /
+      members.reduce((sum, country) => sum + country.population, 0)
+  })).sort((a, b) => b.population - a.population);
+
+  return {
+    type: "content",
+    heading: "Population by Continent",
+    description: `Combined population of the ${countries.length} countries in the population statistics data, grouped by continent. Figures cover only those countries, not whole continents.`,
+    bullets: continents.map(entry => ({
+      text: `${entry.continent}: ${formatMillions(entry.population)} across ${entry.countryCount} ${entry.countryCount === 1 ? "country" : "countries"}, ${formatRate(entry.growthRate)} per year`
+    })),
+    chart: {
+      type: "bar",
+      labels: continents.map(entry => entry.continent),
+      datasets: [{ label: "Population (millions)", data: continents.map(entry => Math.round(entry.population * 100) / 100) }]
+    },
+    speakerNotes: "Source: population statistics service, getCountryPopulations, summed by continent. Growth rates are population-weighted averages."
+  };
+}
+
+const PART_BUILDERS: Record<DemographicsPart, (options: DemographicsOptions) => Promise<SlideContent>> = {
+  trend: buildTrendSlide,
+  "top-countries": buildTopCountriesSlide,
+  continents: buildContinentsSlide
+};
+
+export const demographicsSection: DataSection<typeof demographicsOptionsSchema> = {
+  name: "add-demographics-section",
+  description: "Build a demographics section (global population trend, most populous countries, comparison by continent) with figures taken from the population statistics service. Use it instead of writing population numbers yourself",
+  optionsSchema: demographicsOptionsSchema,
+  buildSlides: options => {
+    const parts = options.parts?.length ? options.parts : DEMOGRAPHICS_PARTS;
+    return Promise.all(parts.map(part => PART_BUILDERS[part](options)));
+  }
+};
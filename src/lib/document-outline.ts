@@ -0,0 +1,199 @@
+/**
+ * @file document-outline.ts
+ * @description Deck outline built from the sections of an attached document
+ *
+ * One content slide per chosen section, between an intro and a key-takeaways slide. The
+ * slide text is taken from the document (key points, with figures emphasised), and every
+ * slide cites the section it came from, both in the returned outline and in its speaker
+ * notes, so the presenter can trace each claim back to the source.
+ */
+
+import {
+  splitSentences,
+  summarizeSection,
+  toPoint,
+  type DocumentSection,
+  type SourceDocument
+} from "@/lib/source-documents";
+import type { Bullet, SlideContent } from "@/lib/slides";
+
+export interface DocumentOutlineOptions {
+  /** Total slides including intro and takeaways (default: one per top-level section + 2) */
+  slideCount?: number;
+  /** Section numbers or headings to cover, in order (default: chosen automatically) */
+  sections?: string[];
+  title?: string;
+}
+
+export interface DocumentOutlineEntry {
+  slideIndex: number;
+  heading: string;
+  /** Where the slide's content comes from, e.g. "2.1 Market Overview" */
+  sourceSection: string;
+}
+
+/** A section together with the text of its subsections */
+interface OutlineUnit {
+  section: DocumentSection;
+  paragraphs: string[];
+  listItems: string[];
+  children: DocumentSection[];
+  words: number;
+}
+
+const MAX_CONTENT_SLIDES = 18;
+
+const cite = (section: DocumentSection) => `${section.number} ${section.heading}`;
+
+function descendantsOf(document: SourceDocument, section: DocumentSection): DocumentSection[] {
+  return document.sections.filter(candidate => candidate.number.startsWith(`${section.number}.`));
+}
+
+function toUnit(document: SourceDocument, section: DocumentSection): OutlineUnit {
+  const descendants = descendantsOf(document, section);
+  const children = descendants.filter(child => child.depth === section.depth + 1);
+  const paragraphs = [...section.paragraphs, ...descendants.flatMap(child => child.paragraphs)];
+  // Subsection headings stand in for list items when the section has none of its own
+  const listItems = section.listItems.length > 0 || (paragraphs.length > 0 && children.length === 0)
+    ? section.listItems
+    : children.map(child => child.heading);
+  return {
+    section,
+    paragraphs,
+    listItems,
+    children,
+    words: summarizeSection({ paragraphs, listItems }).wordCount
+  };
+}
+
+function findSection(document: SourceDocument, reference: string): DocumentSection {
+  const normalized = reference.trim().toLowerCase().replace(/\.$/, "");
+  const section = document.sections.find(candidate =>
+    candidate.number === normalized || candidate.heading.toLowerCase() === normalized
+  ) ?? document.sections.find(candidate => candidate.heading.toLowerCase().includes(normalized));
+  if (!section) {
+    throw new Error(
+      `${document.name} has no section "${reference}". Sections: ${document.sections.map(cite).join("; ")}.`
+    );
+  }
+  return section;
+}
+
+/**
+ * Starts from the top-level sections and splits the largest ones into their subsections
+ * until the slide budget is used; with more sections than slides, the longest are kept.
+ */
+function chooseUnits(document: SourceDocument, slots: number | undefined): OutlineUnit[] {
+  const topDepth = Math.min(...document.sections.map(section => section.depth));
+  let units = document.sections.filter(section => section.depth === topDepth).map(section => toUnit(document, section));
+
+  if (slots === undefined) return units.slice(0, MAX_CONTENT_SLIDES);
+
+  for (;;) {
+    const expandable = units
+      .filter(unit => unit.children.length > 0 && units.length - 1 + unit.children.length <= slots)
+      .sort((a, b) => b.words - a.words)[0];
+    if (!expandable) break;
+    const index = units.indexOf(expandable);
+    units = [
+      ...units.slice(0, index),
+      ...expandable.children.map(child => toUnit(document, child)),
+      ...units.slice(index + 1)
+    ];
+  }
+
+  if (units.length > slots) {
+    const kept = new Set([...units].sort((a, b) => b.words - a.words).slice(0, slots));
+    units = units.filter(unit => kept.has(unit));
+  }
+  return units;
+}
+
+function buildContentSlide(document: SourceDocument, unit: OutlineUnit): SlideContent {
+  const summary = summarizeSection(unit);
+  const description = unit.paragraphs.length > 0 ? toPoint(splitSentences(unit.paragraphs[0])[0] ?? "") : "";
+
+  const bullets: Bullet[] = summary.keyPoints
+    .filter(point => point !== description)
+    .map(text => ({ text }));
+  for (const figure of summary.figures) {
+    if (bullets.length >= 5) break;
+    if (figure === description) continue;
+    const existing = bullets.find(bullet => bullet.text === figure);
+    if (existing) existing.emphasis = true;
+    else bullets.push({ text: figure, emphasis: true });
+  }
+
+  return {
+    type: "content",
+    heading: unit.section.heading,
+    description,
+    bullets: bullets.length > 0 ? bullets.slice(0, 5) : undefined,
+    speakerNotes: `Source: ${document.name}, section ${cite(unit.section)}.`
+  };
+}
+
+/**
+ * Builds the slides and their citations. The result is meant to be shown with the
+ * Presentation component; the assistant may rephrase slides but should keep the sources.
+ */
+export function buildDocumentOutline(document: SourceDocument, options: DocumentOutlineOptions = {}) {
+  const title = options.title ?? document.title;
+
+  let units: OutlineUnit[];
+  if (options.sections?.length) {
+    units = options.sections.map(reference => toUnit(document, findSection(document, reference)));
+  } else if (document.sections.length === 0) {
+    // A document without headings becomes a single section of its preface
+    units = [{
+      section: { number: "1", heading: title, depth: 1, paragraphs: document.preface, listItems: [] },
+      paragraphs: document.preface,
+      listItems: [],
+      children: [],
+      words: 0
+    }];
+  } else {
+    const slots = options.slideCount !== undefined
+      ? Math.max(1, Math.min(MAX_CONTENT_SLIDES, options.slideCount - 2))
+      : undefined;
+    units = chooseUnits(document, slots);
+  }
+
+  const introText = document.preface.length > 0
+    ? splitSentences(document.preface.join(" ")).slice(0, 2).join(" ")
+    : `An overview of ${document.title}, covering ${units.map(unit => unit.section.heading).slice(0, 4).join(", ")}.`;
+  const contentSlides = units.map(unit => buildContentSlide(document, unit));
+  const takeaways = contentSlides
+    .map(slide => slide.bullets?.[0]?.text ?? slide.description)
+    .filter(Boolean)
+    .slice(0, 5);
+
+  const slides: SlideContent[] = [
+    {
+      type: "intro",
+      heading: title,
+      description: introText,
+      speakerNotes: `Source: ${document.name}${document.preface.length > 0 ? ", introduction" : ""}.`
+    },
+    ...contentSlides,
+    {
+      type: "outro",
+      heading: "Key Takeaways",
+      description: `Summary of ${document.title}.`,
+      bullets: takeaways.map(text => ({ text })),
+      speakerNotes: `Source: ${document.name}, sections ${units.map(unit => unit.section.number).join(", ")}.`
+    }
+  ];
+
+  const outline: DocumentOutlineEntry[] = slides.map((slide, slideIndex) => ({
+    slideIndex,
+    heading: slide.heading,
+    sourceSection: slideIndex === 0
+      ? (document.preface.length > 0 ? "Introduction" : "Document title")
+      : slideIndex === slides.length - 1
+        ? `Summary of sections ${units.map(unit => unit.section.number).join(", ")}`
+        : cite(units[slideIndex - 1].section)
+  }));
+
+  return { title, source: document.name, outline, slides };
+}
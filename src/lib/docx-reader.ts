@@ -0,0 +1,97 @@
+/**
+ * @file docx-reader.ts
+ * @description Minimal reader for the paragraphs of a .docx file
+ *
+ * A .docx file is a zip archive of XML parts. This unzips word/document.xml with fflate
+ * and classifies each paragraph by its style: Title, Heading 1-6 (or an outline level)
+ * and list paragraphs, so the document's section structure survives.
+ */
+
+import { strFromU8, unzip } from "fflate";
+import type { DocumentBlock } from "@/lib/source-documents";
+
+const WORD_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+const DOCX_PARTS = ["word/document.xml", "word/styles.xml"];
+
+/** The text of the parts the reader needs, keyed by path */
+function readParts(buffer: ArrayBuffer): Promise<Record<string, string>> {
+  return new Promise((resolve, reject) => {
+    unzip(new Uint8Array(buffer), { filter: file => DOCX_PARTS.includes(file.name) }, (error, files) => {
+      if (error) {
+        reject(new Error("The file is not a valid Word document."));
+        return;
+      }
+      resolve(Object.fromEntries(Object.entries(files).map(([name, data]) => [name, strFromU8(data)])));
+    });
+  });
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, "application/xml");
+}
+
+const elements = (parent: Document | Element, tag: string) =>
+  Array.from(parent.getElementsByTagNameNS(WORD_NS, tag));
+
+const attribute = (element: Element | undefined, name: string) =>
+  element?.getAttributeNS(WORD_NS, name) ?? null;
+
+/** Style names by style id, e.g. "Heading1" -> "heading 1"; ids are localized in some Word versions */
+function readStyleNames(stylesXml: string | null): Map<string, string> {
+  const names = new Map<string, string>();
+  if (!stylesXml) return names;
+  for (const style of elements(parseXml(stylesXml), "style")) {
+    const id = attribute(style, "styleId");
+    const name = attribute(elements(style, "name")[0], "val");
+    if (id && name) names.set(id, name.toLowerCase());
+  }
+  return names;
+}
+
+function paragraphText(paragraph: Element): string {
+  let text = "";
+  for (const node of Array.from(paragraph.getElementsByTagNameNS(WORD_NS, "*"))) {
+    if (node.localName === "t") text += node.textContent ?? "";
+    else if (node.localName === "tab" || node.localName === "br") text += " ";
+  }
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Reads the body paragraphs of a .docx file in order. Empty paragraphs are dropped.
+ */
+export async function readDocxBlocks(buffer: ArrayBuffer): Promise<{ title?: string; blocks: DocumentBlock[] }> {
+  const parts = await readParts(buffer);
+  const documentXml = parts["word/document.xml"];
+  const stylesXml = parts["word/styles.xml"] ?? null;
+  if (!documentXml) {
+    throw new Error("The file is not a Word document.");
+  }
+
+  const styleNames = readStyleNames(stylesXml);
+  const blocks: DocumentBlock[] = [];
+  let title: string | undefined;
+
+  for (const paragraph of elements(parseXml(documentXml), "p")) {
+    const text = paragraphText(paragraph);
+    if (!text) continue;
+
+    const properties = elements(paragraph, "pPr")[0];
+    const styleId = attribute(properties && elements(properties, "pStyle")[0], "val") ?? "";
+    const styleName = styleNames.get(styleId) ?? styleId.toLowerCase();
+    const outlineLevel = attribute(properties && elements(properties, "outlineLvl")[0], "val");
+    const headingLevel = styleName.match(/^heading\s*(\d)$/)?.[1] ?? (outlineLevel !== null ? Number(outlineLevel) + 1 : null);
+
+    if (styleName === "title" && !title) {
+      title = text;
+    } else if (headingLevel !== null && Number(headingLevel) <= 6) {
+      blocks.push({ kind: "heading", level: Number(headingLevel), text });
+    } else if ((properties && elements(properties, "numPr").length > 0) || styleName.includes("list")) {
+      blocks.push({ kind: "list-item", text });
+    } else {
+      blocks.push({ kind: "paragraph", text });
+    }
+  }
+  return { title, blocks };
+}
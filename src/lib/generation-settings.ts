@@ -0,0 +1,196 @@
+/**
+ * @file generation-settings.ts
+ * @description Audience, tone, length and language of generated slide content
+ *
+ * The settings panel next to the chat stores the user's choices here; the generation
+ * tools use them as defaults when the assistant does not pass its own. adaptSlides applies
+ * them to template and dynamic slides: an audience- and tone-specific opening and close,
+ * presenter guidance in the speaker notes, and a words-per-slide budget. Templates are
+ * written in English, so another language is returned as a translation request for the
+ * assistant.
+ */
+
+import { z } from "zod";
+import type { SlideContent } from "@/lib/slides";
+
+export const AUDIENCES = ["general", "executives", "engineers", "students"] as const;
+export const TONES = ["formal", "conversational", "persuasive", "instructional"] as const;
+
+export type Audience = (typeof AUDIENCES)[number];
+export type Tone = (typeof TONES)[number];
+
+export const MIN_WORDS_PER_SLIDE = 15;
+export const MAX_WORDS_PER_SLIDE = 150;
+
+export const generationSettingsSchema = z.object({
+  audience: z.enum(AUDIENCES).optional().describe("Who the deck is for (default: from the settings panel)"),
+  tone: z.enum(TONES).optional().describe("Register of the slide text (default: from the settings panel)"),
+  wordsPerSlide: z.number().int().min(MIN_WORDS_PER_SLIDE).max(MAX_WORDS_PER_SLIDE).optional()
+    .describe("Budget for the visible words on a slide, description and bullets together"),
+  language: z.string().optional().describe('Language of the slide text, e.g. "English", "Spanish"')
+});
+
+export type GenerationSettings = Required<z.infer<typeof generationSettingsSchema>>;
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  audience: "general",
+  tone: "formal",
+  wordsPerSlide: 60,
+  language: "English"
+};
+
+export const AUDIENCE_PROFILES: Record<Audience, {
+  label: string;
+  /** What slides for this audience should concentrate on */
+  focus: string;
+  /** Presenter guidance added to the speaker notes */
+  guidance: string;
+}> = {
+  general: {
+    label: "General audience",
+    focus: "what it is and why it matters",
+    guidance: "Avoid jargon and explain terms the first time they come up."
+  },
+  executives: {
+    label: "Executives",
+    focus: "business impact, cost, risk and the decision needed",
+    guidance: "Lead with the conclusion and the ask; keep the detail for questions."
+  },
+  engineers: {
+    label: "Engineers",
+    focus: "how it works, the trade-offs and what it takes to build and run",
+    guidance: "Be precise, name the trade-offs and be ready to go into implementation detail."
+  },
+  students: {
+    label: "Students",
+    focus: "the core concepts, worked examples and how the ideas connect",
+    guidance: "Build from the basics and give one concrete example per idea."
+  }
+};
+
+export const TONE_PROFILES: Record<Tone, {
+  label: string;
+  opening: (topic: string) => string;
+  closing: (topic: string) => string;
+}> = {
+  formal: {
+    label: "Formal",
+    opening: topic => `This presentation examines ${topic}.`,
+    closing: () => "The recommended next steps are set out below."
+  },
+  conversational: {
+    label: "Conversational",
+    opening: topic => `Let's take a look at ${topic} and what it means for us.`,
+    closing: () => "So where do we go from here?"
+  },
+  persuasive: {
+    label: "Persuasive",
+    opening: topic => `${topic.charAt(0).toUpperCase()}${topic.slice(1)} is an opportunity we cannot afford to miss.`,
+    closing: topic => `The case is clear: now is the time to act on ${topic}.`
+  },
+  instructional: {
+    label: "Instructional",
+    opening: topic => `By the end of this session you will understand ${topic} and how to apply it.`,
+    closing: topic => `Review these steps and practise applying ${topic} on your own.`
+  }
+};
+
+// --- Settings chosen in the panel ---
+
+const STORAGE_KEY = "generation-settings";
+
+export function loadGenerationSettings(): GenerationSettings {
+  if (typeof window === "undefined") return DEFAULT_GENERATION_SETTINGS;
+  try {
+    const stored = generationSettingsSchema.safeParse(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}"));
+    return { ...DEFAULT_GENERATION_SETTINGS, ...(stored.success ? stored.data : {}) };
+  } catch {
+    return DEFAULT_GENERATION_SETTINGS;
+  }
+}
+
+export function saveGenerationSettings(settings: GenerationSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** Settings for one tool call: explicit arguments win over the panel's choices */
+export function resolveGenerationSettings(overrides: z.infer<typeof generationSettingsSchema>): GenerationSettings {
+  const stored = loadGenerationSettings();
+  return {
+    audience: overrides.audience ?? stored.audience,
+    tone: overrides.tone ?? stored.tone,
+    wordsPerSlide: overrides.wordsPerSlide ?? stored.wordsPerSlide,
+    language: overrides.language?.trim() || stored.language
+  };
+}
+
+// --- Adapting slides ---
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Keeps whole sentences while they fit the budget; a first sentence that is already too
+ * long is cut at the budget.
+ */
+export function fitToWordBudget(text: string, budget: number): string {
+  if (countWords(text) <= budget) return text;
+
+  const sentences = text.split(/(?<=[.!?])\s+/);
+  let result = "";
+  for (const sentence of sentences) {
+    const next = result ? `${result} ${sentence}` : sentence;
+    if (countWords(next) > budget) break;
+    result = next;
+  }
+  if (result) return result;
+  return `${text.split(/\s+/).slice(0, budget).join(" ").replace(/[,;:]$/, "")}…`;
+}
+
+function fitSlide(slide: SlideContent, budget: number): SlideContent {
+  const bullets = slide.bullets ?? [];
+  let remaining = budget;
+  // The description keeps at least a short sentence's worth; bullets share the rest
+  const description = fitToWordBudget(slide.description, Math.max(12, budget - bullets.reduce((sum, bullet) => sum + countWords(bullet.text), 0)));
+  remaining -= countWords(description);
+
+  const keptBullets = bullets.filter((bullet, index) => {
+    const words = countWords(bullet.text);
+    if (index > 0 && words > remaining) return false;
+    remaining -= words;
+    return true;
+  });
+
+  return { ...slide, description, bullets: slide.bullets ? keptBullets : undefined };
+}
+
+function isEnglish(language: string) {
+  return /^(en|english)\b/i.test(language.trim());
+}
+
+/**
+ * Applies audience, tone and the word budget to generated slides. When the language is
+ * not English, `translateTo` tells the assistant to translate the slides before rendering.
+ */
+export function adaptSlides<T extends SlideContent>(slides: T[], topic: string, settings: GenerationSettings) {
+  const audience = AUDIENCE_PROFILES[settings.audience];
+  const tone = TONE_PROFILES[settings.tone];
+  const guidance = `${audience.label}: focus on ${audience.focus}. ${audience.guidance} Tone: ${tone.label.toLowerCase()}.`;
+
+  const adapted = slides.map((slide): T => {
+    let description = slide.description;
+    if (slide.type === "intro") description = `${tone.opening(topic)} ${description}`;
+    if (slide.type === "outro") description = `${tone.closing(topic)} ${description}`;
+
+    return {
+      ...slide,
+      ...fitSlide({ ...slide, description }, settings.wordsPerSlide),
+      speakerNotes: slide.speakerNotes ? `${slide.speakerNotes}\n\n${guidance}` : guidance
+    };
+  });
+
+  return {
+    slides: adapted,
+    settings,
+    translateTo: isEnglish(settings.language) ? undefined : settings.language
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * @file graph-data.ts
+ * @description Chart data shared by the Graph component, slide charts and the exports
+ */
+
+import { z } from "zod";
+
+/**
+ * Represents a graph data object
+ * @property {string} type - Type of graph to render
+ * @property {string[]} labels - Labels for the graph
+ * @property {Object[]} datasets - Data for the graph
+ */
+export const graphDataSchema = z.object({
+  type: z.enum(["bar", "line", "pie"]).describe("Type of graph to render"),
+  labels: z.array(z.string()).describe("Labels for the graph"),
+  datasets: z
+    .array(
+      z.object({
+        label: z.string().describe("Label for the dataset"),
+        data: z.array(z.number()).describe("Data points for the dataset"),
+        color: z.string().optional().describe("Optional color for the dataset"),
+      }),
+    )
+    .describe("Data for the graph"),
+});
+
+export type GraphDataType = z.infer<typeof graphDataSchema>;
@@ -0,0 +1,232 @@
+/**
+ * @file html-export.ts
+ * @description Self-contained HTML presentation for sharing by email or intranet
+ *
+ * The file embeds everything it needs: slide markup rendered from the same SlideView as
+ * the app, the app's compiled CSS, images (and captured charts) inlined as data URIs, a
+ * small navigation script and the deck document itself so the deck can be re-opened in
+ * the app later.
+ */
+
+import { createElement } from "react";
+import { flushSync } from "react-dom";
+import { createRoot } from "react-dom/client";
+import SlideChart, { waitForCharts } from "@/components/slide-chart";
+import StandaloneDeck from "@/components/standalone-deck";
+import { serializeDeckDocument, toDeck, type DeckDocument } from "@/lib/deck-document";
+import { fetchImageData } from "@/lib/image-data";
+import { prepareClone } from "@/lib/pdf-export";
+import { expandTableSlides } from "@/lib/slide-tables";
+import { getThemeClasses } from "@/lib/slide-themes";
+import type { SlideContent, SlideTheme } from "@/lib/slides";
+import { downloadBlob, getExportFileName } from "@/lib/utils";
+
+/**
+ * Keyboard and click navigation for the standalone file, mirroring the live viewer.
+ * Plain ES5 so it runs in any browser the file is opened in.
+ */
+const NAVIGATION_SCRIPT = `
+(function () {
+  var slides = document.querySelectorAll("[data-slide]");
+  var dots = document.querySelectorAll("[data-dot]");
+  var counter = document.querySelector("[data-counter]");
+  var current = 0;
+
+  function show(index) {
+    current = (index + slides.length) % slides.length;
+    for (var i = 0; i < slides.length; i++) slides[i].hidden = i !== current;
+    for (var j = 0; j < dots.length; j++) {
+      var active = dots[j].getAttribute("data-active-class");
+      dots[j].classList.toggle(active, j === current);
+      dots[j].classList.toggle("bg-gray-300", j !== current);
+    }
+    if (counter) counter.textContent = "Slide " + (current + 1) + " of " + slides.length;
+    history.replaceState(null, "", "#" + (current + 1));
+  }
+
+  document.addEventListener("keydown", function (event) {
+    if (event.key === "ArrowRight" || event.key === "PageDown") show(current + 1);
+    else if (event.key === "ArrowLeft" || event.key === "PageUp") show(current - 1);
+    else if (event.key === "0" || event.key === "Home") show(0);
+    else if (event.key === "End") show(slides.length - 1);
+    else if (event.key === "f") {
+      if (document.fullscreenElement) document.exitFullscreen();
+      else document.documentElement.requestFullscreen();
+    }
+  });
+
+  document.querySelector("[data-prev]").addEventListener("click", function () { show(current - 1); });
+  document.querySelector("[data-next]").addEventListener("click", function () { show(current + 1); });
+  for (var k = 0; k < dots.length; k++) {
+    dots[k].addEventListener("click", function (event) {
+      show(Number(event.currentTarget.getAttribute("data-dot")));
+    });
+  }
+
+  show((parseInt(location.hash.slice(1), 10) || 1) - 1);
+})();
+`;
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, "&amp;")
+  .replace(/</g, "&lt;")
+  .replace(/>/g, "&gt;")
+  .replace(/"/g, "&quot;");
+
+/**
+ * Collects the CSS currently applied to the app. Cross-origin sheets cannot be read and
+ * are skipped; the slide styles all come from the app's own bundle.
+ */
+function collectDocumentCss(): string {
+  return Array.from(document.styleSheets)
+    .map(sheet => {
+      try {
+        return Array.from(sheet.cssRules).map(rule => rule.cssText).join("\n");
+      } catch {
+        return "";
+      }
+    })
+    .join("\n");
+}
+
+// Charts are captured at the 2:1 shape of the slide image frame they are shown in
+const CHART_CAPTURE_WIDTH = 512;
+const CHART_CAPTURE_HEIGHT = 256;
+
+/**
+ * Static markup cannot contain charts (Recharts draws them after mount), so each chart is
+ * rendered off-screen, captured as a PNG and shown as the slide's image in the file.
+ */
+async function rasterizeCharts(slides: SlideContent[], theme: SlideTheme): Promise<SlideContent[]> {
+  if (!slides.some(slide => slide.chart)) return slides;
+
+  const { default: html2canvas } = await import("html2canvas");
+  const themeClasses = getThemeClasses(theme);
+  const host = document.createElement("div");
+  document.body.appendChild(host);
+  const root = createRoot(host);
+
+  try {
+    const result: SlideContent[] = [];
+    for (const slide of slides) {
+      const { chart } = slide;
+      if (!chart) {
+        result.push(slide);
+        continue;
+      }
+
+      flushSync(() => {
+        root.render(createElement(
+          "div",
+          {
+            "data-export-stage": true,
+            style: { position: "fixed", top: 0, left: 0, zIndex: -1, visibility: "hidden", pointerEvents: "none" }
+          },
+          createElement(
+            "div",
+            {
+              "data-export-slide": true,
+              className: themeClasses.slide,
+              style: { width: CHART_CAPTURE_WIDTH, height: CHART_CAPTURE_HEIGHT }
+            },
+            createElement(SlideChart, { chart, staticRender: true })
+          )
+        ));
+      });
+
+      const element = host.querySelector<HTMLElement>("[data-export-slide]");
+      if (!element) {
+        result.push(slide);
+        continue;
+      }
+      await waitForCharts(element);
+
+      const canvas = await html2canvas(element, {
+        scale: 2,
+        logging: false,
+        onclone: (_document, clonedElement) => prepareClone(clonedElement, false)
+      });
+      result.push({
+        ...slide,
+        chart: undefined,
+        imageUrl: canvas.toDataURL("image/png"),
+        imageAlt: slide.imageAlt || `Chart: ${slide.heading}`,
+        photographer: undefined,
+        unsplashUrl: undefined
+      });
+    }
+    return result;
+  } finally {
+    root.unmount();
+    host.remove();
+  }
+}
+
+/**
+ * Replaces slide images and grid item portraits with data URIs, fetching each URL once.
+ * Images that cannot be fetched keep their URL.
+ */
+async function inlineImages(slides: SlideContent[]): Promise<SlideContent[]> {
+  const fetched = new Map<string, Promise<string>>();
+  const inline = (url: string) => {
+    let dataUrl = fetched.get(url);
+    if (!dataUrl) {
+      dataUrl = fetchImageData(url).then(image => image?.dataUrl ?? url);
+      fetched.set(url, dataUrl);
+    }
+    return dataUrl;
+  };
+
+  return Promise.all(slides.map(async slide => {
+    const layout = slide.layout?.kind === "grid"
+      ? {
+        ...slide.layout,
+        items: await Promise.all(slide.layout.items.map(async item =>
+          item.imageUrl ? { ...item, imageUrl: await inline(item.imageUrl) } : item
+        ))
+      }
+      : slide.layout;
+    // A chart replaces the image, so there is nothing to inline
+    const imageUrl = slide.imageUrl && !slide.chart ? await inline(slide.imageUrl) : slide.imageUrl;
+    return { ...slide, layout, imageUrl };
+  }));
+}
+
+/**
+ * Builds the standalone HTML document for a deck.
+ */
+export async function buildStandaloneHtml(deckDocument: DeckDocument): Promise<string> {
+  const { renderToStaticMarkup } = await import("react-dom/server");
+  const deck = toDeck(deckDocument);
+
+  // Oversized tables become continuation slides, since the file has no paging controls
+  const slidesWithImages = await inlineImages(expandTableSlides(deck.slides));
+  const slides = await rasterizeCharts(slidesWithImages, deck.theme ?? "blue");
+
+  const markup = renderToStaticMarkup(createElement(StandaloneDeck, { ...deck, slides }));
+  // Keep the original image URLs in the embedded JSON so it stays small and re-importable
+  const deckJson = serializeDeckDocument(deckDocument).replace(/</g, "\\u003c");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(deck.title)}</title>
+<style>${collectDocumentCss()}</style>
+</head>
+<body class="antialiased">
+${markup}
+<script type="application/json" id="deck-data">${deckJson}</script>
+<script>${NAVIGATION_SCRIPT}</script>
+</body>
+</html>`;
+}
+
+/**
+ * Builds the standalone HTML document and triggers a download.
+ */
+export async function exportPresentationToHtml(deckDocument: DeckDocument) {
+  const html = await buildStandaloneHtml(deckDocument);
+  downloadBlob(new Blob([html], { type: "text/html" }), getExportFileName(deckDocument.title, "html"));
+}
@@ -0,0 +1,44 @@
+/**
+ * @file image-data.ts
+ * @description Helpers for turning remote slide images into embeddable data URIs
+ */
+
+export interface InlinedImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Fetches an image and returns it as a data URI together with its natural size.
+ * Returns null when the image cannot be fetched (network error, CORS, non-image),
+ * so exporters can skip it instead of failing the whole deck.
+ */
+export async function fetchImageData(url: string): Promise<InlinedImage | null> {
+  try {
+    const response = await fetch(url, { mode: "cors" });
+    if (!response.ok) return null;
+
+    const blob = await response.blob();
+    if (!blob.type.startsWith("image/")) return null;
+
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+
+    const { width, height } = await new Promise<{ width: number; height: number }>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+      img.onerror = reject;
+      img.src = dataUrl;
+    });
+
+    return { dataUrl, width, height };
+  } catch (error) {
+    console.error(`Error loading image ${url}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,336 @@
+/**
+ * @file pdf-export.ts
+ * @description High-fidelity PDF export: every page is a capture of the themed slide
+ *
+ * Each slide is rendered offscreen through SlideExportStage (the same SlideView the
+ * viewer uses) at the chosen page size and captured with html2canvas, so layout, fonts,
+ * image glow and intro/outro centering match the screen. With `selectableText` the
+ * capture is taken with text hidden and the text is drawn back as real PDF text at the
+ * measured positions. Text the built-in Helvetica cannot encode (Japanese, Chinese,
+ * Cyrillic, ...) stays in the capture instead, so it is not selectable but still shows.
+ */
+
+import type { jsPDF } from "jspdf";
+import { createElement } from "react";
+import { flushSync } from "react-dom";
+import { createRoot } from "react-dom/client";
+import { waitForCharts } from "@/components/slide-chart";
+import SlideExportStage from "@/components/slide-export-stage";
+import { expandTableSlides } from "@/lib/slide-tables";
+import type { SlideContent, SlideTheme } from "@/lib/slides";
+import { getExportFileName } from "@/lib/utils";
+
+export const PDF_PAGE_SIZES = {
+  a4: { label: "A4", width: 297, height: 210 },
+  letter: { label: "US Letter", width: 279.4, height: 215.9 },
+  widescreen: { label: "Widescreen 16:9", width: 338.67, height: 190.5 }
+} as const;
+
+export type PdfPageSize = keyof typeof PDF_PAGE_SIZES;
+
+export interface PdfExportOptions {
+  title: string;
+  theme?: SlideTheme;
+  slides: SlideContent[];
+  pageSize?: PdfPageSize;
+  selectableText?: boolean;
+}
+
+// Width of the offscreen stage in CSS pixels; height follows the page aspect ratio
+const STAGE_WIDTH = 1280;
+const CAPTURE_SCALE = 2;
+const MM_PER_PT = 25.4 / 72;
+
+// Marks elements whose text stays in the capture because Helvetica cannot draw it
+const RASTER_TEXT_ATTRIBUTE = "data-raster-text";
+
+// Latin-1 plus the extra characters of WinAnsiEncoding, which jsPDF's Helvetica uses
+const HELVETICA_TEXT = /^[\u0000-\u00ff€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ]*$/;
+
+interface TextRun {
+  text: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  fontSize: number;
+  bold: boolean;
+  color: [number, number, number];
+}
+
+/**
+ * Renders every slide to its own PDF page and triggers a download. Oversized tables are
+ * split across continuation pages.
+ */
+export async function exportPresentationToPdf({
+  title,
+  theme = "blue",
+  slides: deckSlides,
+  pageSize = "a4",
+  selectableText = false
+}: PdfExportOptions) {
+  const slides = expandTableSlides(deckSlides);
+  const [{ default: jsPDF }, { default: html2canvas }] = await Promise.all([
+    import("jspdf"),
+    import("html2canvas")
+  ]);
+
+  const page = PDF_PAGE_SIZES[pageSize];
+  const stageHeight = Math.round(STAGE_WIDTH * (page.height / page.width));
+  const mmPerPx = page.width / STAGE_WIDTH;
+
+  const pdf = new jsPDF({
+    orientation: "landscape",
+    unit: "mm",
+    format: [page.width, page.height]
+  });
+  pdf.setProperties({ title });
+
+  const host = document.createElement("div");
+  document.body.appendChild(host);
+  const root = createRoot(host);
+
+  try {
+    for (let i = 0; i < slides.length; i++) {
+      flushSync(() => {
+        root.render(createElement(SlideExportStage, {
+          slide: slides[i],
+          theme,
+          width: STAGE_WIDTH,
+          height: stageHeight
+        }));
+      });
+
+      const slideElement = host.querySelector<HTMLElement>("[data-export-slide]");
+      if (!slideElement) continue;
+
+      await waitForAssets(slideElement);
+
+      const textRuns = selectableText ? collectTextRuns(slideElement) : [];
+
+      const canvas = await html2canvas(slideElement, {
+        scale: CAPTURE_SCALE,
+        useCORS: true,
+        logging: false,
+        backgroundColor: null,
+        windowWidth: STAGE_WIDTH,
+        windowHeight: stageHeight,
+        onclone: (_document, clonedElement) => {
+          prepareClone(clonedElement, selectableText);
+        }
+      });
+
+      // React reuses elements across slides; the next slide measures its own text
+      for (const element of slideElement.querySelectorAll(`[${RASTER_TEXT_ATTRIBUTE}]`)) {
+        element.removeAttribute(RASTER_TEXT_ATTRIBUTE);
+      }
+
+      if (i > 0) {
+        pdf.addPage([page.width, page.height], "landscape");
+      }
+      pdf.addImage(canvas.toDataURL("image/jpeg", 0.92), "JPEG", 0, 0, page.width, page.height);
+
+      for (const run of textRuns) {
+        drawTextRun(pdf, run, mmPerPx);
+      }
+    }
+
+    pdf.save(getExportFileName(title, "pdf"));
+  } finally {
+    root.unmount();
+    host.remove();
+  }
+}
+
+async function waitForAssets(element: HTMLElement) {
+  const images = Array.from(element.querySelectorAll("img"));
+  await Promise.all(images.map(img => (
+    img.complete
+      ? Promise.resolve()
+      : new Promise<void>(resolve => {
+        img.addEventListener("load", () => resolve(), { once: true });
+        img.addEventListener("error", () => resolve(), { once: true });
+      })
+  )));
+  await waitForCharts(element);
+  await document.fonts.ready;
+}
+
+/**
+ * Adjusts html2canvas' cloned DOM so it can be painted faithfully:
+ * - makes the hidden stage visible,
+ * - converts CSS color functions html2canvas cannot parse (Tailwind v4 uses oklch),
+ * - replaces the blurred image glow (CSS filters are unsupported) with an equivalent shadow,
+ * - paints cover-fitted images (full-bleed and portrait layouts) as backgrounds, since
+ *   object-fit is ignored,
+ * - hides text when it will be drawn as vector text instead, except in elements marked
+ *   by collectTextRuns as holding text Helvetica cannot encode.
+ */
+export function prepareClone(clonedElement: HTMLElement, hideText: boolean) {
+  const stage = clonedElement.closest<HTMLElement>("[data-export-stage]");
+  if (stage) stage.style.visibility = "visible";
+
+  const view = clonedElement.ownerDocument.defaultView;
+  if (!view) return;
+
+  const elements = [clonedElement, ...Array.from(clonedElement.querySelectorAll<HTMLElement>("*"))];
+  for (const element of elements) {
+    const computed = view.getComputedStyle(element);
+
+    if (element instanceof view.HTMLImageElement && computed.objectFit === "cover") {
+      const background = element.ownerDocument.createElement("div");
+      background.className = element.className;
+      background.style.backgroundImage = `url("${element.currentSrc || element.src}")`;
+      background.style.backgroundSize = "cover";
+      background.style.backgroundPosition = "center";
+      element.replaceWith(background);
+      continue;
+    }
+
+    for (const property of COLOR_PROPERTIES) {
+      const value = computed.getPropertyValue(property);
+      if (UNSUPPORTED_COLOR.test(value)) {
+        element.style.setProperty(property, value.replace(UNSUPPORTED_COLOR_GLOBAL, toRgbString));
+      }
+    }
+
+    if (element.hasAttribute("data-slide-glow")) {
+      const glowColor = element.style.getPropertyValue("background-color") || computed.backgroundColor;
+      element.style.filter = "none";
+      element.style.background = "transparent";
+      element.style.boxShadow = `0 0 40px 24px ${glowColor}`;
+    }
+
+    if (hideText) {
+      // SVG icons take their stroke from currentColor, so pin it before hiding text
+      if (element instanceof view.SVGElement) {
+        element.style.color = element.style.color || computed.color;
+      } else if (!element.hasAttribute(RASTER_TEXT_ATTRIBUTE)) {
+        element.style.setProperty("color", "transparent", "important");
+      }
+    }
+  }
+}
+
+const COLOR_PROPERTIES = [
+  "color",
+  "background-color",
+  "background-image",
+  "border-top-color",
+  "border-right-color",
+  "border-bottom-color",
+  "border-left-color",
+  "outline-color",
+  "box-shadow",
+  "text-decoration-color",
+  "fill",
+  "stroke"
+];
+
+// Matches color functions including one level of nesting, e.g. color-mix(in oklab, oklch(...) 20%, transparent)
+const UNSUPPORTED_COLOR = /(oklch|oklab|lab|lch|color|color-mix)\((?:[^()]|\([^()]*\))*\)/;
+const UNSUPPORTED_COLOR_GLOBAL = new RegExp(UNSUPPORTED_COLOR.source, "g");
+
+let colorProbe: CanvasRenderingContext2D | null = null;
+
+/**
+ * Resolves any CSS color the browser understands to rgba() by painting a single pixel.
+ */
+function toRgba(color: string): [number, number, number, number] {
+  if (!colorProbe) {
+    const canvas = document.createElement("canvas");
+    canvas.width = 1;
+    canvas.height = 1;
+    colorProbe = canvas.getContext("2d", { willReadFrequently: true });
+  }
+  if (!colorProbe) return [0, 0, 0, 1];
+
+  colorProbe.clearRect(0, 0, 1, 1);
+  colorProbe.fillStyle = color;
+  colorProbe.fillRect(0, 0, 1, 1);
+  const [r, g, b, a] = colorProbe.getImageData(0, 0, 1, 1).data;
+  return [r, g, b, a / 255];
+}
+
+function toRgbString(color: string): string {
+  const [r, g, b, a] = toRgba(color);
+  return `rgba(${r}, ${g}, ${b}, ${Number(a.toFixed(3))})`;
+}
+
+/**
+ * Measures every visible line of text in the slide, relative to the slide's top-left.
+ * Words are grouped into lines by their vertical position so wrapped paragraphs keep
+ * their on-screen line breaks. Elements with text Helvetica cannot encode are marked
+ * with RASTER_TEXT_ATTRIBUTE and skipped, so their text stays in the capture.
+ */
+function collectTextRuns(root: HTMLElement): TextRun[] {
+  const rootRect = root.getBoundingClientRect();
+  const runs: TextRun[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const range = document.createRange();
+
+  const nodes: Text[] = [];
+  while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+  for (const node of nodes) {
+    if (!HELVETICA_TEXT.test(node.textContent ?? "")) node.parentElement?.setAttribute(RASTER_TEXT_ATTRIBUTE, "");
+  }
+
+  for (const node of nodes) {
+    const parent = node.parentElement;
+    const text = node.textContent ?? "";
+    // Chart labels inside SVG stay part of the raster capture
+    if (!parent || !text.trim() || parent.closest("svg") || parent.hasAttribute(RASTER_TEXT_ATTRIBUTE) || isTransparent(parent, root)) continue;
+
+    const style = getComputedStyle(parent);
+    const fontSize = parseFloat(style.fontSize);
+    const bold = parseInt(style.fontWeight, 10) >= 600;
+    const [r, g, b] = toRgba(style.color);
+
+    let current: TextRun | null = null;
+    for (const match of text.matchAll(/\S+/g)) {
+      range.setStart(node, match.index);
+      range.setEnd(node, match.index + match[0].length);
+      const rect = range.getBoundingClientRect();
+      if (rect.width === 0) continue;
+
+      const left = rect.left - rootRect.left;
+      const top = rect.top - rootRect.top;
+
+      if (current && Math.abs(top - current.top) < fontSize / 2) {
+        current.text += ` ${match[0]}`;
+        current.width = left + rect.width - current.left;
+      } else {
+        current = { text: match[0], left, top, width: rect.width, height: rect.height, fontSize, bold, color: [r, g, b] };
+        runs.push(current);
+      }
+    }
+  }
+
+  return runs;
+}
+
+function isTransparent(element: HTMLElement, root: HTMLElement): boolean {
+  for (let current: HTMLElement | null = element; current && current !== root; current = current.parentElement) {
+    if (getComputedStyle(current).opacity === "0") return true;
+  }
+  return false;
+}
+
+function drawTextRun(pdf: jsPDF, run: TextRun, mmPerPx: number) {
+  let fontSizePt = (run.fontSize * mmPerPx) / MM_PER_PT;
+  pdf.setFont("helvetica", run.bold ? "bold" : "normal");
+  pdf.setFontSize(fontSizePt);
+
+  // Helvetica metrics differ from the on-screen font; shrink rather than overflow the line
+  const targetWidth = run.width * mmPerPx;
+  const measured = pdf.getTextWidth(run.text);
+  if (measured > targetWidth && measured > 0) {
+    fontSizePt *= targetWidth / measured;
+    pdf.setFontSize(fontSizePt);
+  }
+
+  // Place the baseline where the browser put it: centred glyph box, ~0.8em ascent
+  const baselinePx = run.top + (run.height - run.fontSize) / 2 + run.fontSize * 0.8;
+  pdf.setTextColor(...run.color);
+  pdf.text(run.text, run.left * mmPerPx, baselinePx * mmPerPx, { baseline: "alphabetic" });
+}
@@ -0,0 +1,87 @@
+/**
+ * @file pdf-text-reader.ts
+ * @description Text extraction from PDF files, in the browser
+ *
+ * Reads each page's text with pdf.js, which follows the page tree, decodes fonts through
+ * their ToUnicode maps (including the Identity-H fonts of Word and Google Docs exports)
+ * and runs in its own worker. Text items are joined into lines together with their font
+ * size, so headings can be told apart from body text by size. Scanned pages have no text
+ * to read; such files are rejected with a message suggesting another format.
+ */
+
+import { getDocument, GlobalWorkerOptions, type PDFDocumentProxy } from "pdfjs-dist";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+
+export interface PdfTextLine {
+  text: string;
+  /** Font size in text space units, used to detect headings */
+  size: number;
+}
+
+async function openPdf(buffer: ArrayBuffer): Promise<PDFDocumentProxy> {
+  if (!GlobalWorkerOptions.workerSrc) {
+    GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString();
+  }
+  try {
+    return await getDocument({ data: new Uint8Array(buffer) }).promise;
+  } catch (error) {
+    if (error instanceof Error && error.name === "PasswordException") {
+      throw new Error("The PDF is encrypted. Remove the password protection and attach it again.");
+    }
+    throw new Error("The file is not a valid PDF.");
+  }
+}
+
+/** Joins a page's text items into lines; a new line starts at an end of line, a new baseline or a new size */
+function readTextLines(items: TextItem[]): PdfTextLine[] {
+  const lines: PdfTextLine[] = [];
+  let current: (PdfTextLine & { y: number }) | null = null;
+
+  const breakLine = () => {
+    const text = current?.text.replace(/\s+/g, " ").trim();
+    if (current && text) lines.push({ text, size: current.size });
+    current = null;
+  };
+
+  for (const item of items) {
+    const [, , c, d, , y] = item.transform as number[];
+    const size = Math.round(Math.hypot(c, d) * 10) / 10;
+    if (current && item.str.trim() && (Math.abs(current.y - y) > size / 2 || Math.abs(current.size - size) > 0.5)) {
+      breakLine();
+    }
+    if (item.str) {
+      current = current ?? { text: "", size, y };
+      current.text += item.str;
+    }
+    if (item.hasEOL) breakLine();
+  }
+  breakLine();
+  return lines;
+}
+
+/**
+ * Extracts the text lines of a PDF, page by page in page order.
+ */
+export async function readPdfTextLines(buffer: ArrayBuffer): Promise<PdfTextLine[]> {
+  const pdf = await openPdf(buffer);
+  const lines: PdfTextLine[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      lines.push(...readTextLines(content.items.filter((item): item is TextItem => "str" in item)));
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  const text = lines.map(line => line.text).join("");
+  const readable = text.replace(/[\p{C}�]/gu, "").length;
+  if (text.length === 0 || readable / text.length < 0.8) {
+    throw new Error(
+      "The text of this PDF could not be read: it may be scanned or use fonts without a text mapping. Attach a DOCX or Markdown version instead."
+    );
+  }
+  return lines;
+}
@@ -0,0 +1,555 @@
+/**
+ * @file pptx-export.ts
+ * @description Client-side PowerPoint export that maps slides to native text boxes, pictures, charts and tables
+ *
+ * Everything runs in the browser: images are fetched and embedded as data URIs so the
+ * resulting .pptx opens offline in PowerPoint or Keynote and stays fully editable.
+ */
+
+import type PptxGenJS from "pptxgenjs";
+import type { GraphDataType } from "@/lib/graph-data";
+import { fetchImageData, type InlinedImage } from "@/lib/image-data";
+import { getThemePalette, type ThemePalette } from "@/lib/slide-themes";
+import type { SlideLayout } from "@/lib/slide-layouts";
+import {
+  expandTableSlides,
+  formatTableCell,
+  getColumnAlign,
+  type SlideTable
+} from "@/lib/slide-tables";
+import type { SlideContent, SlideTheme } from "@/lib/slides";
+import { getExportFileName, getInitials } from "@/lib/utils";
+
+interface PptxExportOptions {
+  title: string;
+  theme?: SlideTheme;
+  slides: SlideContent[];
+}
+
+// LAYOUT_WIDE is 13.33" x 7.5", matching the 16:9 viewer
+const SLIDE_WIDTH = 13.33;
+const SLIDE_HEIGHT = 7.5;
+const MARGIN = 0.6;
+const FONT_FACE = "Inter";
+
+// pptxgenjs expects colors without the leading '#'
+const hex = (color: string) => color.replace("#", "");
+
+type ImageLookup = Map<string, InlinedImage | null>;
+
+// Graph's default series colors (components/tambo/graph.tsx) as hex
+const CHART_COLORS = ["3D7EFF", "16DA99", "FFA53D", "F06191"];
+
+/**
+ * Builds a .pptx for the deck and triggers a download.
+ */
+export async function exportPresentationToPptx({ title, theme = "blue", slides }: PptxExportOptions) {
+  const { default: PptxGenJS } = await import("pptxgenjs");
+  const pptx = new PptxGenJS();
+  pptx.layout = "LAYOUT_WIDE";
+  pptx.title = title;
+
+  const palette = getThemePalette(theme);
+
+  // Fetch all images up front so slide building stays synchronous
+  const urls = new Set(slides.flatMap(getImageUrls));
+  const images = new Map(await Promise.all(
+    Array.from(urls, async url => [url, await fetchImageData(url)] as const)
+  ));
+
+  // Oversized tables continue on extra slides, as in the PDF export
+  expandTableSlides(slides).forEach(slide => {
+    addSlide(pptx, slide, images, palette);
+  });
+
+  await pptx.writeFile({ fileName: getExportFileName(title, "pptx") });
+}
+
+function getImageUrls(slide: SlideContent): string[] {
+  const urls = slide.imageUrl ? [slide.imageUrl] : [];
+  if (slide.layout?.kind === "grid") {
+    for (const item of slide.layout.items) {
+      if (item.imageUrl) urls.push(item.imageUrl);
+    }
+  }
+  return urls;
+}
+
+function addSlide(
+  pptx: PptxGenJS,
+  slide: SlideContent,
+  images: ImageLookup,
+  palette: ThemePalette
+) {
+  const pptxSlide = pptx.addSlide();
+  pptxSlide.background = { color: hex(palette.slide) };
+
+  if (slide.layout) {
+    addLayoutBody(pptxSlide, slide, slide.layout, images, palette);
+  } else {
+    addStandardBody(pptxSlide, slide, (slide.imageUrl && images.get(slide.imageUrl)) || null, palette);
+  }
+
+  if (slide.speakerNotes) {
+    pptxSlide.addNotes(slide.speakerNotes);
+  }
+}
+
+function addStandardBody(
+  pptxSlide: PptxGenJS.Slide,
+  slide: SlideContent,
+  image: InlinedImage | null,
+  palette: ThemePalette
+) {
+  const isBookend = slide.type === "intro" || slide.type === "outro";
+  // A chart replaces the image, as in the viewer
+  const hasImage = !!image || !!slide.chart;
+  const align = isBookend ? "center" : "left";
+
+  // Text occupies the left half when a content slide has an image or chart, like the viewer grid
+  const textWidth = hasImage && !isBookend
+    ? (SLIDE_WIDTH - MARGIN * 3) / 2
+    : SLIDE_WIDTH - MARGIN * 2;
+
+  // Slide type label
+  pptxSlide.addText((slide.type || "content").toUpperCase(), {
+    x: MARGIN, y: MARGIN, w: textWidth, h: 0.35,
+    fontFace: FONT_FACE, fontSize: 11, bold: true, charSpacing: 2,
+    color: hex(palette.accent), align
+  });
+
+  // Heading
+  pptxSlide.addText(slide.heading, {
+    x: MARGIN, y: MARGIN + 0.45, w: textWidth, h: isBookend ? 1.4 : 1.1,
+    fontFace: FONT_FACE, fontSize: isBookend ? 36 : 28, bold: true,
+    color: hex(palette.text), align, valign: "top", fit: "shrink"
+  });
+
+  // Description: one paragraph per line, matching the viewer's split('\n') rendering.
+  // The viewer leaves out an empty description when the slide has bullets.
+  const bullets = slide.bullets ?? [];
+  const paragraphs = bullets.length > 0 && !slide.description?.trim()
+    ? []
+    : (slide.description ?? "").split("\n");
+  const descriptionTop = MARGIN + (isBookend ? 2.0 : 1.7);
+  const hasText = paragraphs.some(paragraph => paragraph.trim()) || bullets.length > 0;
+  // A table takes the lower part of the slide, below a shorter band of text and media
+  const descriptionHeight = slide.table
+    ? (hasText || hasImage ? 1.5 : 0)
+    : isBookend && hasImage
+      ? 1.6
+      : SLIDE_HEIGHT - descriptionTop - MARGIN;
+
+  if (hasText) {
+    pptxSlide.addText(
+      [
+        ...paragraphs.map(paragraph => ({
+          text: paragraph,
+          options: { breakLine: true, paraSpaceAfter: 8 }
+        })),
+        // Native bullets, so the list stays editable as a list in PowerPoint
+        ...bullets.map(bullet => ({
+          text: bullet.text,
+          options: {
+            breakLine: true,
+            paraSpaceAfter: 6,
+            bullet: true,
+            indentLevel: bullet.level ?? 0,
+            align: "left" as const,
+            bold: bullet.emphasis,
+            color: bullet.emphasis ? hex(palette.accent) : undefined
+          }
+        }))
+      ],
+      {
+        x: MARGIN, y: descriptionTop, w: textWidth, h: descriptionHeight,
+        fontFace: FONT_FACE, fontSize: isBookend ? 20 : 16,
+        color: hex(palette.text), align, valign: "top", fit: "shrink"
+      }
+    );
+  }
+
+  const tableTop = descriptionTop + (descriptionHeight > 0 ? descriptionHeight + 0.1 : 0);
+  if (slide.table) {
+    addTable(pptxSlide, slide.table, tableTop, palette);
+    // There is no room for media below the text of an intro/outro slide with a table
+    if (isBookend) return;
+  }
+
+  const frame = isBookend
+    ? { x: (SLIDE_WIDTH - 4.8) / 2, y: descriptionTop + descriptionHeight + 0.2, w: 4.8, h: 2.2 }
+    : { x: MARGIN * 2 + textWidth, y: MARGIN + 1.0, w: textWidth, h: slide.table ? tableTop - MARGIN - 1.2 : 4.2 };
+
+  if (slide.chart) {
+    addChart(pptxSlide, slide.chart, frame, palette);
+  } else if (image) {
+    pptxSlide.addImage({
+      data: image.dataUrl,
+      ...frame,
+      altText: slide.imageAlt || slide.heading,
+      sizing: { type: "cover", w: frame.w, h: frame.h }
+    });
+
+    if (slide.photographer || slide.unsplashUrl) {
+      pptxSlide.addText(`Photo by ${slide.photographer || "Unknown"} on Unsplash`, {
+        x: frame.x, y: frame.y + frame.h + 0.05, w: frame.w, h: 0.3,
+        fontFace: FONT_FACE, fontSize: 9, color: hex(palette.muted), align: isBookend ? "center" : "right",
+        hyperlink: slide.unsplashUrl ? { url: slide.unsplashUrl } : undefined
+      });
+    }
+  }
+}
+
+/**
+ * Adds a slide table as a native PowerPoint table across the slide width, with the header
+ * underlined in the accent color and the highlight row tinted.
+ */
+function addTable(pptxSlide: PptxGenJS.Slide, table: SlideTable, y: number, palette: ThemePalette) {
+  const rowHeight = 0.3;
+  const noBorder: PptxGenJS.BorderProps = { type: "none" };
+  // Cell borders are top, right, bottom, left; only the bottom one is drawn
+  const bottomBorder = (
+    border: PptxGenJS.BorderProps
+  ): [PptxGenJS.BorderProps, PptxGenJS.BorderProps, PptxGenJS.BorderProps, PptxGenJS.BorderProps] =>
+    [noBorder, noBorder, border, noBorder];
+
+  const header = table.columns.map(column => ({
+    text: column.header,
+    options: {
+      bold: true,
+      color: hex(palette.accent),
+      align: getColumnAlign(column),
+      border: bottomBorder({ type: "solid", pt: 1.5, color: hex(palette.accent) })
+    }
+  }));
+  const rows = table.rows.map((cells, rowIndex) => table.columns.map((column, columnIndex) => ({
+    text: formatTableCell(cells[columnIndex], column),
+    options: {
+      align: getColumnAlign(column),
+      bold: rowIndex === table.highlightRow,
+      fill: rowIndex === table.highlightRow ? { color: hex(palette.accent), transparency: 85 } : undefined,
+      border: bottomBorder({ type: "solid", pt: 0.5, color: "E5E7EB" })
+    }
+  })));
+
+  pptxSlide.addTable([header, ...rows], {
+    x: MARGIN, y, w: SLIDE_WIDTH - MARGIN * 2, rowH: rowHeight,
+    fontFace: FONT_FACE, fontSize: 12, color: hex(palette.text), valign: "middle"
+  });
+
+  if (table.caption) {
+    pptxSlide.addText(table.caption, {
+      x: MARGIN, y: y + rowHeight * (rows.length + 1) + 0.05, w: SLIDE_WIDTH - MARGIN * 2, h: 0.3,
+      fontFace: FONT_FACE, fontSize: 10, color: hex(palette.muted)
+    });
+  }
+}
+
+/**
+ * Adds a slide chart as a native PowerPoint chart, so its data stays editable. Like Graph,
+ * only as many points as the shortest dataset has are used, and a pie shows the first dataset.
+ */
+function addChart(
+  pptxSlide: PptxGenJS.Slide,
+  chart: GraphDataType,
+  frame: { x: number; y: number; w: number; h: number },
+  palette: ThemePalette
+) {
+  const datasets = chart.datasets.filter(dataset => dataset.data.length > 0);
+  if (chart.labels.length === 0 || datasets.length === 0) return;
+
+  const pointCount = Math.min(chart.labels.length, ...datasets.map(dataset => dataset.data.length));
+  const series = (chart.type === "pie" ? datasets.slice(0, 1) : datasets).map(dataset => ({
+    name: dataset.label,
+    labels: chart.labels.slice(0, pointCount),
+    values: dataset.data.slice(0, pointCount)
+  }));
+  const colors = chart.type === "pie"
+    ? CHART_COLORS
+    : datasets.map((dataset, index) => (
+      dataset.color && /^#[0-9a-f]{6}$/i.test(dataset.color)
+        ? hex(dataset.color)
+        : CHART_COLORS[index % CHART_COLORS.length]
+    ));
+
+  pptxSlide.addChart(chart.type, series, {
+    ...frame,
+    chartColors: colors,
+    showLegend: chart.type === "pie" || series.length > 1,
+    legendPos: "b",
+    legendFontFace: FONT_FACE,
+    legendColor: hex(palette.text),
+    catAxisLabelColor: hex(palette.muted),
+    catAxisLabelFontFace: FONT_FACE,
+    valAxisLabelColor: hex(palette.muted),
+    valAxisLabelFontFace: FONT_FACE,
+    valGridLine: { color: "E5E7EB", style: "dash", size: 1 },
+    lineDataSymbol: "none"
+  });
+}
+
+/**
+ * Shared top of the body layouts: type label, heading and optional lead text.
+ * Returns the y position where the layout's own content starts.
+ */
+function addLayoutHeader(pptxSlide: PptxGenJS.Slide, slide: SlideContent, palette: ThemePalette): number {
+  const width = SLIDE_WIDTH - MARGIN * 2;
+
+  pptxSlide.addText((slide.type || "content").toUpperCase(), {
+    x: MARGIN, y: MARGIN, w: width, h: 0.35,
+    fontFace: FONT_FACE, fontSize: 11, bold: true, charSpacing: 2, color: hex(palette.accent)
+  });
+  pptxSlide.addText(slide.heading, {
+    x: MARGIN, y: MARGIN + 0.45, w: width, h: 0.9,
+    fontFace: FONT_FACE, fontSize: 28, bold: true, color: hex(palette.text), valign: "top", fit: "shrink"
+  });
+
+  if (!slide.description?.trim()) return MARGIN + 1.5;
+
+  pptxSlide.addText(slide.description.replace(/\n/g, " "), {
+    x: MARGIN, y: MARGIN + 1.4, w: width, h: 0.6,
+    fontFace: FONT_FACE, fontSize: 14, color: hex(palette.muted), valign: "top", fit: "shrink"
+  });
+  return MARGIN + 2.1;
+}
+
+/**
+ * Native PowerPoint version of each layout in components/slide-layouts.tsx.
+ */
+function addLayoutBody(
+  pptxSlide: PptxGenJS.Slide,
+  slide: SlideContent,
+  layout: SlideLayout,
+  images: ImageLookup,
+  palette: ThemePalette
+) {
+  const contentWidth = SLIDE_WIDTH - MARGIN * 2;
+
+  switch (layout.kind) {
+    case "section": {
+      if (layout.label) {
+        pptxSlide.addText(layout.label.toUpperCase(), {
+          x: MARGIN, y: 2.0, w: contentWidth, h: 0.4,
+          fontFace: FONT_FACE, fontSize: 12, bold: true, charSpacing: 3, color: hex(palette.accent), align: "center"
+        });
+      }
+      pptxSlide.addText(slide.heading, {
+        x: MARGIN, y: 2.4, w: contentWidth, h: 1.4,
+        fontFace: FONT_FACE, fontSize: 44, bold: true, color: hex(palette.text), align: "center", fit: "shrink"
+      });
+      pptxSlide.addShape("rect", {
+        x: (SLIDE_WIDTH - 1) / 2, y: 3.95, w: 1, h: 0.06, fill: { color: hex(palette.accent) }, line: { type: "none" }
+      });
+      if (slide.description?.trim()) {
+        pptxSlide.addText(slide.description.replace(/\n/g, " "), {
+          x: MARGIN * 3, y: 4.2, w: SLIDE_WIDTH - MARGIN * 6, h: 1.2,
+          fontFace: FONT_FACE, fontSize: 20, color: hex(palette.muted), align: "center", valign: "top", fit: "shrink"
+        });
+      }
+      return;
+    }
+
+    case "comparison": {
+      const top = addLayoutHeader(pptxSlide, slide, palette);
+      const columnWidth = (contentWidth - MARGIN) / 2;
+      const height = SLIDE_HEIGHT - top - MARGIN;
+
+      [layout.left, layout.right].forEach((column, index) => {
+        const x = MARGIN + index * (columnWidth + MARGIN);
+        pptxSlide.addShape("rect", {
+          x, y: top, w: columnWidth, h: height,
+          fill: { color: hex(palette.slide) }, line: { color: hex(palette.muted), width: 0.75 }
+        });
+        pptxSlide.addText(column.title, {
+          x: x + 0.25, y: top + 0.2, w: columnWidth - 0.5, h: 0.5,
+          fontFace: FONT_FACE, fontSize: 18, bold: true, color: hex(palette.accent)
+        });
+        pptxSlide.addText(
+          column.points.map(point => ({ text: point, options: { bullet: true, breakLine: true, paraSpaceAfter: 6 } })),
+          {
+            x: x + 0.25, y: top + 0.8, w: columnWidth - 0.5, h: height - 1.0,
+            fontFace: FONT_FACE, fontSize: 15, color: hex(palette.text), valign: "top", fit: "shrink"
+          }
+        );
+      });
+      return;
+    }
+
+    case "image": {
+      const image = slide.imageUrl ? images.get(slide.imageUrl) : null;
+      if (image) {
+        pptxSlide.addImage({
+          data: image.dataUrl, x: 0, y: 0, w: SLIDE_WIDTH, h: SLIDE_HEIGHT,
+          altText: slide.imageAlt || slide.heading,
+          sizing: { type: "cover", w: SLIDE_WIDTH, h: SLIDE_HEIGHT }
+        });
+      } else {
+        pptxSlide.background = { color: "1F2937" };
+      }
+      pptxSlide.addShape("rect", {
+        x: 0, y: SLIDE_HEIGHT - 2.6, w: SLIDE_WIDTH, h: 2.6,
+        fill: { color: "000000", transparency: 45 }, line: { type: "none" }
+      });
+      pptxSlide.addText(slide.heading, {
+        x: MARGIN, y: SLIDE_HEIGHT - 2.3, w: contentWidth, h: 1.0,
+        fontFace: FONT_FACE, fontSize: 36, bold: true, color: "FFFFFF", fit: "shrink"
+      });
+      if (layout.caption) {
+        pptxSlide.addText(layout.caption, {
+          x: MARGIN, y: SLIDE_HEIGHT - 1.3, w: contentWidth, h: 0.6,
+          fontFace: FONT_FACE, fontSize: 18, color: "FFFFFF", fit: "shrink"
+        });
+      }
+      if (slide.photographer) {
+        pptxSlide.addText(`Photo by ${slide.photographer} on Unsplash`, {
+          x: MARGIN, y: SLIDE_HEIGHT - 0.6, w: contentWidth, h: 0.3,
+          fontFace: FONT_FACE, fontSize: 9, color: "DDDDDD",
+          hyperlink: slide.unsplashUrl ? { url: slide.unsplashUrl } : undefined
+        });
+      }
+      return;
+    }
+
+    case "quote": {
+      pptxSlide.addText(slide.heading.toUpperCase(), {
+        x: MARGIN, y: 1.0, w: contentWidth, h: 0.4,
+        fontFace: FONT_FACE, fontSize: 12, bold: true, charSpacing: 3, color: hex(palette.accent), align: "center"
+      });
+      pptxSlide.addText(`\u201C${layout.quote}\u201D`, {
+        x: MARGIN * 2, y: 1.6, w: SLIDE_WIDTH - MARGIN * 4, h: 3.4,
+        fontFace: FONT_FACE, fontSize: 30, color: hex(palette.text), align: "center", valign: "middle", fit: "shrink"
+      });
+      if (layout.attribution) {
+        pptxSlide.addText(
+          [
+            { text: `\u2014 ${layout.attribution}`, options: { bold: true } },
+            ...(layout.role ? [{ text: `, ${layout.role}`, options: { color: hex(palette.muted) } }] : [])
+          ],
+          {
+            x: MARGIN, y: 5.3, w: contentWidth, h: 0.5,
+            fontFace: FONT_FACE, fontSize: 18, color: hex(palette.text), align: "center"
+          }
+        );
+      }
+      return;
+    }
+
+    case "agenda": {
+      const top = addLayoutHeader(pptxSlide, slide, palette);
+      const rowHeight = Math.min(0.75, (SLIDE_HEIGHT - top - MARGIN) / Math.max(layout.items.length, 1));
+
+      layout.items.forEach((item, index) => {
+        const y = top + index * rowHeight;
+        pptxSlide.addText(String(index + 1).padStart(2, "0"), {
+          x: MARGIN, y, w: 0.9, h: rowHeight,
+          fontFace: FONT_FACE, fontSize: 24, bold: true, color: hex(palette.accent), valign: "middle"
+        });
+        pptxSlide.addText(item.title, {
+          x: MARGIN + 1.0, y, w: contentWidth - 3.6, h: rowHeight,
+          fontFace: FONT_FACE, fontSize: 18, color: hex(palette.text), valign: "middle", fit: "shrink"
+        });
+        if (item.detail) {
+          pptxSlide.addText(item.detail, {
+            x: SLIDE_WIDTH - MARGIN - 2.6, y, w: 2.6, h: rowHeight,
+            fontFace: FONT_FACE, fontSize: 13, color: hex(palette.muted), align: "right", valign: "middle"
+          });
+        }
+      });
+      return;
+    }
+
+    case "timeline": {
+      const top = addLayoutHeader(pptxSlide, slide, palette) + 0.3;
+      const count = Math.max(layout.events.length, 1);
+      const columnWidth = contentWidth / count;
+
+      pptxSlide.addShape("line", {
+        x: MARGIN, y: top + 0.1, w: contentWidth, h: 0, line: { color: hex(palette.accent), width: 1.5 }
+      });
+      layout.events.forEach((event, index) => {
+        const x = MARGIN + index * columnWidth;
+        pptxSlide.addShape("ellipse", {
+          x, y: top, w: 0.2, h: 0.2, fill: { color: hex(palette.accent) }, line: { type: "none" }
+        });
+        pptxSlide.addText(
+          [
+            { text: event.date, options: { bold: true, color: hex(palette.accent), fontSize: 12, breakLine: true } },
+            { text: event.title, options: { bold: true, fontSize: 15, breakLine: true } },
+            ...(event.description ? [{ text: event.description, options: { fontSize: 12, color: hex(palette.muted) } }] : [])
+          ],
+          {
+            x, y: top + 0.4, w: columnWidth - 0.2, h: SLIDE_HEIGHT - top - 0.4 - MARGIN,
+            fontFace: FONT_FACE, color: hex(palette.text), valign: "top", fit: "shrink", paraSpaceAfter: 4
+          }
+        );
+      });
+      return;
+    }
+
+    case "kpi": {
+      const top = addLayoutHeader(pptxSlide, slide, palette);
+      const columnWidth = contentWidth / Math.max(layout.metrics.length, 1);
+
+      layout.metrics.forEach((metric, index) => {
+        const x = MARGIN + index * columnWidth;
+        pptxSlide.addText(metric.value, {
+          x, y: top + 0.5, w: columnWidth, h: 1.3,
+          fontFace: FONT_FACE, fontSize: 54, bold: true, color: hex(palette.accent), align: "center", fit: "shrink"
+        });
+        pptxSlide.addText(metric.label, {
+          x, y: top + 1.9, w: columnWidth, h: 0.6,
+          fontFace: FONT_FACE, fontSize: 16, color: hex(palette.text), align: "center", fit: "shrink"
+        });
+        if (metric.change) {
+          pptxSlide.addText(metric.change, {
+            x, y: top + 2.5, w: columnWidth, h: 0.4,
+            fontFace: FONT_FACE, fontSize: 12, color: hex(palette.muted), align: "center"
+          });
+        }
+      });
+      return;
+    }
+
+    case "grid": {
+      const top = addLayoutHeader(pptxSlide, slide, palette);
+      const perRow = Math.max(1, Math.min(layout.items.length, 4));
+      const rows = Math.ceil(layout.items.length / perRow);
+      const cellWidth = contentWidth / perRow;
+      const cellHeight = (SLIDE_HEIGHT - top - MARGIN) / Math.max(rows, 1);
+      const portrait = Math.min(0.9, cellHeight * 0.4);
+
+      layout.items.forEach((item, index) => {
+        const x = MARGIN + (index % perRow) * cellWidth;
+        const y = top + Math.floor(index / perRow) * cellHeight;
+        const portraitX = x + (cellWidth - portrait) / 2;
+        const image = item.imageUrl ? images.get(item.imageUrl) : null;
+
+        if (image) {
+          pptxSlide.addImage({
+            data: image.dataUrl, x: portraitX, y, w: portrait, h: portrait, rounding: true,
+            altText: item.title, sizing: { type: "cover", w: portrait, h: portrait }
+          });
+        } else {
+          pptxSlide.addText(getInitials(item.title), {
+            shape: "ellipse", x: portraitX, y, w: portrait, h: portrait,
+            fontFace: FONT_FACE, fontSize: 16, bold: true, color: hex(palette.accent), align: "center",
+            line: { color: hex(palette.accent), width: 1.5 }
+          });
+        }
+        pptxSlide.addText(
+          [
+            { text: item.title, options: { bold: true, fontSize: 14, breakLine: true } },
+            ...(item.subtitle ? [{ text: item.subtitle, options: { fontSize: 12, color: hex(palette.accent), breakLine: true } }] : []),
+            ...(item.description ? [{ text: item.description, options: { fontSize: 11, color: hex(palette.muted) } }] : [])
+          ],
+          {
+            x: x + 0.1, y: y + portrait + 0.1, w: cellWidth - 0.2, h: cellHeight - portrait - 0.2,
+            fontFace: FONT_FACE, color: hex(palette.text), align: "center", valign: "top", fit: "shrink"
+          }
+        );
+      });
+      return;
+    }
+  }
+}
+
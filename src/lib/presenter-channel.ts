@@ -0,0 +1,33 @@
+/**
+ * @file presenter-channel.ts
+ * @description Messages exchanged between the audience window and the presenter view
+ *
+ * Both windows share an origin, so a BroadcastChannel keyed by the deck id is enough
+ * to keep them in sync without any server round-trip.
+ */
+
+import type { SlideContent, SlideTheme } from "@/lib/slides";
+
+export interface PresenterState {
+  title: string;
+  theme: SlideTheme;
+  slides: SlideContent[];
+  currentSlide: number;
+  /** Bullets revealed on the current slide when building bullets one at a time */
+  revealedBullets?: number;
+}
+
+export type PresenterMessage =
+  | { type: "request-state" }
+  | { type: "state"; state: PresenterState }
+  /** Next/previous build step: reveals or hides a bullet, or changes slide */
+  | { type: "step"; direction: 1 | -1 }
+  | { type: "closed" };
+
+export function openPresenterChannel(deckId: string): BroadcastChannel {
+  return new BroadcastChannel(`presenter:${deckId}`);
+}
+
+export function getPresenterUrl(deckId: string): string {
+  return `/presenter?deck=${encodeURIComponent(deckId)}`;
+}
@@ -0,0 +1,156 @@
+/**
+ * @file slide-claims.ts
+ * @description Fact-check markers for the figures on a slide
+ *
+ * A claim is a figure on a slide ("$500 billion", "7.2%", a {{variable}} still waiting for
+ * a value) or the data of its chart or table, with a status: verified, placeholder or
+ * needs-source. Generated decks start with every figure marked as a placeholder
+ * (markNumericClaims), because template and planner figures are illustrative. The viewer
+ * highlights unverified claims and the PDF, PowerPoint and HTML exports ask before
+ * exporting them. A claim whose text no longer appears on the slide is resolved: editing
+ * in a real figure clears it.
+ */
+
+import { z } from "zod";
+import { factPattern, findFigures } from "@/lib/deck-templates";
+import type { SlideContent } from "@/lib/slides";
+
+export const CLAIM_STATUSES = ["verified", "placeholder", "needs-source"] as const;
+
+export type ClaimStatus = (typeof CLAIM_STATUSES)[number];
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  verified: "Verified",
+  placeholder: "Placeholder",
+  "needs-source": "Needs source"
+};
+
+export const claimSchema = z.object({
+  text: z.string()
+    .describe('The figure as it appears on the slide, e.g. "$500 billion"; for chart and table claims, the data\'s label'),
+  target: z.enum(["text", "chart", "table"]).optional()
+    .describe("Where the claim is: the slide text (default), the chart's data or the table's figures"),
+  status: z.enum(CLAIM_STATUSES)
+    .describe("verified: checked against a source; placeholder: illustrative, to be replaced; needs-source: plausible but not yet sourced"),
+  source: z.string().optional().describe("Where the figure comes from, e.g. a report and its date")
+});
+
+export type SlideClaim = z.infer<typeof claimSchema>;
+
+const VARIABLE_PATTERN = /\{\{\s*[a-zA-Z]\w*\s*\}\}/g;
+
+/** The text the audience sees on a slide: heading, description, bullets and layout content */
+function visibleTexts(slide: SlideContent): string[] {
+  const texts = [slide.heading, slide.description, ...(slide.bullets ?? []).map(bullet => bullet.text)];
+  const layout = slide.layout;
+  switch (layout?.kind) {
+    case "section":
+      texts.push(layout.label ?? "");
+      break;
+    case "comparison":
+      texts.push(...[layout.left, layout.right].flatMap(column => [column.title, ...column.points]));
+      break;
+    case "image":
+      texts.push(layout.caption ?? "");
+      break;
+    case "quote":
+      texts.push(layout.quote);
+      break;
+    case "agenda":
+      texts.push(...layout.items.flatMap(item => [item.title, item.detail ?? ""]));
+      break;
+    case "timeline":
+      texts.push(...layout.events.flatMap(event => [event.title, event.description ?? ""]));
+      break;
+    case "kpi":
+      texts.push(...layout.metrics.flatMap(metric => [metric.value, metric.label, metric.change ?? ""]));
+      break;
+    case "grid":
+      texts.push(...layout.items.flatMap(item => [item.title, item.subtitle ?? "", item.description ?? ""]));
+      break;
+  }
+  return texts.filter(Boolean);
+}
+
+const claimKey = (claim: SlideClaim) => `${claim.target ?? "text"}:${claim.text}`;
+
+/** Every figure, unfilled {{variable}}, chart and numeric table on the slide, as placeholders */
+export function detectSlideClaims(slide: SlideContent): SlideClaim[] {
+  const claims = new Map<string, SlideClaim>();
+  for (const text of visibleTexts(slide)) {
+    const figures = [...(text.match(VARIABLE_PATTERN) ?? []), ...findFigures(text.replace(VARIABLE_PATTERN, " ")).map(figure => figure.text)];
+    for (const figure of figures) {
+      const claim: SlideClaim = { text: figure, status: "placeholder" };
+      claims.set(claimKey(claim), claim);
+    }
+  }
+
+  if (slide.chart) {
+    const label = slide.chart.datasets.map(dataset => dataset.label).join(", ") || slide.heading;
+    claims.set(`chart:${label}`, { text: label, target: "chart", status: "placeholder" });
+  }
+  const numericColumns = slide.table?.columns.filter(column => column.type && column.type !== "text") ?? [];
+  if (numericColumns.length > 0) {
+    const label = numericColumns.map(column => column.header).join(", ");
+    claims.set(`table:${label}`, { text: label, target: "table", status: "placeholder" });
+  }
+  return [...claims.values()];
+}
+
+/**
+ * Marks every figure on the slides as a placeholder claim. Claims the slides already have
+ * keep their status and source.
+ */
+export function markNumericClaims<T extends SlideContent>(slides: T[]): T[] {
+  return slides.map(slide => {
+    const existing = new Map((slide.claims ?? []).map(claim => [claimKey(claim), claim]));
+    const claims = detectSlideClaims(slide).map(claim => existing.get(claimKey(claim)) ?? claim);
+    const kept = (slide.claims ?? []).filter(claim => !claims.some(other => claimKey(other) === claimKey(claim)));
+    const merged = [...claims, ...kept];
+    return merged.length > 0 ? { ...slide, claims: merged } : slide;
+  });
+}
+
+/** The slide's claims that still apply: their text is still on the slide, or the chart or table is */
+export function activeClaims(slide: SlideContent): SlideClaim[] {
+  const texts = visibleTexts(slide);
+  return (slide.claims ?? []).filter(claim => {
+    if (claim.target === "chart") return !!slide.chart;
+    if (claim.target === "table") return !!slide.table;
+    return texts.some(text => factPattern(claim.text).test(text));
+  });
+}
+
+export function unresolvedClaims(slide: SlideContent): SlideClaim[] {
+  return activeClaims(slide).filter(claim => claim.status !== "verified");
+}
+
+/** A {{variable}} nobody filled in; exports refuse these rather than print the braces */
+export const isUnfilledVariable = (claim: SlideClaim) => new RegExp(`^${VARIABLE_PATTERN.source}$`).test(claim.text);
+
+/** Unverified claims per slide, for the export check */
+export function findUnresolvedClaims(slides: SlideContent[]): { slideIndex: number; claims: SlideClaim[] }[] {
+  return slides
+    .map((slide, slideIndex) => ({ slideIndex, claims: unresolvedClaims(slide) }))
+    .filter(entry => entry.claims.length > 0);
+}
+
+/** Splits a text around the given claims, so the viewer can highlight them */
+export function splitByClaims(text: string, claims: SlideClaim[]): { text: string; claim?: SlideClaim }[] {
+  const textClaims = claims
+    .filter(claim => (claim.target ?? "text") === "text" && claim.text)
+    .sort((a, b) => b.text.length - a.text.length);
+  if (textClaims.length === 0) return [{ text }];
+
+  const pattern = new RegExp(textClaims.map(claim => factPattern(claim.text).source).join("|"), "g");
+  const parts: { text: string; claim?: SlideClaim }[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > last) parts.push({ text: text.slice(last, index) });
+    parts.push({ text: match[0], claim: textClaims.find(claim => claim.text === match[0]) });
+    last = index + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last) });
+  return parts;
+}
@@ -0,0 +1,102 @@
+/**
+ * @file slide-layouts.ts
+ * @description Schemas for the special slide layouts
+ *
+ * A slide without a `layout` is the standard heading + text + optional image slide. A
+ * layout replaces the body of the slide with its own structure; each one has its own
+ * schema so the assistant can pick the layout that fits the content. Renderers live in
+ * components/slide-layouts.tsx (used by the viewer and the PDF/HTML exports) and in
+ * pptx-export.ts.
+ */
+
+import { z } from "zod";
+
+export const sectionLayoutSchema = z.object({
+  kind: z.literal("section"),
+  label: z.string().optional().describe('Small label above the heading, e.g. "Part 2"')
+}).describe("Section divider opening a new part of the deck: large centered heading, description as subtitle");
+
+const comparisonColumnSchema = z.object({
+  title: z.string().describe("Column title, e.g. the option being compared"),
+  points: z.array(z.string()).describe("Short points for this side")
+});
+
+export const comparisonLayoutSchema = z.object({
+  kind: z.literal("comparison"),
+  left: comparisonColumnSchema,
+  right: comparisonColumnSchema
+}).describe("Two-column comparison, e.g. before/after, pros/cons or option A vs option B");
+
+export const imageLayoutSchema = z.object({
+  kind: z.literal("image"),
+  caption: z.string().optional().describe("Caption shown over the image")
+}).describe("Full-bleed image: the slide image fills the slide with the heading and caption over it; needs imageUrl");
+
+export const quoteLayoutSchema = z.object({
+  kind: z.literal("quote"),
+  quote: z.string().describe("The quotation, without quote marks"),
+  attribution: z.string().optional().describe("Who said it"),
+  role: z.string().optional().describe("Role or source of the person quoted")
+}).describe("A single large quotation");
+
+export const agendaLayoutSchema = z.object({
+  kind: z.literal("agenda"),
+  items: z.array(z.object({
+    title: z.string(),
+    detail: z.string().optional().describe("Optional detail, e.g. duration or presenter")
+  })).describe("Agenda items in order")
+}).describe("Numbered agenda of the topics covered");
+
+export const timelineLayoutSchema = z.object({
+  kind: z.literal("timeline"),
+  events: z.array(z.object({
+    date: z.string().describe('Date or period label, e.g. "Q3 2024"'),
+    title: z.string(),
+    description: z.string().optional()
+  })).describe("Events in chronological order, ideally 3-6")
+}).describe("Horizontal timeline of milestones");
+
+export const kpiLayoutSchema = z.object({
+  kind: z.literal("kpi"),
+  metrics: z.array(z.object({
+    value: z.string().describe('The big number, e.g. "$4.2M" or "37%"'),
+    label: z.string().describe("What the number measures"),
+    change: z.string().optional().describe('Change versus a previous period, e.g. "+12% YoY"')
+  })).describe("One to four headline metrics")
+}).describe("Big numbers: one to four key metrics shown large");
+
+export const gridLayoutSchema = z.object({
+  kind: z.literal("grid"),
+  items: z.array(z.object({
+    title: z.string().describe("Name or card title"),
+    subtitle: z.string().optional().describe("Role or short label"),
+    description: z.string().optional(),
+    imageUrl: z.string().optional().describe("Portrait or illustration URL")
+  })).describe("Cards in reading order, ideally 3-8")
+}).describe("Team members or feature cards in a grid");
+
+export const slideLayoutSchema = z.discriminatedUnion("kind", [
+  sectionLayoutSchema,
+  comparisonLayoutSchema,
+  imageLayoutSchema,
+  quoteLayoutSchema,
+  agendaLayoutSchema,
+  timelineLayoutSchema,
+  kpiLayoutSchema,
+  gridLayoutSchema
+]);
+
+export type SlideLayout = z.infer<typeof slideLayoutSchema>;
+
+export type SlideLayoutKind = SlideLayout["kind"];
+
+export const SLIDE_LAYOUT_LABELS: Record<SlideLayoutKind, string> = {
+  section: "Section divider",
+  comparison: "Comparison",
+  image: "Full-bleed image",
+  quote: "Quote",
+  agenda: "Agenda",
+  timeline: "Timeline",
+  kpi: "Big numbers",
+  grid: "Team / grid"
+};
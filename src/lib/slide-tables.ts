@@ -0,0 +1,122 @@
+/**
+ * @file slide-tables.ts
+ * @description Table content block for slides: schema, cell formatting and pagination
+ *
+ * A table is part of a standard slide, below its text. The live viewer pages through long
+ * tables and sorts them by column (components/slide-table.tsx); exports cannot, so
+ * expandTableSlides splits an oversized table across continuation slides before the
+ * PDF, PowerPoint and HTML exports render the deck.
+ */
+
+import { z } from "zod";
+import type { SlideContent } from "@/lib/slides";
+
+export const TABLE_COLUMN_TYPES = ["text", "number", "currency", "percent"] as const;
+
+export type TableColumnType = (typeof TABLE_COLUMN_TYPES)[number];
+
+export const tableColumnSchema = z.object({
+  header: z.string(),
+  type: z.enum(TABLE_COLUMN_TYPES).optional()
+    .describe("How cells are formatted and sorted (default: text). Numeric columns take numbers, e.g. 0.25 is shown as 25% in a percent column"),
+  align: z.enum(["left", "center", "right"]).optional()
+    .describe("Cell alignment (default: right for numeric columns, left for text)")
+});
+
+export const tableCellSchema = z.union([z.string(), z.number()]);
+
+export const slideTableSchema = z.object({
+  columns: z.array(tableColumnSchema).describe("Table columns, left to right"),
+  rows: z.array(z.array(tableCellSchema)).describe("Rows of cells, one cell per column"),
+  highlightRow: z.number().int().optional()
+    .describe("Index (0-based) of a row to highlight, e.g. the recommended pricing tier"),
+  caption: z.string().optional().describe("Short note shown under the table, e.g. the data source")
+});
+
+export type TableColumn = z.infer<typeof tableColumnSchema>;
+export type TableCell = z.infer<typeof tableCellSchema>;
+export type SlideTable = z.infer<typeof slideTableSchema>;
+
+/** Rows that fit on one slide next to its heading and a short description */
+export const TABLE_ROWS_PER_SLIDE = 8;
+
+export function getColumnAlign(column: TableColumn): "left" | "center" | "right" {
+  return column.align ?? ((column.type ?? "text") === "text" ? "left" : "right");
+}
+
+export function formatTableCell(value: TableCell | undefined, column: TableColumn): string {
+  if (value === undefined) return "";
+  if (typeof value === "string") return value;
+
+  switch (column.type) {
+    case "currency":
+      return value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 2 });
+    case "percent":
+      return value.toLocaleString("en-US", { style: "percent", maximumFractionDigits: 1 });
+    default:
+      return value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+  }
+}
+
+/**
+ * Orders cells for sorting: numbers (and numeric strings like "$1,200") numerically,
+ * everything else alphabetically, with empty cells last.
+ */
+export function compareTableCells(a: TableCell | undefined, b: TableCell | undefined): number {
+  const toNumber = (value: TableCell | undefined) => {
+    if (typeof value === "number") return value;
+    if (value === undefined || value.trim() === "") return NaN;
+    return Number(value.replace(/[$€£,%\s]/g, ""));
+  };
+
+  const numberA = toNumber(a);
+  const numberB = toNumber(b);
+  if (!Number.isNaN(numberA) && !Number.isNaN(numberB)) return numberA - numberB;
+  if (a === undefined || a === "") return 1;
+  if (b === undefined || b === "") return -1;
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * Replaces each slide whose table has more than TABLE_ROWS_PER_SLIDE rows with one slide
+ * per page of rows. Continuation slides repeat the header row and are marked "(cont.)";
+ * the highlight row stays on the page that contains it.
+ */
+export function expandTableSlides(slides: SlideContent[]): SlideContent[] {
+  return slides.flatMap(slide => {
+    const { table } = slide;
+    if (!table || table.rows.length <= TABLE_ROWS_PER_SLIDE) return [slide];
+
+    const pageCount = Math.ceil(table.rows.length / TABLE_ROWS_PER_SLIDE);
+    return Array.from({ length: pageCount }, (_, page): SlideContent => {
+      const start = page * TABLE_ROWS_PER_SLIDE;
+      const highlightRow = table.highlightRow !== undefined &&
+        table.highlightRow >= start && table.highlightRow < start + TABLE_ROWS_PER_SLIDE
+        ? table.highlightRow - start
+        : undefined;
+
+      return {
+        ...slide,
+        heading: page === 0 ? slide.heading : `${slide.heading} (cont.)`,
+        // Text, bullets, layout, media with its credits, speaker notes and fact-check claims
+        // belong to the first page only
+        description: page === 0 ? slide.description : "",
+        bullets: page === 0 ? slide.bullets : undefined,
+        layout: page === 0 ? slide.layout : undefined,
+        imageUrl: page === 0 ? slide.imageUrl : undefined,
+        imageAlt: page === 0 ? slide.imageAlt : undefined,
+        photographer: page === 0 ? slide.photographer : undefined,
+        unsplashUrl: page === 0 ? slide.unsplashUrl : undefined,
+        chart: page === 0 ? slide.chart : undefined,
+        speakerNotes: page === 0 ? slide.speakerNotes : undefined,
+        claims: page === 0 ? slide.claims : undefined,
+        table: {
+          ...table,
+          rows: table.rows.slice(start, start + TABLE_ROWS_PER_SLIDE),
+          highlightRow,
+          caption: page === pageCount - 1 ? table.caption : `Continued on next slide (${page + 1}/${pageCount})`
+        }
+      };
+    });
+  });
+}
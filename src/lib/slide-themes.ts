@@ -0,0 +1,104 @@
+/**
+ * @file slide-themes.ts
+ * @description Tailwind class sets for each presentation theme
+ */
+
+import type { SlideTheme } from "@/lib/slides";
+
+export interface ThemeClasses {
+  container: string;
+  slide: string;
+  accent: string;
+  button: string;
+  progress: string;
+  progressBar: string;
+  imageGlowBg: string;
+  imageGlowRing: string;
+}
+
+export function getThemeClasses(theme: SlideTheme = "blue"): ThemeClasses {
+  switch (theme) {
+    case "dark":
+      return {
+        container: "bg-gray-900 text-white",
+        slide: "bg-gray-800 border-gray-700",
+        accent: "text-gray-300",
+        button: "bg-gray-700 hover:bg-gray-600 text-white",
+        progress: "bg-gray-300",
+        progressBar: "bg-white",
+        imageGlowBg: "bg-white/10",
+        imageGlowRing: "ring-1 ring-white/20"
+      };
+    case "purple":
+      return {
+        container: "bg-purple-50 text-gray-900",
+        slide: "bg-white border-purple-200 shadow-lg",
+        accent: "text-purple-600",
+        button: "bg-purple-600 hover:bg-purple-700 text-white",
+        progress: "bg-purple-200",
+        progressBar: "bg-purple-600",
+        imageGlowBg: "bg-purple-500/20",
+        imageGlowRing: "ring-1 ring-purple-200/60"
+      };
+    case "light":
+      return {
+        container: "bg-gray-50 text-gray-900",
+        slide: "bg-white border-gray-200 shadow-lg",
+        accent: "text-gray-600",
+        button: "bg-gray-600 hover:bg-gray-700 text-white",
+        progress: "bg-gray-200",
+        progressBar: "bg-gray-600",
+        imageGlowBg: "bg-gray-400/20",
+        imageGlowRing: "ring-1 ring-gray-300/60"
+      };
+    case "gradient":
+      return {
+        container: "bg-gradient-to-br from-blue-50 to-purple-50 text-gray-900",
+        slide: "bg-white/90 backdrop-blur-sm border border-white/20 shadow-xl",
+        accent: "text-blue-600",
+        button: "bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white",
+        progress: "bg-white/30",
+        progressBar: "bg-gradient-to-r from-blue-500 to-purple-500",
+        imageGlowBg: "bg-gradient-to-r from-blue-500/20 to-purple-500/20",
+        imageGlowRing: "ring-1 ring-blue-200/60"
+      };
+    default: // blue
+      return {
+        container: "bg-blue-50 text-gray-900",
+        slide: "bg-white border-blue-200 shadow-lg",
+        accent: "text-blue-600",
+        button: "bg-blue-600 hover:bg-blue-700 text-white",
+        progress: "bg-blue-200",
+        progressBar: "bg-blue-600",
+        imageGlowBg: "bg-blue-500/20",
+        imageGlowRing: "ring-1 ring-blue-200/60"
+      };
+  }
+}
+
+/**
+ * Plain hex colors for each theme, for renderers that cannot use Tailwind classes
+ * (PowerPoint export). Values mirror the Tailwind palette used in getThemeClasses.
+ */
+export interface ThemePalette {
+  background: string;
+  slide: string;
+  text: string;
+  accent: string;
+  muted: string;
+}
+
+export function getThemePalette(theme: SlideTheme = "blue"): ThemePalette {
+  switch (theme) {
+    case "dark":
+      return { background: "#111827", slide: "#1f2937", text: "#ffffff", accent: "#d1d5db", muted: "#9ca3af" };
+    case "purple":
+      return { background: "#faf5ff", slide: "#ffffff", text: "#111827", accent: "#9333ea", muted: "#6b7280" };
+    case "light":
+      return { background: "#f9fafb", slide: "#ffffff", text: "#111827", accent: "#4b5563", muted: "#6b7280" };
+    case "gradient":
+      return { background: "#eff6ff", slide: "#ffffff", text: "#111827", accent: "#2563eb", muted: "#6b7280" };
+    default: // blue
+      return { background: "#eff6ff", slide: "#ffffff", text: "#111827", accent: "#2563eb", muted: "#6b7280" };
+  }
+}
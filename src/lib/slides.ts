@@ -0,0 +1,85 @@
+/**
+ * @file slides.ts
+ * @description Shared slide model for the viewer, the presenter view and the tool schemas
+ */
+
+import { z } from "zod";
+import { graphDataSchema } from "@/lib/graph-data";
+import { datasetBindingSchema, type Dataset } from "@/lib/datasets";
+import { claimSchema } from "@/lib/slide-claims";
+import { slideLayoutSchema } from "@/lib/slide-layouts";
+import { slideTableSchema } from "@/lib/slide-tables";
+
+export const SLIDE_THEMES = ["light", "dark", "blue", "purple", "gradient"] as const;
+
+export type SlideTheme = (typeof SLIDE_THEMES)[number];
+
+export const MAX_BULLET_LEVEL = 2;
+
+export const bulletSchema = z.object({
+  text: z.string().describe("Bullet text, one short point"),
+  level: z.number().int().min(0).max(MAX_BULLET_LEVEL).optional()
+    .describe("Nesting level: 0 for a top-level point (default), 1-2 for sub-points of the bullet above"),
+  emphasis: z.boolean().optional().describe("Highlight this bullet as a key point")
+});
+
+export type Bullet = z.infer<typeof bulletSchema>;
+
+export const slideSchema = z.object({
+  type: z.enum(["intro", "content", "outro"]).describe("Slide type"),
+  heading: z.string().describe("Slide heading"),
+  description: z.string().describe("Slide content"),
+  imageUrl: z.string().optional().describe("Image URL for the slide"),
+  imageAlt: z.string().optional().describe("Image alt text"),
+  imageQuery: z.string().optional().describe("Search query used for the image"),
+  photographer: z.string().optional().describe("Photographer name"),
+  unsplashUrl: z.string().optional().describe("Unsplash URL for attribution"),
+  speakerNotes: z.string().optional()
+    .describe("Presenter-only notes shown in the presenter view, never on the slide itself"),
+  bullets: z.array(bulletSchema).optional()
+    .describe("Bullet list shown below the description; use instead of putting bullets in the description text"),
+  chart: graphDataSchema.optional()
+    .describe("Bar, line or pie chart shown in the slide's media area instead of the image; use it for numeric data"),
+  table: slideTableSchema.optional()
+    .describe("Table shown below the slide text, e.g. pricing tiers or a competitor matrix; long tables are paged and split across continuation slides on export"),
+  layout: slideLayoutSchema.optional()
+    .describe("Special layout for the slide body; omit for the standard heading, text and image slide"),
+  dataBinding: datasetBindingSchema.optional(),
+  claims: z.array(claimSchema).optional()
+    .describe("Fact-check status of the slide's figures; figures in generated slides start as placeholders until verified")
+});
+
+export type SlideContent = z.infer<typeof slideSchema>;
+
+export interface Slide extends SlideContent {
+  id: number;
+}
+
+/**
+ * The content of a whole deck. Persisted decks wrap this in a versioned DeckDocument
+ * (see deck-document.ts).
+ */
+export interface Deck {
+  title: string;
+  theme?: SlideTheme;
+  slides: SlideContent[];
+  /** Spreadsheet data behind the deck's bound chart and table slides */
+  datasets?: Dataset[];
+}
+
+/**
+ * Props the assistant sets when it renders or edits a presentation.
+ */
+export const presentationPropsSchema = z.object({
+  title: z.string().describe("Presentation title"),
+  theme: z.enum(SLIDE_THEMES).optional()
+    .describe("Visual theme for the presentation"),
+  slides: z.array(slideSchema)
+    .describe("Array of slides with content, optional images and optional speaker notes"),
+  domain: z.string().optional()
+    .describe("Domain returned by generate-presentation, stored with the deck when it is saved"),
+  autoPlay: z.boolean().optional().describe("Auto-advance slides"),
+  showProgress: z.boolean().optional().describe("Show progress indicator")
+});
+
+export type PresentationProps = z.infer<typeof presentationPropsSchema>;
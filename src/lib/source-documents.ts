@@ -0,0 +1,321 @@
+/**
+ * @file source-documents.ts
+ * @description Documents attached in the chat (Markdown, PDF, DOCX) and their section structure
+ *
+ * Each format is read in the browser into a flat list of blocks (headings, paragraphs and
+ * list items), which createSourceDocument nests into numbered sections. The assistant is
+ * sent the section list with a few key points and figures per section; the full text
+ * stays in the browser for the deck outline tool (see document-outline.ts).
+ */
+
+export const SOURCE_DOCUMENT_FORMATS = ["markdown", "pdf", "docx", "text"] as const;
+
+export type SourceDocumentFormat = (typeof SOURCE_DOCUMENT_FORMATS)[number];
+
+export type DocumentBlock =
+  | { kind: "heading"; level: number; text: string }
+  | { kind: "paragraph" | "list-item"; text: string };
+
+export interface DocumentSection {
+  /** Outline number such as "2.1", used to cite the section */
+  number: string;
+  heading: string;
+  depth: number;
+  paragraphs: string[];
+  listItems: string[];
+}
+
+export interface SourceDocument {
+  id: string;
+  name: string;
+  format: SourceDocumentFormat;
+  title: string;
+  /** Text before the first heading */
+  preface: string[];
+  sections: DocumentSection[];
+  importedAt: string;
+}
+
+const DOCUMENT_FILE_FORMATS: Record<string, SourceDocumentFormat> = {
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".txt": "text",
+  ".pdf": "pdf",
+  ".docx": "docx"
+};
+
+export const DOCUMENT_FILE_ACCEPT = Object.keys(DOCUMENT_FILE_FORMATS).join(",");
+
+export function isDocumentFile(fileName: string): boolean {
+  return fileName.slice(fileName.lastIndexOf(".")).toLowerCase() in DOCUMENT_FILE_FORMATS;
+}
+
+// --- Reading ---
+
+const LIST_ITEM_PATTERN = /^\s*([-*+•–]|\d+[.)])\s+/;
+
+/** Drops emphasis, code, link and image markup, keeping the visible text */
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/(\*\*|__|\*|_|`)(.+?)\1/g, "$2")
+    .replace(/<[^>]+>/g, "")
+    .trim();
+}
+
+export function parseMarkdownBlocks(markdown: string): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  let paragraph: string[] = [];
+  let inCode = false;
+
+  const flush = () => {
+    const text = stripInlineMarkdown(paragraph.join(" "));
+    if (text) blocks.push({ kind: "paragraph", text });
+    paragraph = [];
+  };
+
+  lines.forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      flush();
+      inCode = !inCode;
+      return;
+    }
+    if (inCode) return;
+
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    const next = lines[index + 1] ?? "";
+    if (heading) {
+      flush();
+      blocks.push({ kind: "heading", level: heading[1].length, text: stripInlineMarkdown(heading[2]) });
+    } else if (line.trim() && /^\s*(=+|-+)\s*$/.test(next) && paragraph.length === 0 && !LIST_ITEM_PATTERN.test(line)) {
+      // Setext heading; the underline is skipped below
+      blocks.push({ kind: "heading", level: next.trim().startsWith("=") ? 1 : 2, text: stripInlineMarkdown(line) });
+    } else if (/^\s*(=+|-+)\s*$/.test(line) || /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/.test(line)) {
+      flush();
+    } else if (LIST_ITEM_PATTERN.test(line)) {
+      flush();
+      blocks.push({ kind: "list-item", text: stripInlineMarkdown(line.replace(LIST_ITEM_PATTERN, "")) });
+    } else if (!line.trim()) {
+      flush();
+    } else if (/^\s{2,}\S/.test(line) && paragraph.length === 0 && blocks[blocks.length - 1]?.kind === "list-item") {
+      // Continuation line of the list item above
+      blocks[blocks.length - 1].text += ` ${stripInlineMarkdown(line)}`;
+    } else {
+      paragraph.push(line.replace(/^\s*>\s?/, "").trim());
+    }
+  });
+  flush();
+  return blocks;
+}
+
+/**
+ * Turns PDF text lines into blocks. Lines set noticeably larger than the body text are
+ * headings, one level per distinct size; body lines are joined into paragraphs.
+ */
+function pdfLinesToBlocks(lines: { text: string; size: number }[]): DocumentBlock[] {
+  // The body size is the one most text is set in
+  const weights = new Map<number, number>();
+  for (const line of lines) weights.set(line.size, (weights.get(line.size) ?? 0) + line.text.length);
+  const bodySize = Array.from(weights).sort((a, b) => b[1] - a[1])[0]?.[0] ?? 12;
+
+  const isHeading = (line: { text: string; size: number }) =>
+    line.size >= bodySize * 1.15 && line.text.split(" ").length <= 14 && !/[.,;]$/.test(line.text);
+  const headingSizes = Array.from(new Set(lines.filter(isHeading).map(line => line.size))).sort((a, b) => b - a);
+
+  const blocks: DocumentBlock[] = [];
+  let paragraph = "";
+  const flush = () => {
+    if (paragraph.trim()) blocks.push({ kind: "paragraph", text: paragraph.trim() });
+    paragraph = "";
+  };
+
+  for (const line of lines) {
+    if (isHeading(line)) {
+      flush();
+      const previous = blocks[blocks.length - 1];
+      const level = Math.min(6, headingSizes.indexOf(line.size) + 1);
+      // Headings wrapped over two lines arrive as consecutive heading lines of one size
+      if (previous?.kind === "heading" && previous.level === level) previous.text += ` ${line.text}`;
+      else blocks.push({ kind: "heading", level, text: line.text });
+    } else if (LIST_ITEM_PATTERN.test(line.text)) {
+      flush();
+      blocks.push({ kind: "list-item", text: line.text.replace(LIST_ITEM_PATTERN, "") });
+    } else if (paragraph.endsWith("-") && /^[a-z]/.test(line.text)) {
+      paragraph = paragraph.slice(0, -1) + line.text;
+    } else {
+      paragraph += ` ${line.text}`;
+      // A short line ending a sentence usually closes its paragraph
+      if (/[.!?:]$/.test(line.text) && line.text.length < 60) flush();
+    }
+  }
+  flush();
+  return blocks;
+}
+
+const titleFromFileName = (name: string) =>
+  name.replace(/\.[^.]+$/, "").replace(/[-_]+/g, " ").replace(/\b\w/g, char => char.toUpperCase());
+
+/**
+ * Nests blocks into numbered sections. A single top-level heading at the very start is
+ * taken as the document title rather than a section.
+ */
+export function createSourceDocument(
+  name: string,
+  format: SourceDocumentFormat,
+  { title, blocks }: { title?: string; blocks: DocumentBlock[] }
+): SourceDocument {
+  let body = blocks;
+  const [first] = blocks;
+  if (!title && first?.kind === "heading") {
+    const sameLevel = blocks.filter(block => block.kind === "heading" && block.level <= first.level);
+    if (sameLevel.length === 1) {
+      title = first.text;
+      body = blocks.slice(1);
+    }
+  }
+
+  const preface: string[] = [];
+  const sections: DocumentSection[] = [];
+  const levels: number[] = [];
+  const counters: number[] = [];
+
+  for (const block of body) {
+    if (block.kind === "heading") {
+      while (levels.length > 0 && levels[levels.length - 1] >= block.level) levels.pop();
+      levels.push(block.level);
+      const depth = levels.length;
+      counters.length = depth;
+      counters[depth - 1] = (counters[depth - 1] ?? 0) + 1;
+      sections.push({
+        number: counters.map(count => count ?? 1).join("."),
+        heading: block.text,
+        depth,
+        paragraphs: [],
+        listItems: []
+      });
+      continue;
+    }
+
+    const section = sections[sections.length - 1];
+    if (!section) preface.push(block.text);
+    else if (block.kind === "list-item") section.listItems.push(block.text);
+    else section.paragraphs.push(block.text);
+  }
+
+  if (sections.length === 0 && preface.length === 0) {
+    throw new Error(`No text could be read from ${name}.`);
+  }
+
+  return {
+    id: crypto.randomUUID().slice(0, 8),
+    name,
+    format,
+    title: title ?? titleFromFileName(name),
+    preface,
+    sections,
+    importedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Reads a Markdown, text, PDF or DOCX file chosen by the user. Everything happens in the browser.
+ */
+export async function parseSourceDocument(file: File): Promise<SourceDocument> {
+  const format = DOCUMENT_FILE_FORMATS[file.name.slice(file.name.lastIndexOf(".")).toLowerCase()];
+  if (!format) {
+    throw new Error(`${file.name} is not a supported document. Attach a Markdown, PDF or DOCX file.`);
+  }
+
+  switch (format) {
+    case "pdf": {
+      const { readPdfTextLines } = await import("@/lib/pdf-text-reader");
+      return createSourceDocument(file.name, format, { blocks: pdfLinesToBlocks(await readPdfTextLines(await file.arrayBuffer())) });
+    }
+    case "docx": {
+      const { readDocxBlocks } = await import("@/lib/docx-reader");
+      return createSourceDocument(file.name, format, await readDocxBlocks(await file.arrayBuffer()));
+    }
+    default:
+      return createSourceDocument(file.name, format, { blocks: parseMarkdownBlocks(await file.text()) });
+  }
+}
+
+// --- Key points and figures ---
+
+const FIGURE_PATTERN =
+  /[$€£]\s?\d|\d[\d,.]*\s?(%|percent\b|per cent\b|million\b|billion\b|thousand\b|bn\b|[kKmMbB]\b)|\b\d{1,3}(,\d{3})+\b|\b\d+(\.\d+)?x\b/;
+
+const MAX_POINT_WORDS = 25;
+
+export function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+(?=[A-Z0-9"“(])/).map(sentence => sentence.trim()).filter(Boolean);
+}
+
+/** Shortens a sentence to a bullet-sized point */
+export function toPoint(sentence: string): string {
+  const words = sentence.split(/\s+/);
+  return words.length <= MAX_POINT_WORDS ? sentence : `${words.slice(0, MAX_POINT_WORDS).join(" ").replace(/[,;:]$/, "")}…`;
+}
+
+export interface SectionSummary {
+  keyPoints: string[];
+  /** Sentences that state a figure (amounts, percentages, multipliers) */
+  figures: string[];
+  wordCount: number;
+}
+
+/**
+ * Key points are the section's list items when it has any, otherwise the opening sentence
+ * of each paragraph. Figures are the sentences that contain numbers worth showing.
+ */
+export function summarizeSection(
+  { paragraphs, listItems }: Pick<DocumentSection, "paragraphs" | "listItems">,
+  maxPoints = 4
+): SectionSummary {
+  const sentences = [...paragraphs, ...listItems].flatMap(splitSentences);
+  const figures = sentences.filter(sentence => FIGURE_PATTERN.test(sentence)).map(toPoint);
+  const openingSentences = paragraphs.map(paragraph => splitSentences(paragraph)[0]).filter(Boolean);
+
+  return {
+    keyPoints: (listItems.length > 0 ? listItems : openingSentences).slice(0, maxPoints).map(toPoint),
+    figures: Array.from(new Set(figures)).slice(0, 5),
+    wordCount: sentences.join(" ").split(/\s+/).filter(Boolean).length
+  };
+}
+
+/**
+ * What the assistant is told about an attached document: its sections with a few key
+ * points and figures each.
+ */
+export function describeSourceDocument(document: SourceDocument, maxSections = 60) {
+  return {
+    documentId: document.id,
+    name: document.name,
+    title: document.title,
+    sectionCount: document.sections.length,
+    sections: document.sections.slice(0, maxSections).map(section => {
+      const summary = summarizeSection(section, 2);
+      return {
+        number: section.number,
+        heading: section.heading,
+        words: summary.wordCount,
+        keyPoints: summary.keyPoints,
+        figures: summary.figures.slice(0, 2)
+      };
+    })
+  };
+}
+
+// --- Documents attached in this browser session ---
+
+const sessionDocuments = new Map<string, SourceDocument>();
+
+export function addSessionDocument(document: SourceDocument) {
+  sessionDocuments.set(document.id, document);
+}
+
+export function getSessionDocument(id: string): SourceDocument | undefined {
+  return sessionDocuments.get(id);
+}
@@ -8,297 +8,31 @@
 
 import { TamboComponent, TamboTool } from "@tambo-ai/react";
 import { z } from "zod";
-import SlidesGenerator from '@/components/slide-generator';
-
-// Expanded presentation templates for different domains
-const PRESENTATION_TEMPLATES = {
-  business: {
-    "market analysis": {
-      title: "Comprehensive Market Analysis",
-      slides: [
-        {
-          type: "intro",
-          heading: "Market Analysis: Industry Overview",
-          description: "In-depth analysis of market dynamics, competitive landscape, and growth opportunities in our target sector. This presentation examines key trends, market size, and strategic positioning.",
-          keywords: ["market analysis", "business strategy", "data visualization", "industry trends"]
-        },
-        {
-          type: "content",
-          heading: "Market Size & Growth Projections",
-          description: "The total addressable market is valued at $500 billion with a CAGR of 7.2%. Key growth drivers include digital transformation, changing consumer behavior, and emerging technologies like AI and blockchain.",
-          keywords: ["market growth", "financial charts", "business metrics", "growth projections"]
-        },
-        {
-          type: "content",
-          heading: "Competitive Landscape Analysis",
-          description: "Analysis reveals 5 major players controlling 60% market share. Key differentiators include pricing strategy, product features, and customer service excellence. Opportunities exist in underserved segments.",
-          keywords: ["competition analysis", "market share", "business competitors", "swot analysis"]
-        },
-        {
-          type: "content",
-          heading: "Target Customer Segmentation",
-          description: "Primary segments include enterprise clients (40%), SMBs (35%), and individual professionals (25%). Each segment demonstrates distinct needs, purchasing behaviors, and growth potential.",
-          keywords: ["customer segments", "target audience", "demographics", "buyer personas"]
-        },
-        {
-          type: "outro",
-          heading: "Strategic Recommendations & Action Plan",
-          description: "Recommend focusing on underserved segments, leveraging technology for competitive advantage, and building strategic partnerships. Implementation timeline: 6-12 months for initial results.",
-          keywords: ["business strategy", "action plan", "strategic recommendations", "next steps"]
-        }
-      ]
-    },
-    "product launch": {
-      title: "Product Launch Strategy Presentation",
-      slides: [
-        {
-          type: "intro",
-          heading: "Introducing Our Revolutionary Product",
-          description: "A breakthrough solution designed to transform how businesses operate and compete in the digital age. This product addresses critical pain points with innovative technology.",
-          keywords: ["product launch", "innovation", "new technology", "product introduction"]
-        },
-        {
-          type: "content",
-          heading: "The Problem We Solve",
-          description: "Businesses lose approximately 30% productivity due to inefficient processes. Current solutions are fragmented and expensive. Our product addresses these challenges with intelligent automation.",
-          keywords: ["business problem", "solution overview", "pain points", "market need"]
-        },
-        {
-          type: "content",
-          heading: "Key Features & Competitive Advantages",
-          description: "AI-powered analytics, real-time collaboration, enterprise-grade security, and proven 50% reduction in operational costs. Unique selling proposition: seamless integration with existing systems.",
-          keywords: ["product features", "competitive advantage", "benefits", "unique selling points"]
-        },
-        {
-          type: "content",
-          heading: "Go-to-Market Strategy",
-          description: "Phased rollout starting with key markets. Marketing budget: $2M. Sales strategy: direct sales for enterprise, channel partners for SMBs. Projected customer acquisition cost: $350.",
-          keywords: ["marketing strategy", "go to market", "sales plan", "launch timeline"]
-        },
-        {
-          type: "outro",
-          heading: "Launch Timeline & Success Metrics",
-          description: "Beta launch in Q2, full release in Q3. Key metrics: 1,000 customers in first year, $5M revenue. Early access program available with exclusive benefits for founding partners.",
-          keywords: ["timeline", "success metrics", "kpis", "launch plan"]
-        }
-      ]
-    },
-    "financial report": {
-      title: "Quarterly Financial Performance Report",
-      slides: [
-        {
-          type: "intro",
-          heading: "Q3 Financial Performance Overview",
-          description: "Comprehensive review of financial performance, key metrics, and strategic insights for the third quarter. Highlights include revenue growth, profitability, and market position.",
-          keywords: ["financial report", "quarterly results", "revenue", "performance metrics"]
-        },
-        {
-          type: "content",
-          heading: "Revenue Analysis & Growth Trends",
-          description: "Total revenue reached $125M, representing 15% year-over-year growth. Key drivers: new customer acquisition (35%), expansion of existing accounts (45%), and new product lines (20%).",
-          keywords: ["revenue analysis", "financial growth", "business performance", "sales metrics"]
-        },
-        {
-          type: "content",
-          heading: "Profitability & Cost Management",
-          description: "Operating margin improved to 22% through optimized operations and cost controls. EBITDA reached $28M, exceeding projections by 8%. Cost of goods sold decreased by 5% through supplier negotiations.",
-          keywords: ["profitability", "cost management", "financial metrics", "operational efficiency"]
-        },
-        {
-          type: "content",
-          heading: "Market Position & Competitive Analysis",
-          description: "Maintained #2 market position with 18% market share. Gained 3 percentage points against main competitor. Customer satisfaction scores reached all-time high of 92%.",
-          keywords: ["market position", "competitive analysis", "market share", "customer satisfaction"]
-        },
-        {
-          type: "outro",
-          heading: "Forward Outlook & Strategic Initiatives",
-          description: "Q4 projections: $140M revenue with 20% growth. Strategic initiatives: expansion into Asian markets, new product launch in Q1, and continued operational optimization.",
-          keywords: ["business outlook", "strategic initiatives", "forecasting", "future planning"]
-        }
-      ]
-    },
-    "business strategy": {
-      title: "Strategic Business Plan Presentation",
-      slides: [
-        {
-          type: "intro",
-          heading: "3-Year Strategic Business Plan",
-          description: "Comprehensive roadmap outlining our vision, strategic priorities, and growth initiatives for the next three years. Focus on market expansion, innovation, and operational excellence.",
-          keywords: ["business strategy", "strategic planning", "growth initiatives", "vision"]
-        },
-        {
-          type: "content",
-          heading: "Market Opportunity & Growth Strategy",
-          description: "Addressing a $250B market opportunity with focused expansion in high-growth segments. Strategy: penetrate existing markets deeper while expanding geographically into 3 new regions.",
-          keywords: ["market opportunity", "growth strategy", "business expansion", "market penetration"]
-        },
-        {
-          type: "content",
-          heading: "Innovation & Product Roadmap",
-          description: "$50M investment in R&D over 3 years. Key initiatives: AI-powered platform enhancements, mobile-first solutions, and integration capabilities. 6 major product releases planned.",
-          keywords: ["innovation", "product roadmap", "research development", "technology"]
-        },
-        {
-          type: "content",
-          heading: "Operational Excellence Initiatives",
-          description: "Targeting 30% improvement in operational efficiency through automation, process optimization, and technology upgrades. Expected to deliver $45M in cost savings over 3 years.",
-          keywords: ["operational excellence", "process optimization", "automation", "efficiency"]
-        },
-        {
-          type: "outro",
-          heading: "Implementation Timeline & Success Metrics",
-          description: "Phased implementation over 12 quarters. Key metrics: 25% CAGR, 35% market share target, 50% increase in customer base. Quarterly reviews with board to track progress.",
-          keywords: ["implementation", "timeline", "success metrics", "performance indicators"]
-        }
-      ]
-    }
-  },
-  technology: {
-    "ai transformation": {
-      title: "AI Transformation Strategy",
-      slides: [
-        {
-          type: "intro",
-          heading: "AI-Powered Digital Transformation Journey",
-          description: "How artificial intelligence is revolutionizing business operations, customer experiences, and decision-making across industries. This presentation outlines our AI adoption strategy.",
-          keywords: ["artificial intelligence", "digital transformation", "machine learning", "ai strategy"]
-        },
-        {
-          type: "content",
-          heading: "Current AI Applications & Use Cases",
-          description: "Successful implementations include predictive maintenance (30% reduction in downtime), customer service automation (40% cost reduction), and personalized marketing (25% conversion increase).",
-          keywords: ["ai applications", "use cases", "machine learning", "automation"]
-        },
-        {
-          type: "content",
-          heading: "Implementation Roadmap & Timeline",
-          description: "Phase 1: Pilot projects (3-6 months). Phase 2: Department-wide implementation (6-12 months). Phase 3: Enterprise rollout (12-24 months). Total investment: $5M with expected ROI within 18 months.",
-          keywords: ["implementation plan", "roadmap", "timeline", "project planning"]
-        },
-        {
-          type: "content",
-          heading: "Technology Stack & Infrastructure",
-          description: "Cloud-based AI platform, modular architecture, API-first design. Key technologies: TensorFlow, PyTorch, AWS SageMaker. Data infrastructure: Snowflake for data warehousing.",
-          keywords: ["technology stack", "infrastructure", "cloud computing", "ai platform"]
-        },
-        {
-          type: "outro",
-          heading: "Expected Outcomes & Success Metrics",
-          description: "Target outcomes: 40% process automation, 25% cost reduction, 30% revenue growth from AI-enabled products. Success measured through quarterly business reviews and KPI tracking.",
-          keywords: ["expected outcomes", "success metrics", "roi", "performance indicators"]
-        }
-      ]
-    },
-    "cloud migration": {
-      title: "Cloud Migration Strategy & Implementation",
-      slides: [
-        {
-          type: "intro",
-          heading: "Enterprise Cloud Migration Initiative",
-          description: "Comprehensive plan for migrating our infrastructure and applications to the cloud. Focus on security, scalability, and cost optimization while minimizing business disruption.",
-          keywords: ["cloud migration", "cloud computing", "digital transformation", "infrastructure"]
-        },
-        {
-          type: "content",
-          heading: "Migration Strategy & Approach",
-          description: "Hybrid approach: rehost (40%), refactor (35%), rearchitect (25%). Prioritized by business criticality and complexity. Phased migration over 18 months with fallback options.",
-          keywords: ["migration strategy", "cloud adoption", "transformation", "implementation"]
-        },
-        {
-          type: "content",
-          heading: "Technology Stack & Cloud Architecture",
-          description: "Multi-cloud strategy with AWS (60%) and Azure (40%). Containerized applications with Kubernetes. Infrastructure as Code using Terraform. Zero-trust security model implemented.",
-          keywords: ["cloud architecture", "technology stack", "multi-cloud", "security"]
-        },
-        {
-          type: "content",
-          heading: "Cost-Benefit Analysis & ROI Projections",
-          description: "35% reduction in infrastructure costs. 60% improvement in deployment speed. 99.9% uptime guarantee. Expected ROI: 210% over 3 years with payback in 14 months.",
-          keywords: ["cost benefit analysis", "roi", "business case", "financial metrics"]
-        },
-        {
-          type: "outro",
-          heading: "Implementation Timeline & Risk Mitigation",
-          description: "6-phase implementation over 18 months. Risk mitigation: comprehensive testing, gradual cutover, and rollback plans. Change management program for smooth transition.",
-          keywords: ["implementation timeline", "risk mitigation", "project management", "change management"]
-        }
-      ]
-    },
-    "cybersecurity": {
-      title: "Cybersecurity Strategy & Threat Protection",
-      slides: [
-        {
-          type: "intro",
-          heading: "Comprehensive Cybersecurity Framework",
-          description: "Proactive approach to cybersecurity focusing on threat prevention, detection, and response. Addressing evolving threats in today's digital landscape with enterprise-grade protection.",
-          keywords: ["cybersecurity", "threat protection", "information security", "risk management"]
-        },
-        {
-          type: "content",
-          heading: "Current Threat Landscape Analysis",
-          description: "73% increase in sophisticated phishing attacks. Ransomware incidents up 45%. Cloud vulnerabilities represent 60% of new attack vectors. Zero-day exploits increased by 32%.",
-          keywords: ["threat landscape", "risk assessment", "security threats", "vulnerabilities"]
-        },
-        {
-          type: "content",
-          heading: "Security Framework & Defense Strategy",
-          description: "Defense-in-depth approach with 5 security layers. Zero-trust architecture implemented. Real-time threat intelligence feeds. 24/7 SOC monitoring with automated response playbooks.",
-          keywords: ["security framework", "defense strategy", "zero trust", "threat intelligence"]
-        },
-        {
-          type: "content",
-          heading: "Incident Response & Recovery Planning",
-          description: "Average detection time reduced to 15 minutes. Response time under 30 minutes. 99% recovery success rate with maximum 4-hour recovery time objective for critical systems.",
-          keywords: ["incident response", "recovery planning", "disaster recovery", "business continuity"]
-        },
-        {
-          type: "outro",
-          heading: "Security Roadmap & Investment Plan",
-          description: "$8M investment over 2 years. Key initiatives: AI-powered threat detection, security awareness training, and advanced endpoint protection. Targeting 95% reduction in security incidents.",
-          keywords: ["security roadmap", "investment plan", "future initiatives", "security goals"]
-        }
-      ]
-    }
-  },
-  education: {
-    "teaching materials": {
-      title: "Interactive Teaching Materials & Curriculum",
-      slides: [
-        {
-          type: "intro",
-          heading: "Innovative Teaching Methodology & Materials",
-          description: "Modern approach to education combining traditional pedagogy with technology-enhanced learning. Focus on engagement, retention, and practical application of knowledge.",
-          keywords: ["teaching materials", "education", "curriculum", "pedagogy"]
-        },
-        {
-          type: "content",
-          heading: "Learning Objectives & Outcomes",
-          description: "Clear measurable outcomes: 90% mastery of core concepts, 85% improvement in critical thinking skills, and 75% increase in knowledge retention compared to traditional methods.",
-          keywords: ["learning objectives", "educational outcomes", "skill development", "knowledge retention"]
-        },
-        {
-          type: "content",
-          heading: "Interactive Content & Engagement Strategies",
-          description: "Gamified learning modules, virtual simulations, and collaborative projects. 40% increase in student engagement and 30% improvement in assessment scores with interactive content.",
-          keywords: ["interactive content", "engagement strategies", "gamification", "active learning"]
-        },
-        {
-          type: "content",
-          heading: "Assessment Methods & Progress Tracking",
-          description: "Multi-faceted assessment: formative (40%), summative (30%), and project-based (30%). Real-time progress dashboards for students and instructors with predictive analytics.",
-          keywords: ["assessment methods", "progress tracking", "learning analytics", "evaluation"]
-        },
-        {
-          type: "outro",
-          heading: "Implementation Plan & Success Metrics",
-          description: "Phased rollout starting with pilot program. Success metrics: student satisfaction >90%, 25% improvement in completion rates, and 35% reduction in achievement gaps.",
-          keywords: ["implementation plan", "success metrics", "educational outcomes", "evaluation"]
-        }
-      ]
-    }
-  }
-};
+import { InteractablePresentation } from '@/components/interactable-presentation';
+import { InteractablePresentationOutline } from '@/components/presentation-outline';
+import { getActiveDeck } from '@/lib/active-deck';
+import { PRESENTATION_DOMAINS, type PresentationDomain } from '@/lib/builtin-templates';
+import { formatTitle, planDeck, topicCategorySchema, type TopicCategory } from '@/lib/content-planner';
+import { createDataSectionTool } from '@/lib/data-sections';
+import { datasetSlidesSection } from '@/lib/dataset-section';
+import { deleteSlide, duplicateSlide, insertSlide, moveSlide } from '@/lib/deck-operations';
+import { deckOutlineSchema, expandOutline, outlineFromSlides, type DeckOutline } from '@/lib/deck-outline';
+import { createTemplateFromDeck, detectTemplateFacts, type TemplatePlaceholder } from '@/lib/deck-templates';
+import { buildDocumentOutline } from '@/lib/document-outline';
+import { demographicsSection } from '@/lib/demographics-section';
+import { bulletSchema, presentationPropsSchema, slideSchema, type Bullet, type Deck, type SlideContent } from '@/lib/slides';
+import { CLAIM_STATUSES, activeClaims, claimSchema, findUnresolvedClaims, markNumericClaims, type ClaimStatus } from '@/lib/slide-claims';
+import { getSessionDocument } from '@/lib/source-documents';
+import {
+  adaptSlides,
+  generationSettingsSchema,
+  resolveGenerationSettings,
+  type Audience,
+  type Tone
+} from '@/lib/generation-settings';
+import { applyTemplateVariables, listTemplateVariables, templateSlideSchema, type TemplateSlide } from '@/lib/template-definitions';
+import { MIN_TEMPLATE_SCORE, rankTemplates, type TemplateMatch } from '@/lib/template-matching';
+import { getTemplateRegistry, saveUserTemplate, type RegisteredTemplate } from '@/lib/template-registry';
 
 // Enhanced image collections with more specific keywords
 const IMAGE_COLLECTIONS = {
@@ -315,164 +49,139 @@ const IMAGE_COLLECTIONS = {
   education: [
     "classroom", "teaching", "learning", "education",
     "students", "school", "university", "books", "research"
+  ],
+  healthcare: [
+    "hospital", "doctor consultation", "medical team",
+    "nurse", "medical research", "healthcare technology",
+    "stethoscope", "public health", "patient care"
   ]
-};
+} satisfies Record<PresentationDomain, string[]>;
 
 // Common keywords for fallback content generation
 const COMMON_KEYWORDS = {
   business: ["strategy", "growth", "market", "financial", "analysis", "planning", "performance"],
   technology: ["innovation", "digital", "technology", "software", "development", "cloud", "security"],
-  education: ["learning", "teaching", "education", "knowledge", "skills", "development", "training"]
+  education: ["learning", "teaching", "education", "knowledge", "skills", "development", "training"],
+  healthcare: ["patient", "clinical", "care", "safety", "outcomes", "compliance", "health"]
+} satisfies Record<PresentationDomain, string[]>;
+
+// Added to the intro of dynamically generated decks in regulated domains
+const DOMAIN_NOTICES: Partial<Record<PresentationDomain, string>> = {
+  healthcare: "Patient information is shown only in aggregate, de-identified form, and clinical statements should be checked against current guidance before use."
 };
 
+// Shared schemas for the slide structure tools
+const keepIntroOutroSchema = z.boolean().optional()
+  .describe("Set to true when the deck must keep exactly one intro slide first and one outro slide last; the change is rejected otherwise");
+
+const deckStructureSchema = z.object({
+  slideCount: z.number(),
+  slides: z.array(z.object({
+    index: z.number(),
+    type: z.string(),
+    heading: z.string()
+  }))
+});
+
+// Shared schemas for the generation tools' results
+const generationSettingsResultSchema = generationSettingsSchema.required()
+  .describe("The audience, tone, word budget and language the slides were written for");
+
+const translateToSchema = z.string().optional()
+  .describe("Set when the slides must be translated into this language before they are rendered");
+
+const templateIdSchema = z.string().optional()
+  .describe("Id of the template to use, from get-presentation-templates (default: matched by topic)");
+
+const templateVariablesSchema = z.record(z.string()).optional()
+  .describe('Values for the template variables, e.g. { "company": "Acme", "quarter": "Q3 2025" }');
+
+const missingVariablesSchema = z.array(z.string())
+  .describe("Template variables without a value; their {{placeholders}} are still in the slides");
+
+const categorySchema = topicCategorySchema.optional()
+  .describe(`${topicCategorySchema.description} (default: detected from the topic). Used when no template fits`);
+
+const templateCandidateSchema = z.object({
+  templateId: z.string(),
+  title: z.string(),
+  score: z.number().describe("Relevance to the topic, 0 to 1"),
+  reasons: z.array(z.string()).describe("Where the topic's words were found in the template")
+});
+
+const templateMatchSchema = z.object({
+  method: z.enum(["requested", "matched", "generated"])
+    .describe("requested: the templateId argument; matched: the best-scoring template; generated: no template scored high enough"),
+  explanation: z.string().describe("Why the slides came from this template, or from none"),
+  candidates: z.array(templateCandidateSchema).describe("Best-scoring templates for the topic, best first")
+});
+
 /**
  * Enhanced tools for presentation generation with image integration
  */
 export const tools: TamboTool[] = [
   {
     name: "generate-presentation",
-    description: "Generate a professional presentation with contextually relevant content and integrated images from Unsplash.",
+    description: "Generate a professional presentation with contextually relevant content and integrated images from Unsplash. Audience, tone, words per slide and language default to the user's generation settings; pass them only when the user asks for something different. When the result has translateTo, translate every slide's text into that language before rendering it. Templates may use variables such as {{company}} and {{quarter}}; when missingVariables is not empty, ask the user for those values and generate again with variables. Generated slides never invent statistics: figures are {{placeholders}} listed in missingVariables, so ask for sourced values the same way. Templates are scored by relevance to the topic and generated slides are used when none fits; templateMatch explains the choice and lists the closest templates, so if the user meant another one, generate again with its templateId. Every figure in the slides is returned as a placeholder claim, since template figures are illustrative; tell the user the highlighted figures need real, sourced values",
     tool: async (params: { 
       topic: string; 
       domain?: string;
       slideCount?: number;
       includeImages?: boolean;
+      templateId?: string;
+      variables?: Record<string, string>;
+      category?: TopicCategory;
+      audience?: Audience;
+      tone?: Tone;
+      wordsPerSlide?: number;
+      language?: string;
     }) => {
-      const { topic, domain = "business", slideCount = 5, includeImages = true } = params;
-      
-      // Normalize topic for matching
-      const topicLower = topic.toLowerCase().trim();
-      
-      // Find matching template
-      let selectedTemplate = null;
-      let selectedDomain = domain.toLowerCase() as keyof typeof PRESENTATION_TEMPLATES;
-      
-      // First, try exact match in the requested domain
-      if (
-        Object.prototype.hasOwnProperty.call(PRESENTATION_TEMPLATES, selectedDomain) &&
-        Object.prototype.hasOwnProperty.call(PRESENTATION_TEMPLATES[selectedDomain], topicLower)
-      ) {
-        selectedTemplate = (PRESENTATION_TEMPLATES as any)[selectedDomain][topicLower];
-      } else {
-        // Search across all domains for partial matches
-        for (const [domainKey, domainTemplates] of Object.entries(PRESENTATION_TEMPLATES)) {
-          for (const [templateKey, template] of Object.entries(domainTemplates as Record<string, any>)) {
-            if (topicLower.includes(templateKey) || templateKey.includes(topicLower)) {
-              selectedTemplate = template;
-              selectedDomain = domainKey as keyof typeof PRESENTATION_TEMPLATES;
-              break;
-            }
-          }
-          if (selectedTemplate) break;
-        }
-        
-        // If still no match, try to find the closest template by keyword similarity
-        if (!selectedTemplate) {
-          for (const [domainKey, domainTemplates] of Object.entries(PRESENTATION_TEMPLATES)) {
-            for (const [templateKey, template] of Object.entries(domainTemplates as Record<string, any>)) {
-              const templateWords = templateKey.split(' ');
-              const topicWords = topicLower.split(' ');
-              
-              // Check if any words match
-              const matchingWords = templateWords.filter(word => 
-                topicWords.some(topicWord => topicWord.includes(word) || word.includes(topicWord))
-              );
-              
-              if (matchingWords.length > 0) {
-                selectedTemplate = template;
-                selectedDomain = domainKey as keyof typeof PRESENTATION_TEMPLATES;
-                break;
-              }
-            }
-            if (selectedTemplate) break;
-          }
-        }
-      }
-      
-      // If no template found, generate dynamic content focused on the topic
-      if (!selectedTemplate) {
-        selectedTemplate = {
-          title: `Presentation on ${formatTitle(topic)}`,
-          slides: generateDynamicSlides(topic, domain, slideCount)
-        };
-      }
-      
+      const { topic, domain, slideCount = 5, includeImages = true, templateId, variables, category, ...overrides } = params;
+      const settings = resolveGenerationSettings(overrides);
+      const template = await selectPresentationTemplate(topic, domain, slideCount, {
+        audience: settings.audience,
+        templateId,
+        variables,
+        category
+      });
+
       // Trim to requested slide count
-      const slides = selectedTemplate.slides.slice(0, slideCount);
-      
-      // Add images if requested
-      if (includeImages) {
-        const imageKeywords = IMAGE_COLLECTIONS[selectedDomain] || IMAGE_COLLECTIONS.business;
-        
-        // Enhance slides with image queries and suggested images
-        const slidesWithImages = await Promise.all(slides.map(async (slide: any, index: number) => {
-          // Use slide keywords or fallback to topic-based keywords
-          const keywords = slide.keywords || [
-            ...(slide.heading?.toLowerCase().split(' ') || []),
-            ...(topic.toLowerCase().split(' ') || []),
-            imageKeywords[index % imageKeywords.length]
-          ].filter(k => k.length > 3); // Filter out short words
-          
-          const searchQuery = keywords.slice(0, 3).join(' ') || topic;
-          
-          try {
-            // Search for relevant images using the tool
-            const imageResults = await tools[1].tool({ query: searchQuery });
-            return {
-              ...slide,
-              imageQuery: searchQuery,
-              imageUrl: imageResults?.[0]?.urls?.regular || `https://source.unsplash.com/800x400/?${encodeURIComponent(searchQuery)}`,
-              imageAlt: imageResults?.[0]?.alt_description || `${searchQuery} image`,
-              photographer: imageResults?.[0]?.user?.name,
-              unsplashUrl: imageResults?.[0]?.links?.html
-            };
-          } catch (error) {
-            console.error("Error fetching image:", error);
-            return {
-              ...slide,
-              imageQuery: searchQuery,
-              suggestedImage: `https://source.unsplash.com/800x400/?${encodeURIComponent(searchQuery)}`
-            };
-          }
-        }));
-        
-        return {
-          title: selectedTemplate.title || formatTitle(topic),
-          domain: selectedDomain,
-          slides: slidesWithImages
-        };
-      }
-      
+      const adapted = adaptSlides(template.slides.slice(0, slideCount), topic, settings);
+
       return {
-        title: selectedTemplate.title || formatTitle(topic),
-        domain: selectedDomain,
-        slides
+        ...adapted,
+        templateId: template.templateId,
+        templateMatch: template.match,
+        category: template.category,
+        missingVariables: template.missingVariables,
+        title: template.title,
+        domain: template.domain,
+        slides: markNumericClaims(includeImages ? await addSlideImages(adapted.slides, topic, template.domain) : adapted.slides)
       };
     },
     toolSchema: z.function()
       .args(z.object({
         topic: z.string().describe("The main topic or title of the presentation"),
-        domain: z.enum(["business", "technology", "education", "healthcare"]).optional()
+        domain: z.enum(PRESENTATION_DOMAINS).optional()
           .describe("The domain/category of the presentation"),
         slideCount: z.number().min(3).max(10).optional()
           .describe("Number of slides to generate (3-10, default: 5)"),
         includeImages: z.boolean().optional()
-          .describe("Whether to include relevant images (default: true)")
-      }))
+          .describe("Whether to include relevant images (default: true)"),
+        templateId: templateIdSchema,
+        variables: templateVariablesSchema,
+        category: categorySchema
+      }).merge(generationSettingsSchema))
       .returns(z.object({
+        templateId: z.string().optional().describe("Template the slides came from; absent for generated slides"),
+        templateMatch: templateMatchSchema,
+        category: topicCategorySchema.optional().describe("How the generated slides were structured; absent for template slides"),
+        missingVariables: missingVariablesSchema,
         title: z.string(),
         domain: z.string(),
-        slides: z.array(z.object({
-          type: z.enum(["intro", "content", "outro"]),
-          heading: z.string(),
-          description: z.string(),
-          keywords: z.array(z.string()).optional(),
-          imageQuery: z.string().optional(),
-          imageUrl: z.string().optional(),
-          imageAlt: z.string().optional(),
-          photographer: z.string().optional(),
-          unsplashUrl: z.string().optional()
-        }))
+        slides: z.array(templateSlideSchema),
+        settings: generationSettingsResultSchema,
+        translateTo: translateToSchema
       }))
   },
   
@@ -535,151 +244,590 @@ export const tools: TamboTool[] = [
   
   {
     name: "get-presentation-templates",
-    description: "Get available presentation templates and topics for quick generation",
-    tool: () => {
-      const templates = [];
-      for (const [domain, domainTemplates] of Object.entries(PRESENTATION_TEMPLATES)) {
-        for (const [topic, template] of Object.entries(domainTemplates)) {
-          templates.push({
-            domain,
-            topic,
-            title: template.title,
-            slideCount: template.slides.length,
-            description: `Professional ${topic} presentation for ${domain} domain`
-          });
-        }
-      }
-      return templates;
+    description: "Get available presentation templates and topics for quick generation: built-in templates, the company's templates from the templates folder and templates the user saved. Pass a template's id to generate-presentation to use it, with values for its variables. With a topic, only templates relevant to it are listed, best first, with their score and the reasons for it",
+    tool: async (params: { topic?: string; domain?: string } = {}) => {
+      const { templates, errors } = await getTemplateRegistry();
+      const matches = params.topic
+        ? rankTemplates(templates, params.topic, params.domain)
+        : templates.map(template => ({ template, score: undefined, reasons: undefined }));
+      return {
+        templates: matches.map(({ template, score, reasons }) => ({
+          id: template.id,
+          source: template.source,
+          domain: template.domain,
+          topic: template.topic,
+          title: template.title,
+          slideCount: template.slides.length,
+          description: template.description ?? `Professional ${template.topic} presentation for ${template.domain} domain`,
+          variables: listTemplateVariables(template),
+          score,
+          reasons
+        })),
+        invalidTemplates: errors
+      };
     },
+    toolSchema: z.function()
+      .args(z.object({
+        topic: z.string().optional().describe("Rank the templates by relevance to this topic"),
+        domain: z.enum(PRESENTATION_DOMAINS).optional().describe("Domain hint for the ranking")
+      }))
+      .returns(z.object({
+        templates: z.array(z.object({
+          id: z.string(),
+          source: z.enum(["user", "folder", "builtin"]),
+          domain: z.string(),
+          topic: z.string(),
+          title: z.string(),
+          slideCount: z.number(),
+          description: z.string(),
+          variables: z.array(z.string()).describe("Variables the template uses, e.g. company, quarter"),
+          score: templateCandidateSchema.shape.score.optional(),
+          reasons: templateCandidateSchema.shape.reasons.optional()
+        })),
+        invalidTemplates: z.array(z.object({
+          source: z.string(),
+          message: z.string()
+        })).describe("Template files that were skipped because they failed validation")
+      }))
+  },
+  
+  {
+    name: "detect-template-placeholders",
+    description: "List the figures, dates and names in the presentation currently on screen that are specific to it, with a suggested variable name for each. Use it before save-deck-as-template to decide which facts become placeholders",
+    tool: () => detectTemplateFacts(getActiveDeck().getDeck()),
     toolSchema: z.function()
       .returns(z.array(z.object({
-        domain: z.string(),
-        topic: z.string(),
+        text: z.string(),
+        kind: z.enum(["number", "date", "name"]),
+        variable: z.string().describe("Suggested variable name"),
+        occurrences: z.number()
+      })))
+  },
+
+  {
+    name: "save-deck-as-template",
+    description: "Save the presentation currently on screen as a reusable template in this browser. The given texts are replaced with {{variable}} placeholders everywhere in the deck (chart values excepted); without placeholders, the facts from detect-template-placeholders are used. The template is then listed by get-presentation-templates and matched by generate-presentation",
+    tool: (params: {
+      topic: string;
+      domain: string;
+      title?: string;
+      description?: string;
+      placeholders?: TemplatePlaceholder[];
+    }) => {
+      const { placeholders, ...options } = params;
+      const deck = getActiveDeck().getDeck();
+      const template = saveUserTemplate(createTemplateFromDeck(deck, {
+        ...options,
+        placeholders: placeholders ?? detectTemplateFacts(deck)
+      }));
+      return {
+        id: template.id,
+        title: template.title,
+        topic: template.topic,
+        domain: template.domain,
+        variables: listTemplateVariables(template)
+      };
+    },
+    toolSchema: z.function()
+      .args(z.object({
+        topic: z.string().describe("Topic the template is matched against, e.g. \"quarterly business review\""),
+        domain: z.string().describe("Domain of the template, e.g. business"),
+        title: z.string().optional().describe("Template title (default: the deck title, with placeholders applied)"),
+        description: z.string().optional(),
+        placeholders: z.array(z.object({
+          text: z.string().describe("Text to replace wherever it occurs in the deck"),
+          variable: z.string().describe("Variable name, letters, digits and underscores, e.g. company"),
+          description: z.string().optional().describe("What the value is, shown when asking for it")
+        })).optional()
+      }))
+      .returns(z.object({
+        id: z.string(),
         title: z.string(),
-        slideCount: z.number(),
-        description: z.string()
+        topic: z.string(),
+        domain: z.string(),
+        variables: z.array(z.string())
+      }))
+  },
+
+  {
+    name: "list-unverified-claims",
+    description: "List the figures in the presentation currently on screen that are not verified yet (placeholders and figures that need a source), slide by slide. Exports warn about these and refuse unfilled {{variables}}",
+    tool: () => {
+      const deck = getActiveDeck().getDeck();
+      return findUnresolvedClaims(deck.slides).map(({ slideIndex, claims }) => ({
+        slideIndex,
+        heading: deck.slides[slideIndex].heading,
+        claims
+      }));
+    },
+    toolSchema: z.function()
+      .returns(z.array(z.object({
+        slideIndex: z.number(),
+        heading: z.string(),
+        claims: z.array(claimSchema)
       })))
   },
-  
+
+  {
+    name: "set-claim-status",
+    description: "Mark a figure on a slide of the presentation currently on screen as verified (give the source), as a placeholder or as needing a source. Only mark a figure verified when the user confirms it or gives its source; to replace a figure, edit the slide text instead",
+    tool: (params: { slideIndex: number; text: string; status: ClaimStatus; source?: string }) => {
+      const { slideIndex, text, status, source } = params;
+
+      const deck = getActiveDeck().updateDeck(current => {
+        const slide = current.slides[slideIndex];
+        if (!slide) {
+          throw new Error(
+            `Slide index ${slideIndex} is out of range; the presentation has ${current.slides.length} slides (0-${current.slides.length - 1}).`
+          );
+        }
+
+        const claims = slide.claims ?? [];
+        const existing = claims.find(claim => claim.text === text);
+        const claim = { ...(existing ?? { text }), status, source: source ?? existing?.source };
+        const updated = { ...slide, claims: existing ? claims.map(item => (item === existing ? claim : item)) : [...claims, claim] };
+        if (!activeClaims(updated).includes(claim)) {
+          throw new Error(`"${text}" is not on slide ${slideIndex}. Use list-unverified-claims for the figures on each slide.`);
+        }
+
+        const slides = [...current.slides];
+        slides[slideIndex] = updated;
+        return { ...current, slides };
+      }, { source: "set-claim-status", focusSlide: slideIndex });
+
+      return {
+        slideIndex,
+        claims: deck.slides[slideIndex].claims ?? [],
+        unresolvedInDeck: findUnresolvedClaims(deck.slides).reduce((count, entry) => count + entry.claims.length, 0)
+      };
+    },
+    toolSchema: z.function()
+      .args(z.object({
+        slideIndex: z.number().int().describe("Index of the slide (0-based)"),
+        text: z.string().describe("The figure as it appears on the slide, or the label of a chart or table claim"),
+        status: z.enum(CLAIM_STATUSES),
+        source: z.string().optional().describe("Where the figure comes from; expected when marking it verified")
+      }))
+      .returns(z.object({
+        slideIndex: z.number(),
+        claims: z.array(claimSchema),
+        unresolvedInDeck: z.number().describe("Figures in the deck still not verified")
+      }))
+  },
+
   {
     name: "customize-slide-content",
-    description: "Customize specific slide content with your own text and data",
+    description: "Change the heading, text or bullet list of a slide in the presentation currently on screen. Fields that are left out keep their current value",
     tool: (params: {
       slideIndex: number;
       heading?: string;
       description?: string;
-      bulletPoints?: string[];
+      bullets?: Bullet[];
     }) => {
-      const { slideIndex, heading, description, bulletPoints } = params;
-      
-      let formattedDescription = description || "";
-      
-      if (bulletPoints && bulletPoints.length > 0) {
-        formattedDescription += "\n\nKey Points:\n" + bulletPoints.map(point => `• ${point}`).join("\n");
-      }
-      
+      const { slideIndex, heading, description, bullets } = params;
+
+      const deck = getActiveDeck().updateDeck(current => {
+        const slide = current.slides[slideIndex];
+        if (!slide) {
+          throw new Error(
+            `Slide index ${slideIndex} is out of range; the presentation has ${current.slides.length} slides (0-${current.slides.length - 1}).`
+          );
+        }
+
+        const slides = [...current.slides];
+        slides[slideIndex] = {
+          ...slide,
+          heading: heading ?? slide.heading,
+          description: description ?? slide.description,
+          bullets: bullets ?? slide.bullets
+        };
+        return { ...current, slides };
+      }, { source: "customize-slide-content", focusSlide: slideIndex });
+
+      const updatedSlide = deck.slides[slideIndex];
       return {
         slideIndex,
         updated: true,
-        heading: heading || "Custom Slide",
-        description: formattedDescription,
+        heading: updatedSlide.heading,
+        description: updatedSlide.description,
+        bullets: updatedSlide.bullets ?? [],
         updatedAt: new Date().toISOString()
       };
     },
     toolSchema: z.function()
       .args(z.object({
-        slideIndex: z.number().describe("Index of the slide to customize (0-based)"),
+        slideIndex: z.number().int().describe("Index of the slide to customize (0-based)"),
         heading: z.string().optional().describe("New heading for the slide"),
         description: z.string().optional().describe("New description/content"),
-        bulletPoints: z.array(z.string()).optional().describe("Bullet points to include")
+        bullets: z.array(bulletSchema).optional()
+          .describe("Replaces the slide's bullet list; pass an empty array to remove it")
       }))
       .returns(z.object({
         slideIndex: z.number(),
         updated: z.boolean(),
         heading: z.string(),
         description: z.string(),
+        bullets: z.array(bulletSchema),
         updatedAt: z.string()
       }))
-  }
-];
+  },
 
-/**
- * Helper function to generate dynamic slides for any topic with topic-focused content
- */
-function generateDynamicSlides(topic: string, domain: string, count: number) {
-  const slides = [];
-  const domainKeywords = COMMON_KEYWORDS[domain as keyof typeof COMMON_KEYWORDS] || COMMON_KEYWORDS.business;
-  
-  // Intro slide - always focused on the specific topic
-  slides.push({
-    type: "intro" as const,
-    heading: `Introduction to ${formatTitle(topic)}`,
-    description: `Comprehensive overview of ${topic} covering key concepts, current trends, and practical applications in the ${domain} sector. This presentation provides valuable insights and actionable strategies specifically focused on ${topic}.`,
-    keywords: [topic, domain, ...domainKeywords]
-  });
-  
-  // Content slides - all focused on the topic
-  const contentTopics = [
-    {
-      heading: `Current State of ${formatTitle(topic)}`,
-      description: `Analysis of the current landscape of ${topic}, including recent developments, market dynamics, and the evolving ecosystem. This section examines how ${topic} is transforming the ${domain} industry.`,
-      keywords: [topic, "current state", "analysis", "market dynamics", ...domainKeywords]
+  {
+    name: "insert-slide",
+    description: "Insert a new slide into the presentation currently on screen at the given position",
+    tool: (params: { index: number; slide: SlideContent; keepIntroOutro?: boolean }) => {
+      const { index, slide, keepIntroOutro } = params;
+      const deck = getActiveDeck().updateDeck(
+        current => insertSlide(current, index, slide, { keepIntroOutro }),
+        { source: "insert-slide", focusSlide: index }
+      );
+      return describeDeckStructure(deck);
+    },
+    toolSchema: z.function()
+      .args(z.object({
+        index: z.number().int()
+          .describe("Position the new slide will occupy (0-based); use the slide count to append"),
+        slide: slideSchema.describe("The slide to insert"),
+        keepIntroOutro: keepIntroOutroSchema
+      }))
+      .returns(deckStructureSchema)
+  },
+
+  {
+    name: "delete-slide",
+    description: "Delete a slide from the presentation currently on screen",
+    tool: (params: { index: number; keepIntroOutro?: boolean }) => {
+      const { index, keepIntroOutro } = params;
+      const deck = getActiveDeck().updateDeck(
+        current => deleteSlide(current, index, { keepIntroOutro }),
+        { source: "delete-slide", focusSlide: index }
+      );
+      return describeDeckStructure(deck);
     },
-    {
-      heading: `Key Benefits of ${formatTitle(topic)}`,
-      description: `Exploring the significant advantages and value proposition of ${topic}, including ROI potential, efficiency gains, and strategic benefits for organizations adopting ${topic} solutions.`,
-      keywords: [topic, "benefits", "advantages", "value proposition", ...domainKeywords]
+    toolSchema: z.function()
+      .args(z.object({
+        index: z.number().int().describe("Index of the slide to delete (0-based)"),
+        keepIntroOutro: keepIntroOutroSchema
+      }))
+      .returns(deckStructureSchema)
+  },
+
+  {
+    name: "move-slide",
+    description: "Move a slide of the presentation currently on screen to another position. To swap two slides, move one and then the other",
+    tool: (params: { from: number; to: number; keepIntroOutro?: boolean }) => {
+      const { from, to, keepIntroOutro } = params;
+      const deck = getActiveDeck().updateDeck(
+        current => moveSlide(current, from, to, { keepIntroOutro }),
+        { source: "move-slide", focusSlide: to }
+      );
+      return describeDeckStructure(deck);
     },
-    {
-      heading: `Implementation Strategies for ${formatTitle(topic)}`,
-      description: `Practical approaches and methodologies for successfully implementing ${topic} initiatives, including best practices, common pitfalls to avoid, and proven frameworks for ${topic} adoption.`,
-      keywords: [topic, "implementation", "strategies", "best practices", ...domainKeywords]
+    toolSchema: z.function()
+      .args(z.object({
+        from: z.number().int().describe("Current index of the slide (0-based)"),
+        to: z.number().int().describe("Index the slide should end up at (0-based)"),
+        keepIntroOutro: keepIntroOutroSchema
+      }))
+      .returns(deckStructureSchema)
+  },
+
+  {
+    name: "duplicate-slide",
+    description: "Duplicate a slide of the presentation currently on screen; the copy is placed right after the original",
+    tool: (params: { index: number; keepIntroOutro?: boolean }) => {
+      const { index, keepIntroOutro } = params;
+      const deck = getActiveDeck().updateDeck(
+        current => duplicateSlide(current, index, { keepIntroOutro }),
+        { source: "duplicate-slide", focusSlide: index + 1 }
+      );
+      return describeDeckStructure(deck);
+    },
+    toolSchema: z.function()
+      .args(z.object({
+        index: z.number().int().describe("Index of the slide to duplicate (0-based)"),
+        keepIntroOutro: keepIntroOutroSchema
+      }))
+      .returns(deckStructureSchema)
+  },
+
+  {
+    name: "generate-outline",
+    description: "Plan a presentation before writing it: returns an editable outline with one item per slide (title, layout, one-line intent). Render it with the PresentationOutline component so the user can reorder, rename or delete items, and call expand-outline once they approve. Prefer this over generate-presentation when the user wants to review the structure first",
+    tool: async (params: {
+      topic: string;
+      domain?: string;
+      slideCount?: number;
+      templateId?: string;
+      variables?: Record<string, string>;
+      category?: TopicCategory;
+      audience?: Audience;
+    }) => {
+      const { topic, domain, slideCount = 5, templateId, variables } = params;
+      const { audience } = resolveGenerationSettings({ audience: params.audience });
+      const template = await selectPresentationTemplate(topic, domain, slideCount, {
+        audience,
+        templateId,
+        variables,
+        category: params.category
+      });
+      return {
+        title: template.title,
+        topic,
+        domain: template.domain,
+        plannedSlideCount: slideCount,
+        templateId: template.templateId,
+        category: template.category,
+        variables,
+        items: outlineFromSlides(template.slides.slice(0, slideCount))
+      };
     },
-    {
-      heading: `Challenges in ${formatTitle(topic)} Adoption`,
-      description: `Identifying common challenges, barriers, and obstacles organizations face when adopting ${topic}, along with effective solutions, mitigation strategies, and risk management approaches.`,
-      keywords: [topic, "challenges", "solutions", "risk management", ...domainKeywords]
+    toolSchema: z.function()
+      .args(z.object({
+        topic: z.string().describe("The main topic or title of the presentation"),
+        domain: z.enum(PRESENTATION_DOMAINS).optional()
+          .describe("The domain/category of the presentation"),
+        slideCount: z.number().min(3).max(10).optional()
+          .describe("Number of slides to plan (3-10, default: 5)"),
+        templateId: templateIdSchema,
+        variables: templateVariablesSchema,
+        category: categorySchema,
+        audience: generationSettingsSchema.shape.audience
+      }))
+      .returns(deckOutlineSchema)
+  },
+
+  {
+    name: "expand-outline",
+    description: "Expand an approved outline (as currently shown in the PresentationOutline component, including the user's edits) into full slides, following its order, titles and layouts. Render the result with the SlidesGenerator component. Slides listed in needsContent planned a layout that needs material the outline lacks (chart data, a comparison, a quote, ...); fill those in on the rendered deck. Generation settings work as in generate-presentation, including translateTo",
+    tool: async (params: {
+      outline: DeckOutline;
+      includeImages?: boolean;
+      audience?: Audience;
+      tone?: Tone;
+      wordsPerSlide?: number;
+      language?: string;
+    }) => {
+      const { outline, includeImages = true, ...overrides } = params;
+      const settings = resolveGenerationSettings(overrides);
+      const template = await selectPresentationTemplate(
+        outline.topic,
+        outline.domain,
+        outline.plannedSlideCount ?? outline.items.length,
+        {
+          audience: settings.audience,
+          templateId: outline.templateId,
+          variables: outline.variables,
+          category: outline.category
+        }
+      );
+      const expanded = expandOutline(outline, template.slides);
+      const adapted = adaptSlides(expanded.slides, outline.topic, settings);
+      return {
+        ...expanded,
+        ...adapted,
+        domain: template.domain,
+        slides: markNumericClaims(includeImages ? await addSlideImages(adapted.slides, outline.topic, template.domain) : adapted.slides)
+      };
     },
-    {
-      heading: `Case Studies: ${formatTitle(topic)} in Action`,
-      description: `Real-world examples and success stories of organizations that have successfully implemented ${topic} solutions, demonstrating tangible results, lessons learned, and best practices.`,
-      keywords: [topic, "case studies", "success stories", "examples", ...domainKeywords]
+    toolSchema: z.function()
+      .args(z.object({
+        outline: deckOutlineSchema.describe("The approved outline"),
+        includeImages: z.boolean().optional()
+          .describe("Whether to include relevant images (default: true)")
+      }).merge(generationSettingsSchema))
+      .returns(z.object({
+        title: z.string(),
+        domain: z.string(),
+        slides: z.array(slideSchema),
+        needsContent: z.array(z.object({
+          slideIndex: z.number(),
+          layout: z.string()
+        })).describe("Slides whose planned layout still needs content"),
+        settings: generationSettingsResultSchema,
+        translateTo: translateToSchema
+      }))
+  },
+
+  {
+    name: "create-deck-from-document",
+    description: "Build a deck outline from a document (Markdown, PDF or DOCX) the user attached: one slide per section with its key points and figures, plus an intro and key takeaways. Each outline entry cites the section its slide came from. Render the returned slides with the SlidesGenerator component, keeping the cited sources in the speaker notes if you rephrase them",
+    tool: (params: { documentId: string; slideCount?: number; sections?: string[]; title?: string }) => {
+      const { documentId, ...options } = params;
+      const document = getSessionDocument(documentId);
+      if (!document) {
+        throw new Error(`No attached document with id "${documentId}". Ask the user to attach the file again.`);
+      }
+      return buildDocumentOutline(document, options);
     },
-    {
-      heading: `Future of ${formatTitle(topic)}`,
-      description: `Emerging trends, innovation opportunities, and future developments in ${topic}, including predictions for the next 3-5 years and how organizations can prepare for the evolution of ${topic}.`,
-      keywords: [topic, "future trends", "innovation", "predictions", ...domainKeywords]
+    toolSchema: z.function()
+      .args(z.object({
+        documentId: z.string().describe("Id of the attached document, from the message context"),
+        slideCount: z.number().int().min(3).max(20).optional()
+          .describe("Total number of slides including intro and takeaways (default: one per top-level section)"),
+        sections: z.array(z.string()).optional()
+          .describe("Section numbers (e.g. \"2.1\") or headings to cover, in order; omit to choose automatically"),
+        title: z.string().optional().describe("Presentation title (default: the document title)")
+      }))
+      .returns(z.object({
+        title: z.string(),
+        source: z.string().describe("File name of the document"),
+        outline: z.array(z.object({
+          slideIndex: z.number(),
+          heading: z.string(),
+          sourceSection: z.string().describe("Section of the document the slide is based on")
+        })),
+        slides: z.array(slideSchema)
+      }))
+  },
+
+  createDataSectionTool(demographicsSection),
+
+  createDataSectionTool(datasetSlidesSection)
+];
+
+/**
+ * Slide order after a structural edit, so the assistant can refer to slides by their new index
+ */
+function describeDeckStructure(deck: Deck) {
+  return {
+    slideCount: deck.slides.length,
+    slides: deck.slides.map((slide, index) => ({ index, type: slide.type, heading: slide.heading }))
+  };
+}
+
+const toCandidate = ({ template, score, reasons }: TemplateMatch) =>
+  ({ templateId: template.id, title: template.title, score, reasons });
+
+/**
+ * Picks the template with the given id, or the template most relevant to the topic, and
+ * fills in its variables. When no template scores MIN_TEMPLATE_SCORE, the slides are
+ * planned for the topic's category (see content-planner.ts). `domain` is a hint for
+ * matching and the domain of planned slides.
+ */
+async function selectPresentationTemplate(
+  topic: string,
+  domain: string | undefined,
+  slideCount: number,
+  options: { audience?: Audience; templateId?: string; variables?: Record<string, string>; category?: TopicCategory } = {}
+): Promise<{
+  templateId?: string;
+  title: string;
+  domain: string;
+  slides: TemplateSlide[];
+  missingVariables: string[];
+  category?: TopicCategory;
+  match: z.infer<typeof templateMatchSchema>;
+}> {
+  const { templates } = await getTemplateRegistry();
+  const ranked = rankTemplates(templates, topic, domain);
+  const candidates = ranked.slice(0, 3).map(toCandidate);
+
+  let template: RegisteredTemplate | undefined;
+  let match: z.infer<typeof templateMatchSchema>;
+  if (options.templateId) {
+    template = templates.find(candidate => candidate.id === options.templateId);
+    if (!template) {
+      throw new Error(
+        `No template has the id "${options.templateId}". Call get-presentation-templates for the available ids.`
+      );
     }
-  ];
-  
-  // Add content slides based on requested count, ensuring all are topic-focused
-  const contentCount = Math.min(count - 2, contentTopics.length);
-  for (let i = 0; i < contentCount; i++) {
-    slides.push({
-      type: "content" as const,
-      ...contentTopics[i]
+    match = { method: "requested", explanation: `The template "${template.title}" was requested by id.`, candidates };
+  } else if (ranked.length > 0 && ranked[0].score >= MIN_TEMPLATE_SCORE) {
+    const [best, runnerUp] = ranked;
+    template = best.template;
+    const close = runnerUp && best.score - runnerUp.score < 0.05
+      ? ` "${runnerUp.template.title}" scored almost as high (${runnerUp.score}); check which one the user meant.`
+      : "";
+    match = {
+      method: "matched",
+      explanation: `"${template.title}" is the best match for the topic (score ${best.score}: ${best.reasons.join(", ")}).${close}`,
+      candidates
+    };
+  } else {
+    match = {
+      method: "generated",
+      explanation: ranked.length > 0
+        ? `The closest template, "${ranked[0].template.title}", scored ${ranked[0].score}, below ${MIN_TEMPLATE_SCORE}, so the slides were generated for the topic.`
+        : "No template shares a word with the topic, so the slides were generated for it.",
+      candidates
+    };
+  }
+
+  // If no template fits, plan slides for the kind of presentation the topic asks for
+  if (!template) {
+    const fallbackDomain = (domain ?? "business").toLowerCase();
+    const planned = planDeck(topic, {
+      domain: fallbackDomain,
+      count: slideCount,
+      audience: options.audience,
+      category: options.category,
+      keywords: COMMON_KEYWORDS[fallbackDomain as PresentationDomain] ?? COMMON_KEYWORDS.business,
+      notice: DOMAIN_NOTICES[fallbackDomain as PresentationDomain]
     });
+    const filled = applyTemplateVariables(planned, options.variables);
+    return {
+      title: filled.title,
+      domain: fallbackDomain,
+      slides: filled.slides,
+      missingVariables: filled.missingVariables,
+      category: planned.category,
+      match
+    };
   }
-  
-  // Outro slide - focused on the topic
-  slides.push({
-    type: "outro" as const,
-    heading: `Conclusion: Next Steps for ${formatTitle(topic)}`,
-    description: `Summary of key insights, strategic recommendations, and actionable next steps for implementing ${topic} initiatives. Includes timeline, resource requirements, and success metrics specifically for ${topic} projects.`,
-    keywords: [topic, "conclusion", "next steps", "action plan", ...domainKeywords]
-  });
-  
-  return slides.slice(0, count);
+
+  const filled = applyTemplateVariables(template, options.variables);
+  return {
+    templateId: template.id,
+    title: filled.title || formatTitle(topic),
+    domain: template.domain,
+    slides: filled.slides,
+    missingVariables: filled.missingVariables,
+    match
+  };
 }
 
 /**
- * Helper function to format topic titles
+ * Adds an Unsplash image to every slide without a chart, searched by the slide's keywords
  */
-function formatTitle(topic: string): string {
-  return topic
-    .split(' ')
-    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-    .join(' ');
+async function addSlideImages(slides: TemplateSlide[], topic: string, domain: string): Promise<TemplateSlide[]> {
+  const imageKeywords = IMAGE_COLLECTIONS[domain as PresentationDomain] || IMAGE_COLLECTIONS.business;
+  
+  // Enhance slides with image queries and suggested images
+  return Promise.all(slides.map(async (slide, index): Promise<TemplateSlide> => {
+    // Slides with a chart show it instead of an image
+    if (slide.chart) return slide;
+
+    // Use slide keywords or fallback to topic-based keywords
+    const keywords = slide.keywords || [
+      ...(slide.heading?.toLowerCase().split(' ') || []),
+      ...(topic.toLowerCase().split(' ') || []),
+      imageKeywords[index % imageKeywords.length]
+    ].filter(k => k.length > 3); // Filter out short words
+    
+    const searchQuery = keywords.slice(0, 3).join(' ') || topic;
+    
+    try {
+      // Search for relevant images using the tool
+      const imageResults = await tools[1].tool({ query: searchQuery });
+      return {
+        ...slide,
+        imageQuery: searchQuery,
+        imageUrl: imageResults?.[0]?.urls?.regular || `https://source.unsplash.com/800x400/?${encodeURIComponent(searchQuery)}`,
+        imageAlt: imageResults?.[0]?.alt_description || `${searchQuery} image`,
+        photographer: imageResults?.[0]?.user?.name,
+        unsplashUrl: imageResults?.[0]?.links?.html
+      };
+    } catch (error) {
+      console.error("Error fetching image:", error);
+      return {
+        ...slide,
+        imageQuery: searchQuery,
+        imageUrl: `https://source.unsplash.com/800x400/?${encodeURIComponent(searchQuery)}`,
+        imageAlt: `${searchQuery} image`
+      };
+    }
+  }));
 }
 
 /**
@@ -688,26 +836,14 @@ function formatTitle(topic: string): string {
 export const components: TamboComponent[] = [
   {
     name: "SlidesGenerator",
-    description: "A professional presentation component with smooth transitions, navigation controls, and theme customization",
-    component: SlidesGenerator,
-    propsSchema: z.object({
-      title: z.string().describe("Presentation title"),
-      theme: z.enum(["light", "dark", "blue", "purple", "gradient"]).optional()
-        .describe("Visual theme for the presentation"),
-      slides: z.array(
-        z.object({
-          type: z.enum(["intro", "content", "outro"]).describe("Slide type"),
-          heading: z.string().describe("Slide heading"),
-          description: z.string().describe("Slide content"),
-          imageUrl: z.string().optional().describe("Image URL for the slide"),
-          imageAlt: z.string().optional().describe("Image alt text"),
-          imageQuery: z.string().optional().describe("Search query used for the image"),
-          photographer: z.string().optional().describe("Photographer name"),
-          unsplashUrl: z.string().optional().describe("Unsplash URL for attribution")
-        })
-      ).describe("Array of slides with content and optional images"),
-      autoPlay: z.boolean().optional().describe("Auto-advance slides"),
-      showProgress: z.boolean().optional().describe("Show progress indicator")
-    }),
+    description: "A professional presentation component with smooth transitions, navigation controls, theme customization and a presenter view that shows each slide's speaker notes. Slides can use a special layout (section divider, comparison, full-bleed image, quote, agenda, timeline, big numbers, team/grid) through their layout field. Numeric data can go in a slide's chart (bar, line or pie), which is shown instead of its image. Tabular data such as pricing tiers or competitor matrices goes in a slide's table. Slides built from an attached spreadsheet keep a dataBinding; to change such a chart or table, edit its binding (columns, sorting, grouping, limit) and the data is re-rendered from the file. Put list content in a slide's bullets (with nesting levels and emphasis) rather than as bullet characters in the description. A rendered presentation stays editable, so change the deck on screen instead of rendering a new one when the user asks for edits",
+    component: InteractablePresentation,
+    propsSchema: presentationPropsSchema,
+  },
+  {
+    name: "PresentationOutline",
+    description: "An editable deck outline from generate-outline: one row per planned slide with its title, layout and intent. The user reorders, renames or deletes rows and approves the outline, which asks for expand-outline with the edited outline",
+    component: InteractablePresentationOutline,
+    propsSchema: deckOutlineSchema,
   }
 ];
\ No newline at end of file
@@ -0,0 +1,140 @@
+/**
+ * @file template-definitions.ts
+ * @description Presentation template definitions, their validation and their variables
+ *
+ * A template is a titled set of slides for a topic in a domain. Any text in it may use
+ * variables such as {{company}} or {{quarter}}, which are filled in when a deck is
+ * generated from the template. Definitions are validated the same way wherever they come
+ * from: the built-in templates, JSON or YAML files in the templates folder, or templates
+ * users saved in the browser (see template-registry.ts).
+ */
+
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { slideSchema } from "@/lib/slides";
+
+export const templateSlideSchema = slideSchema.extend({
+  keywords: z.array(z.string()).optional().describe("Image search keywords for the slide")
+});
+
+export const templateVariableSchema = z.object({
+  name: z.string().regex(/^[a-zA-Z]\w*$/, "Variable names are letters, digits and underscores"),
+  description: z.string().optional().describe("What the value is, shown when asking for it"),
+  default: z.string().optional()
+});
+
+export const presentationTemplateSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, "Ids are lowercase letters, digits and dashes").optional()
+    .describe("Stable id (default: the file name)"),
+  domain: z.string().min(1).describe('Domain the template belongs to, e.g. "business"'),
+  topic: z.string().min(1).describe("Topic the template is matched against"),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  variables: z.array(templateVariableSchema).optional()
+    .describe("Variables used in the slides, with descriptions and defaults"),
+  slides: z.array(templateSlideSchema).min(1)
+});
+
+export type TemplateSlide = z.infer<typeof templateSlideSchema>;
+export type TemplateVariable = z.infer<typeof templateVariableSchema>;
+export type PresentationTemplate = z.infer<typeof presentationTemplateSchema>;
+
+export function toTemplateId(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+}
+
+/**
+ * Validates a template definition; the error names every invalid field.
+ */
+export function validateTemplate(data: unknown, source: string): PresentationTemplate {
+  const result = presentationTemplateSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`${source} is not a valid template. ${formatIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Reads a JSON or YAML template file. Templates without an id take the file name.
+ */
+export function parseTemplateFile(fileName: string, content: string): PresentationTemplate {
+  let data: unknown;
+  try {
+    data = /\.ya?ml$/i.test(fileName) ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${fileName} could not be read. ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const template = validateTemplate(data, fileName);
+  return { ...template, id: template.id ?? toTemplateId(fileName.replace(/\.[^.]+$/, "")) };
+}
+
+// --- Variables ---
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z]\w*)\s*\}\}/g;
+
+const hasValue = (values: Record<string, string>, name: string) =>
+  Object.prototype.hasOwnProperty.call(values, name);
+
+/** Values available to every template without declaring them */
+export function builtinVariableValues(date = new Date()): Record<string, string> {
+  return {
+    quarter: `Q${Math.floor(date.getMonth() / 3) + 1} ${date.getFullYear()}`,
+    year: String(date.getFullYear())
+  };
+}
+
+function collectVariables(value: unknown, names: Set<string>) {
+  if (typeof value === "string") {
+    for (const match of value.matchAll(VARIABLE_PATTERN)) names.add(match[1]);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectVariables(item, names));
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach(item => collectVariables(item, names));
+  }
+}
+
+/** Every variable a template uses or declares, in order of first use */
+export function listTemplateVariables(template: PresentationTemplate): string[] {
+  const names = new Set<string>();
+  collectVariables([template.title, template.slides], names);
+  template.variables?.forEach(variable => names.add(variable.name));
+  return [...names];
+}
+
+function fillVariables<T>(value: T, values: Record<string, string>): T {
+  if (typeof value === "string") {
+    return value.replace(VARIABLE_PATTERN, (placeholder, name: string) => (hasValue(values, name) ? values[name] : placeholder)) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => fillVariables(item, values)) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillVariables(item, values)])) as T;
+  }
+  return value;
+}
+
+/**
+ * Fills the template's variables from `values`, then the template's defaults, then the
+ * built-in values (quarter, year). Variables without a value keep their {{placeholder}}
+ * and are listed in `missingVariables`.
+ */
+export function applyTemplateVariables(template: PresentationTemplate, values: Record<string, string> = {}) {
+  const defaults = Object.fromEntries(
+    (template.variables ?? []).flatMap(variable => (variable.default !== undefined ? [[variable.name, variable.default]] : []))
+  );
+  const resolved: Record<string, string> = { ...builtinVariableValues(), ...defaults, ...values };
+
+  return {
+    title: fillVariables(template.title, resolved),
+    slides: fillVariables(template.slides, resolved),
+    missingVariables: listTemplateVariables(template).filter(name => !hasValue(resolved, name))
+  };
+}
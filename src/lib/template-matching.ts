@@ -0,0 +1,165 @@
+/**
+ * @file template-matching.ts
+ * @description Ranks templates by how well they fit a requested topic
+ *
+ * Each word of the topic is looked up in the template's topic, title, description and
+ * slide headings and keywords, counting synonyms (so "AI" finds "artificial
+ * intelligence" and "security" finds "cybersecurity") at a lower weight. The score
+ * combines how much of the request the template covers with how much of the template's
+ * own topic the request covers, plus a small bonus for the requested domain. Every match
+ * explains itself, and matches below MIN_TEMPLATE_SCORE are not used.
+ */
+
+import type { RegisteredTemplate } from "@/lib/template-registry";
+
+export interface TemplateMatch {
+  template: RegisteredTemplate;
+  /** 0 to 1 */
+  score: number;
+  /** Why the template matched, e.g. 'topic: "cloud"' */
+  reasons: string[];
+}
+
+/** Below this score a topic gets generated slides instead of a template */
+export const MIN_TEMPLATE_SCORE = 0.35;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "the", "of", "for", "in", "on", "to", "with", "our", "your", "my", "about", "at", "by", "from", "how", "what", "why"
+]);
+
+// Phrases read as a single word before tokenizing
+const PHRASES: [RegExp, string][] = [
+  [/\bartificial intelligence\b/g, "ai"],
+  [/\bmachine learning\b/g, "ml"],
+  [/\bgo[- ]to[- ]market\b/g, "launch"],
+  [/\bnew hires?\b/g, "onboarding"],
+  [/\bpublic health\b/g, "publichealth"]
+];
+
+// Words in a group count as synonyms of each other
+const SYNONYM_GROUPS = [
+  ["ai", "ml", "genai", "llm"],
+  ["security", "cybersecurity", "cyber", "threat", "infosec"],
+  ["cloud", "aws", "azure", "gcp", "saas"],
+  ["migration", "migrate", "move"],
+  ["market", "industry", "competitive", "competition", "landscape"],
+  ["analysis", "analytics", "assessment"],
+  ["financial", "finance", "revenue", "earning", "budget", "fiscal"],
+  ["report", "result", "update", "review", "summary"],
+  ["launch", "release", "rollout"],
+  ["strategy", "strategic", "plan", "planning", "roadmap"],
+  ["teaching", "education", "curriculum", "lesson", "course", "training", "learning", "classroom"],
+  ["clinical", "trial", "study"],
+  ["safety", "harm", "incident"],
+  ["hospital", "clinic", "ward"],
+  ["health", "healthcare", "medical", "publichealth"],
+  ["operation", "operational", "ops"],
+  ["campaign", "awareness", "outreach"],
+  ["quarterly", "quarter", "qbr"],
+  ["onboarding", "orientation", "welcome"],
+  ["transformation", "digital"]
+];
+
+const SYNONYMS = new Map<string, Set<string>>();
+for (const group of SYNONYM_GROUPS) {
+  for (const word of group) {
+    SYNONYMS.set(word, new Set([...(SYNONYMS.get(word) ?? []), ...group.filter(other => other !== word)]));
+  }
+}
+
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith("s") && !/(ss|is|us)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+export function tokenize(text: string): string[] {
+  let normalized = text.toLowerCase();
+  for (const [phrase, replacement] of PHRASES) normalized = normalized.replace(phrase, replacement);
+  return normalized
+    .split(/[^a-z0-9]+/)
+    .filter(word => word && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+interface TemplateField {
+  label: string;
+  tokens: Set<string>;
+  /** Weight of an exact match; synonyms count 80% of it */
+  weight: number;
+}
+
+function templateFields(template: RegisteredTemplate): TemplateField[] {
+  const slideWords = template.slides.flatMap(slide => [slide.heading, ...(slide.keywords ?? [])]);
+  return [
+    { label: "topic", tokens: new Set(tokenize(template.topic)), weight: 1 },
+    { label: "title", tokens: new Set(tokenize(template.title)), weight: 0.7 },
+    { label: "description", tokens: new Set(tokenize(template.description ?? "")), weight: 0.5 },
+    { label: "slide keywords", tokens: new Set(slideWords.flatMap(tokenize)), weight: 0.4 }
+  ];
+}
+
+/** The strongest place a word of the request appears in the template, if any */
+function matchWord(word: string, fields: TemplateField[]) {
+  let best: { value: number; reason: string } | undefined;
+  for (const field of fields) {
+    if (best && best.value >= field.weight) break;
+    if (field.tokens.has(word)) {
+      best = { value: field.weight, reason: `${field.label}: "${word}"` };
+      continue;
+    }
+    const synonym = [...(SYNONYMS.get(word) ?? [])].find(candidate => field.tokens.has(candidate));
+    if (synonym && (!best || best.value < field.weight * 0.8)) {
+      best = { value: field.weight * 0.8, reason: `${field.label}: "${synonym}" (synonym of "${word}")` };
+    }
+  }
+  return best;
+}
+
+function isRelated(a: string, b: string) {
+  return a === b || !!SYNONYMS.get(a)?.has(b);
+}
+
+export function scoreTemplate(template: RegisteredTemplate, topic: string, domain?: string): TemplateMatch {
+  const words = [...new Set(tokenize(topic))];
+  const fields = templateFields(template);
+  const reasons: string[] = [];
+
+  if (template.topic.toLowerCase().trim() === topic.toLowerCase().trim()) {
+    return { template, score: 1, reasons: ["exact topic match"] };
+  }
+
+  let covered = 0;
+  for (const word of words) {
+    const match = matchWord(word, fields);
+    if (match) {
+      covered += match.value;
+      reasons.push(match.reason);
+    }
+  }
+  const requestCoverage = words.length > 0 ? covered / words.length : 0;
+
+  const topicWords = [...fields[0].tokens];
+  const topicCoverage = topicWords.length > 0
+    ? topicWords.filter(topicWord => words.some(word => isRelated(word, topicWord))).length / topicWords.length
+    : 0;
+
+  let score = 0.65 * requestCoverage + 0.35 * topicCoverage;
+  if (score > 0 && domain && template.domain.toLowerCase() === domain.toLowerCase()) {
+    score += 0.1;
+    reasons.push(`domain: ${template.domain}`);
+  }
+
+  return { template, score: Math.round(Math.min(1, score) * 100) / 100, reasons };
+}
+
+/**
+ * Scores every template for the topic, best first. Templates that share nothing with
+ * the topic are left out.
+ */
+export function rankTemplates(templates: RegisteredTemplate[], topic: string, domain?: string): TemplateMatch[] {
+  return templates
+    .map(template => scoreTemplate(template, topic, domain))
+    .filter(match => match.reasons.some(reason => !reason.startsWith("domain:")))
+    .sort((a, b) => b.score - a.score);
+}
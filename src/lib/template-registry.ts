@@ -0,0 +1,148 @@
+/**
+ * @file template-registry.ts
+ * @description Every presentation template the generation tools can use
+ *
+ * Three sources, in order of precedence: templates the user saved in this browser,
+ * JSON and YAML files in the project's templates folder (served by /api/templates), and
+ * the built-in templates. A template with the same id as one from a later source
+ * replaces it, so a company can override a built-in template by reusing its id.
+ * Definitions that fail validation are skipped and reported in `errors`.
+ */
+
+import { BUILTIN_TEMPLATES } from "@/lib/builtin-templates";
+import {
+  parseTemplateFile,
+  toTemplateId,
+  validateTemplate,
+  type PresentationTemplate
+} from "@/lib/template-definitions";
+
+export type TemplateSource = "user" | "folder" | "builtin";
+
+export interface RegisteredTemplate extends PresentationTemplate {
+  id: string;
+  source: TemplateSource;
+}
+
+export interface TemplateLoadError {
+  /** File name, or where the template came from */
+  source: string;
+  message: string;
+}
+
+export interface TemplateRegistry {
+  templates: RegisteredTemplate[];
+  errors: TemplateLoadError[];
+}
+
+const USER_TEMPLATES_KEY = "user-templates";
+
+let registry: Promise<TemplateRegistry> | null = null;
+
+// --- Sources ---
+
+async function loadFolderTemplates(): Promise<TemplateRegistry> {
+  const loaded: TemplateRegistry = { templates: [], errors: [] };
+  let files: { name: string; content: string }[];
+  try {
+    const response = await fetch("/api/templates");
+    if (!response.ok) {
+      throw new Error(`The templates folder could not be read (status ${response.status}).`);
+    }
+    ({ files } = await response.json());
+  } catch (error) {
+    console.error("Error loading folder templates:", error);
+    loaded.errors.push({ source: "templates folder", message: error instanceof Error ? error.message : String(error) });
+    return loaded;
+  }
+
+  for (const file of files) {
+    try {
+      const template = parseTemplateFile(file.name, file.content);
+      loaded.templates.push({ ...template, id: template.id ?? toTemplateId(template.topic), source: "folder" });
+    } catch (error) {
+      console.error("Error loading folder template:", error);
+      loaded.errors.push({ source: file.name, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return loaded;
+}
+
+function readStoredTemplates(): unknown[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(USER_TEMPLATES_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+function loadUserTemplates(): TemplateRegistry {
+  const loaded: TemplateRegistry = { templates: [], errors: [] };
+  for (const stored of readStoredTemplates()) {
+    try {
+      const template = validateTemplate(stored, "A saved template");
+      if (!template.id) throw new Error("A saved template has no id.");
+      loaded.templates.push({ ...template, id: template.id, source: "user" });
+    } catch (error) {
+      loaded.errors.push({ source: "saved templates", message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return loaded;
+}
+
+async function loadRegistry(): Promise<TemplateRegistry> {
+  const user = loadUserTemplates();
+  const folder = await loadFolderTemplates();
+  const builtin = BUILTIN_TEMPLATES.map((template): RegisteredTemplate => ({
+    ...template,
+    id: template.id ?? toTemplateId(template.topic),
+    source: "builtin"
+  }));
+
+  const seen = new Set<string>();
+  const templates = [...user.templates, ...folder.templates, ...builtin].filter(template => {
+    if (seen.has(template.id)) return false;
+    seen.add(template.id);
+    return true;
+  });
+  return { templates, errors: [...user.errors, ...folder.errors] };
+}
+
+/**
+ * The registry, loaded on first use. Folder templates are read once per page load;
+ * saving or deleting a user template reloads it.
+ */
+export function getTemplateRegistry(): Promise<TemplateRegistry> {
+  if (!registry) {
+    registry = loadRegistry();
+  }
+  return registry;
+}
+
+export function reloadTemplateRegistry() {
+  registry = null;
+}
+
+// --- User templates ---
+
+/**
+ * Validates and stores a template in this browser. A template with the same id is
+ * replaced; without an id, one is made from the topic.
+ */
+export function saveUserTemplate(template: PresentationTemplate): RegisteredTemplate {
+  const validated = validateTemplate(template, `Template "${template.title}"`);
+  const id = validated.id ?? `${toTemplateId(validated.topic) || "template"}-${Date.now().toString(36)}`;
+  const stored = readStoredTemplates().filter(item => (item as { id?: string })?.id !== id);
+
+  localStorage.setItem(USER_TEMPLATES_KEY, JSON.stringify([...stored, { ...validated, id }]));
+  reloadTemplateRegistry();
+  return { ...validated, id, source: "user" };
+}
+
+export function deleteUserTemplate(id: string) {
+  const stored = readStoredTemplates().filter(item => (item as { id?: string })?.id !== id);
+  localStorage.setItem(USER_TEMPLATES_KEY, JSON.stringify(stored));
+  reloadTemplateRegistry();
+}
@@ -0,0 +1,70 @@
+/**
+ * @file xlsx-reader.ts
+ * @description Reads the first worksheet with data of an .xlsx file
+ *
+ * The workbook is parsed in the browser with exceljs. Cell values come back as strings
+ * and numbers: dates (including formula results in a date format) become ISO dates,
+ * rich text and hyperlinks their text, and formulas their cached result.
+ */
+
+import { Workbook, type Cell, type CellValue } from "exceljs";
+
+export type XlsxCell = string | number | null;
+
+function toIsoDate(date: Date): string {
+  const iso = date.toISOString();
+  return /T00:00(?::00(?:\.000)?)?Z$/.test(iso) ? iso.slice(0, 10) : iso.slice(0, 16).replace("T", " ");
+}
+
+/** Excel stores dates as days since 1899-12-30 (the 1900 leap-year bug included) */
+const serialToDate = (serial: number) => new Date(Math.round((serial - 25569) * 86400 * 1000));
+
+// Date tokens left after removing quoted text and [color]/[locale] blocks
+const isDateFormat = (format: string | undefined) =>
+  !!format && /[dmy]/i.test(format.replace(/"[^"]*"|\[[^\]]*\]/g, ""));
+
+function toXlsxCell(value: CellValue, cell: Cell): XlsxCell {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return toIsoDate(value);
+  if (typeof value === "number") return isDateFormat(cell.numFmt) ? toIsoDate(serialToDate(value)) : value;
+  if (typeof value === "string") return value;
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  if ("error" in value) return value.error;
+  if ("richText" in value) return value.richText.map(run => run.text).join("");
+  if ("hyperlink" in value) return value.text;
+  return toXlsxCell(value.result, cell);
+}
+
+/**
+ * Reads the first worksheet that has data into rows of cells, up to `maxRows` rows.
+ * Empty leading columns and gaps are kept as nulls so every row lines up with the header
+ * row; cells below `maxRows` are ignored rather than padded up to.
+ */
+export async function readXlsxRows(buffer: ArrayBuffer, maxRows: number): Promise<XlsxCell[][]> {
+  const workbook = new Workbook();
+  try {
+    await workbook.xlsx.load(buffer);
+  } catch (error) {
+    throw new Error(`The file is not a valid Excel workbook. ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const sheet = workbook.worksheets.find(worksheet => worksheet.actualRowCount > 0);
+  if (!sheet) {
+    throw new Error("The workbook has no worksheet with data.");
+  }
+
+  const rows: XlsxCell[][] = [];
+  sheet.eachRow((row, rowNumber) => {
+    if (rowNumber > maxRows) return;
+
+    const cells: XlsxCell[] = [];
+    row.eachCell((cell, columnNumber) => {
+      while (cells.length < columnNumber - 1) cells.push(null);
+      cells[columnNumber - 1] = toXlsxCell(cell.value, cell);
+    });
+
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = cells;
+  });
+  return rows;
+}